@@ -3,59 +3,30 @@ import { createMcpHandler } from "@vercel/mcp-adapter";
 import { withMcpAuth } from "better-auth/plugins";
 import { z } from "zod";
 import { db } from "@/lib/db";
-import { user, emailAgent, session, agentLaunchLog } from "@/lib/schema";
-import { eq } from "drizzle-orm";
-
-// Cursor API interfaces (updated to match official API spec)
-interface CursorAgentRequest {
-    prompt: {
-        text: string;
-        images?: Array<{
-            data: string;
-            dimension?: {
-                width: number;
-                height: number;
-            };
-        }>;
-    };
-    model?: string;
-    source: {
-        repository: string;
-        ref?: string;
-    };
-    target?: {
-        autoCreatePr?: boolean;
-        branchName?: string;
-    };
-    webhook?: {
-        url: string;
-        secret?: string;
-    };
-}
-
-interface CursorAgent {
-    id: string;
-    name: string;
-    status: 'RUNNING' | 'FINISHED' | 'ERROR' | 'CREATING' | 'EXPIRED';
-    source: {
-        repository: string;
-        ref: string;
-    };
-    target: {
-        branchName: string;
-        url: string;
-        prUrl?: string;
-        autoCreatePr: boolean;
-    };
-    summary?: string;
-    createdAt: string;
-}
-
-interface CursorAgentListResponse {
-    agents: CursorAgent[];
-    nextCursor?: string;
-}
-
+import { user, emailAgent, session, agentRun } from "@/lib/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { addCursorAgentFollowup, launchCursorAgent, createCursorCallback, type CursorAgent, type CursorAgentLaunchRequest, type CursorAgentPage } from "@/lib/cursor-api";
+import { decryptSecret } from "@/lib/secrets";
+import { createAgentRun, transitionCursorAgentRuns, emitRunEvent, getAgentRunEvents, getLatestRunForCursorAgent } from "@/lib/agent-runs";
+import { waitForCursorAgent, getRunResourceUri, parseRunResourceUri } from "@/lib/run-watch";
+import { subscribeToRun } from "@/lib/run-notifications";
+import { upsertWebhookEndpoint, validateWebhookEndpoint } from "@/lib/webhook-endpoints";
+import {
+    validateEmailAgentInput,
+    resolveNewAgentCursorApiKey,
+    provisionEmailAgent,
+    listEmailAgents,
+    getUserEmailAgent,
+    updateEmailAgentSettings,
+    removeEmailAgent,
+    getAgentLaunchLogs
+} from "@/lib/email-agents";
+import { validateAgentBatchInput, launchAgentBatch, getAgentBatchReport, MAX_BATCH_TASKS, type AgentBatchReport } from "@/lib/agent-batches";
+import { parseScopes, getMissingToolScopeMessage, getMissingScopeMessage, MCP_RESOURCE_SCOPE } from "@/lib/mcp-scopes";
+
+// Cursor API responses only the MCP tools read - agents and launches are typed in lib/cursor-api.ts
 interface CursorMessage {
     id: string;
     type: 'user_message' | 'assistant_message';
@@ -92,7 +63,7 @@ async function getCursorApiKey(userId: string): Promise<string | null> {
             .limit(1);
 
         if (userResult[0]?.defaultCursorApiKey) {
-            return userResult[0].defaultCursorApiKey;
+            return decryptSecret(userResult[0].defaultCursorApiKey);
         }
 
         // Fallback to any email agent's API key
@@ -101,13 +72,63 @@ async function getCursorApiKey(userId: string): Promise<string | null> {
             .where(eq(emailAgent.userId, userId))
             .limit(1);
 
-        return agentResult[0]?.cursorApiKey || null;
+        return decryptSecret(agentResult[0]?.cursorApiKey);
     } catch (error) {
         console.error('Error getting Cursor API key:', error);
         return null;
     }
 }
 
+// SSE connections (and with them resource subscriptions) last at most this long
+const MCP_MAX_DURATION_SECONDS = 60;
+
+// wait_for_agent has to answer before the request times out
+const MAX_WAIT_SECONDS = 50;
+
+// Settings create_email_agent and update_email_agent share - the REST API takes the same fields
+const emailAgentSettingsSchema = {
+    githubRef: z.string().optional().describe("Git branch/ref agents work from (default 'main')"),
+    model: z.string().optional().describe("AI model launched agents use"),
+    autoCreatePr: z.boolean().optional().describe("Whether launched agents automatically create a PR"),
+    promptTemplate: z.string().nullable().optional().describe("Prompt template with {{subject}}, {{body}}, {{sender}} placeholders - null for the default"),
+    completionTemplate: z.string().nullable().optional().describe("Markdown template of the completion reply - null for the default"),
+    allowedOverrides: z.array(z.string()).nullable().optional().describe("Settings senders may override from the subject line (e.g., 'model', 'ref', 'branch')"),
+    senderAuthentication: z.enum(["off", "relaxed", "strict"]).optional().describe("How strictly SPF/DKIM/DMARC of senders are checked"),
+    requireApproval: z.boolean().optional().describe("Whether you must approve each email before an agent launches"),
+    approvalTtlHours: z.number().optional().describe("How long emails wait for approval before expiring"),
+    replyAll: z.boolean().optional().describe("Copy the original To and CC recipients on completion replies"),
+    replyCc: z.array(z.string()).nullable().optional().describe("Addresses always copied on completion replies"),
+    replyBcc: z.array(z.string()).nullable().optional().describe("Addresses always blind-copied on completion replies"),
+    replyAllowList: z.array(z.string()).nullable().optional().describe("Patterns every copied recipient must match (e.g., 'company.com')"),
+};
+
+function formatEmailAgent(agent: { id: string; name: string; emailAddress: string | null; githubRepository: string; githubRef: string; isActive: boolean; requireApproval: boolean }): string {
+    return `${agent.isActive ? '🟢' : '⏸️'} **${agent.name}** (${agent.id})\n` +
+        `   📧 Address: ${agent.emailAddress || 'None'}\n` +
+        `   📁 Repository: ${agent.githubRepository}\n` +
+        `   🌿 Branch: ${agent.githubRef || 'main'}\n` +
+        `   Status: ${agent.isActive ? 'Active' : 'Paused'}` +
+        (agent.requireApproval ? '\n   ✋ Approval required' : '');
+}
+
+function formatAgentBatch({ batch, runs, counts }: AgentBatchReport): string {
+    const statusIcon = batch.status === 'finished' ? '✅' : batch.status === 'failed' ? '❌' : '🏃';
+    const runList = runs.map((run, index) => {
+        const paths: string[] = run.pathScopes ? JSON.parse(run.pathScopes) : [];
+        return `${index + 1}. **${run.emailSubject || run.id}** - ${run.status}\n` +
+            `   📂 Paths: ${paths.map(path => path || '.').join(', ')}\n` +
+            `   🌿 Branch: ${run.branchName || 'None'}\n` +
+            `   🤖 Agent: ${run.cursorAgentId || 'Not launched'}` +
+            (run.prUrl ? `\n   🔗 PR: ${run.prUrl}` : '') +
+            (run.statusMessage && run.status !== 'running' ? `\n   💬 ${run.statusMessage}` : '');
+    }).join('\n\n');
+
+    return `${statusIcon} **Batch ${batch.name ? `'${batch.name}' ` : ''}(${batch.id})** - ${batch.status}\n` +
+        `📁 Repository: ${batch.repository} (${batch.ref})\n` +
+        `📊 ${counts.finished} finished, ${counts.failed} failed, ${counts.active} still working of ${counts.total}\n\n` +
+        runList;
+}
+
 const handler = withMcpAuth(auth, async (req: Request) => {
     const session = await auth.api.getMcpSession({
         headers: req.headers
@@ -119,26 +140,58 @@ const handler = withMcpAuth(auth, async (req: Request) => {
         })
     }
     // session contains the access token record with scopes and user ID
+    const grantedScopes = parseScopes(session.scopes);
+
+    // Tools answer with an error naming the scope the token lacks - see lib/mcp-scopes.ts
+    const checkToolScope = (toolName: string) => {
+        const message = getMissingToolScopeMessage(grantedScopes, toolName);
+        return message ? { content: [{ type: "text" as const, text: message }], isError: true } : null;
+    };
+
+    const checkResourceScope = (action: string) => {
+        const message = getMissingScopeMessage(grantedScopes, MCP_RESOURCE_SCOPE, action);
+        if (message) {
+            throw new McpError(ErrorCode.InvalidRequest, message);
+        }
+    };
+
     return createMcpHandler(
         (server) => {
             // Helper function to get user's Cursor API key
             server.tool(
                 "create_cursor_agent",
-                "⚠️ CREATES BACKGROUND AGENT: This starts an autonomous AI coding agent that will work asynchronously on your repository and automatically create a Pull Request when complete. The agent works independently and may take several minutes to hours to finish. Multiple agents should have distinct, non-overlapping scopes to avoid conflicts.",
+                "⚠️ CREATES BACKGROUND AGENT: This starts an autonomous AI coding agent that will work asynchronously on your repository and automatically create a Pull Request when complete. The agent works independently and may take several minutes to hours to finish. Multiple agents should have distinct, non-overlapping scopes to avoid conflicts - use 'launch_agent_batch' to launch several with enforced path scopes.",
                 {
                     prompt: z.string().describe("Detailed instructions for what the agent should accomplish"),
                     repository: z.string().describe("GitHub repository URL (e.g., 'https://github.com/user/repo')"),
                     ref: z.string().optional().default("main").describe("Git branch/ref to work from"),
                     model: z.string().optional().describe("AI model to use (e.g., 'claude-3.5-sonnet', 'gpt-4-turbo')"),
                     autoCreatePr: z.boolean().optional().default(true).describe("Whether to automatically create a PR when complete"),
-                    webhookUrl: z.string().optional().describe("Webhook URL to receive completion notifications"),
-                    webhookSecret: z.string().optional().describe("Secret for webhook signature verification"),
+                    webhookUrl: z.string().optional().describe("Webhook URL to receive this agent's events (agent.created, agent.completed, ...) as signed JSON"),
+                    webhookSecret: z.string().optional().describe("Secret the events are signed with"),
                     originalEmailId: z.string().optional().describe("Original email ID for automatic replies"),
                     senderEmail: z.string().optional().describe("Email address that triggered the agent"),
                     emailSubject: z.string().optional().describe("Subject of the triggering email"),
                 },
                 async ({ prompt, repository, ref, model, autoCreatePr, webhookUrl, webhookSecret, originalEmailId, senderEmail, emailSubject }) => {
+                    const scopeError = checkToolScope("create_cursor_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
+                        if (webhookUrl) {
+                            const webhookError = validateWebhookEndpoint({ url: webhookUrl, secret: webhookSecret });
+                            if (webhookError) {
+                                return {
+                                    content: [{
+                                        type: "text",
+                                        text: `❌ ${webhookError}`
+                                    }],
+                                };
+                            }
+                        }
+
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
                             return {
@@ -149,7 +202,7 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                             };
                         }
 
-                        const agentRequest: CursorAgentRequest = {
+                        const agentRequest: CursorAgentLaunchRequest = {
                             prompt: { text: prompt },
                             source: {
                                 repository,
@@ -168,89 +221,68 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                             };
                         }
 
-                        // Add webhook configuration if provided
-                        if (webhookUrl) {
-                            agentRequest.webhook = {
-                                url: webhookUrl,
-                                secret: webhookSecret
-                            };
-                        }
+                        // Cursor reports back to us like it does for email launches - the run then
+                        // notifies webhookUrl, so it only ever gets our own events
+                        const callback = createCursorCallback("mcp");
+                        agentRequest.webhook = callback;
 
-                        const response = await fetch('https://api.cursor.com/v0/agents', {
-                            method: 'POST',
-                            headers: {
-                                'Authorization': `Bearer ${apiKey}`,
-                                'Content-Type': 'application/json'
-                            },
-                            body: JSON.stringify(agentRequest)
-                        });
+                        const launch = await launchCursorAgent(apiKey, agentRequest);
 
-                        if (!response.ok) {
-                            const errorText = await response.text();
+                        if (!launch.ok || !launch.agentId) {
                             return {
                                 content: [{
                                     type: "text",
-                                    text: `❌ Failed to create Cursor agent: ${response.status} ${errorText}`
+                                    text: `❌ Failed to create Cursor agent: ${launch.error || 'Cursor returned no agent ID'}`
                                 }],
                             };
                         }
 
-                        const result = await response.json();
+                        const agentId = launch.agentId;
+
+                        // The run is what status polling and webhook notifications follow
+                        const run = await createAgentRun({
+                            userId: session.userId,
+                            source: 'mcp',
+                            inboundEmailId: originalEmailId || null,
+                            cursorAgentId: agentId,
+                            senderEmail: senderEmail || '',
+                            emailSubject: emailSubject || `MCP Agent: ${prompt.substring(0, 50)}...`,
+                            repository,
+                            cursorWebhookSecret: callback.secret
+                        }, 'running', 'manual', { message: 'Launched over MCP', event: null });
 
                         // Register webhook monitoring if webhook URL is provided
                         let webhookStatus = '';
                         if (webhookUrl) {
                             try {
-                                const { nanoid } = await import('nanoid');
-                                
-                                // Create a temporary email agent record for webhook tracking
-                                // This allows the existing webhook monitoring system to work
-                                const tempAgentId = nanoid();
-                                await db.insert(emailAgent).values({
-                                    id: tempAgentId,
-                                    userId: session.userId,
-                                    name: `mcp-agent-${result.id.substring(0, 8)}`,
-                                    githubRepository: repository,
-                                    githubRef: ref || 'main',
-                                    cursorApiKey: null, // Uses user's default
-                                    webhookUrl: webhookUrl,
-                                    webhookSecret: webhookSecret,
-                                    isActive: false, // Not a real email agent
-                                    allowedDomains: null,
-                                    allowedEmails: null,
-                                    inboundEndpointId: null,
-                                    inboundEmailAddressId: null,
-                                    emailAddress: null,
-                                    createdAt: new Date(),
-                                    updatedAt: new Date()
-                                });
+                                if (!run) {
+                                    throw new Error('No agent run to notify about');
+                                }
 
-                                // Create agent launch log entry for tracking
-                                const logId = nanoid();
-                                await db.insert(agentLaunchLog).values({
-                                    id: logId,
-                                    emailAgentId: tempAgentId,
-                                    userId: session.userId,
-                                    senderEmail: senderEmail || '',
-                                    emailSubject: emailSubject || `MCP Agent: ${prompt.substring(0, 50)}...`,
-                                    cursorAgentId: result.id,
-                                    status: 'success', // Agent created successfully
-                                    createdAt: new Date()
+                                await upsertWebhookEndpoint(session.userId, { runId: run.id }, {
+                                    url: webhookUrl,
+                                    secret: webhookSecret || null
                                 });
 
                                 webhookStatus = '\n🔔 Webhook monitoring registered - you\'ll receive notifications when the agent completes.';
-                                console.log(`Webhook monitoring registered for agent ${result.id} with URL: ${webhookUrl}`);
+                                console.log(`Webhook monitoring registered for agent ${agentId} with URL: ${webhookUrl}`);
                             } catch (error) {
                                 console.error('Failed to register webhook monitoring:', error);
                                 webhookStatus = '\n⚠️ Agent created but webhook registration failed - you may not receive completion notifications.';
                             }
                         }
 
+                        // Sent once the endpoint exists, so it hears about the launch too
+                        if (run) {
+                            await emitRunEvent(run, 'agent.created');
+                        }
+
                         return {
                             content: [{
                                 type: "text",
                                 text: `✅ Background agent created successfully!\n\n` +
-                                    `🤖 Agent ID: ${result.id}\n` +
+                                    `🤖 Agent ID: ${agentId}\n` +
+                                    (run ? `🧾 Run ID: ${run.id}\n` : '') +
                                     `📁 Repository: ${repository}\n` +
                                     `🌿 Branch: ${ref}\n` +
                                     `🧠 Model: ${model || 'default'}\n` +
@@ -260,7 +292,7 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                                     `\n⚠️ The agent is now working asynchronously in the background. It will analyze your repository and implement the requested changes. ` +
                                     `${autoCreatePr ? 'A Pull Request will be automatically created when the work is complete.' : 'You will need to manually create a PR from the generated branch.'}` +
                                     webhookStatus + 
-                                    `\n\nUse 'get_cursor_agent' with ID '${result.id}' to check progress.`
+                                    `\n\nUse 'get_cursor_agent' with ID '${agentId}' to check progress.`
                             }],
                         };
                     } catch (error) {
@@ -282,6 +314,11 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     limit: z.number().optional().default(20).describe("Maximum number of agents to return (1-100)"),
                 },
                 async ({ status, limit }) => {
+                    const scopeError = checkToolScope("list_cursor_agents");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
@@ -310,7 +347,7 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                             };
                         }
 
-                        const data: CursorAgentListResponse = await response.json();
+                        const data: CursorAgentPage = await response.json();
                         const agents: CursorAgent[] = data.agents || [];
 
                         // Filter by status if specified
@@ -367,6 +404,11 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     agentId: z.string().describe("The ID of the agent to query"),
                 },
                 async ({ agentId }) => {
+                    const scopeError = checkToolScope("get_cursor_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
@@ -455,6 +497,11 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     confirm: z.boolean().describe("Confirmation that you want to delete the agent (must be true)"),
                 },
                 async ({ agentId, confirm }) => {
+                    const scopeError = checkToolScope("delete_cursor_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     if (!confirm) {
                         return {
                             content: [{
@@ -500,6 +547,8 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                             };
                         }
 
+                        await transitionCursorAgentRuns(agentId, 'cancelled', 'manual', { message: 'Agent deleted over MCP' });
+
                         return {
                             content: [{
                                 type: "text",
@@ -524,6 +573,11 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     agentId: z.string().describe("The ID of the agent to get conversation history for"),
                 },
                 async ({ agentId }) => {
+                    const scopeError = checkToolScope("get_agent_conversation");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
@@ -602,6 +656,11 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     followupText: z.string().describe("Additional instructions or modifications for the agent"),
                 },
                 async ({ agentId, followupText }) => {
+                    const scopeError = checkToolScope("add_agent_followup");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
@@ -613,21 +672,10 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                             };
                         }
 
-                        const response = await fetch(`https://api.cursor.com/v0/agents/${agentId}/followup`, {
-                            method: 'POST',
-                            headers: {
-                                'Authorization': `Bearer ${apiKey}`,
-                                'Content-Type': 'application/json'
-                            },
-                            body: JSON.stringify({
-                                prompt: {
-                                    text: followupText
-                                }
-                            })
-                        });
+                        const result = await addCursorAgentFollowup(apiKey, agentId, followupText);
 
-                        if (!response.ok) {
-                            if (response.status === 404) {
+                        if (!result.ok) {
+                            if (result.status === 404) {
                                 return {
                                     content: [{
                                         type: "text",
@@ -635,7 +683,7 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                                     }],
                                 };
                             }
-                            if (response.status === 409) {
+                            if (result.status === 409) {
                                 return {
                                     content: [{
                                         type: "text",
@@ -646,17 +694,15 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                             return {
                                 content: [{
                                     type: "text",
-                                    text: `❌ Failed to send follow-up: ${response.status} ${response.statusText}`
+                                    text: `❌ Failed to send follow-up: ${result.error}`
                                 }],
                             };
                         }
 
-                        const result = await response.json();
-
                         return {
                             content: [{
                                 type: "text",
-                                text: `✅ Follow-up instructions sent successfully to agent '${result.id}'!\n\n📝 **Instructions:** ${followupText}\n\n⏳ The agent will incorporate these additional instructions into its current work.`
+                                text: `✅ Follow-up instructions sent successfully to agent '${result.agentId}'!\n\n📝 **Instructions:** ${followupText}\n\n⏳ The agent will incorporate these additional instructions into its current work.`
                             }],
                         };
                     } catch (error) {
@@ -670,11 +716,116 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                 },
             );
 
+            server.tool(
+                "wait_for_agent",
+                "Wait for a Cursor background agent to finish instead of polling 'get_cursor_agent'. Blocks until the agent is done or the timeout passes, sending a progress notification whenever its status changes, and returns the summary, PR and branch",
+                {
+                    agentId: z.string().describe("The ID of the agent to wait for"),
+                    timeoutSeconds: z.number().optional().default(MAX_WAIT_SECONDS).describe(`How long to wait at most, up to ${MAX_WAIT_SECONDS} seconds - call again to keep waiting`),
+                },
+                async ({ agentId, timeoutSeconds }, extra) => {
+                    const scopeError = checkToolScope("wait_for_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const apiKey = await getCursorApiKey(session.userId);
+                        if (!apiKey) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: "❌ No Cursor API key found. Please configure a Cursor API key in your account settings."
+                                }],
+                            };
+                        }
+
+                        const timeout = Math.min(Math.max(timeoutSeconds || MAX_WAIT_SECONDS, 1), MAX_WAIT_SECONDS);
+                        const progressToken = extra._meta?.progressToken;
+                        let lastStatus: string | null = null;
+
+                        const { agent, timedOut } = await waitForCursorAgent(apiKey, agentId, {
+                            timeoutMs: timeout * 1000,
+                            signal: extra.signal,
+                            onPoll: async (polledAgent, elapsedMs) => {
+                                // Only clients that asked for progress get it, and only when the status changed
+                                if (progressToken === undefined || polledAgent.status === lastStatus) {
+                                    return;
+                                }
+                                lastStatus = polledAgent.status;
+                                await extra.sendNotification({
+                                    method: "notifications/progress",
+                                    params: {
+                                        progressToken,
+                                        progress: Math.floor(elapsedMs / 1000),
+                                        total: timeout,
+                                        message: `Agent is now ${polledAgent.status}`
+                                    }
+                                });
+                            }
+                        });
+
+                        if (!agent) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ Agent '${agentId}' not found. It may have been deleted or you may not have access to it.`
+                                }],
+                            };
+                        }
+
+                        const run = await getLatestRunForCursorAgent(agent.id);
+                        const runLine = run && run.userId === session.userId
+                            ? `\n🧾 Run: ${getRunResourceUri(run.id)} (subscribe to follow it)`
+                            : '';
+
+                        if (timedOut) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `⏳ Agent '${agent.id}' is still ${agent.status} after ${timeout} seconds.\n` +
+                                        `🌿 Branch: ${agent.target.branchName || 'None yet'}` +
+                                        runLine +
+                                        `\n\nCall 'wait_for_agent' again to keep waiting.`
+                                }],
+                            };
+                        }
+
+                        const statusIcon = agent.status === 'FINISHED' ? '✅' :
+                            agent.status === 'ERROR' ? '❌' : '⌛';
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `${statusIcon} Agent '${agent.id}' ${agent.status === 'FINISHED' ? 'finished' : agent.status === 'ERROR' ? 'failed' : 'expired'}.\n\n` +
+                                    `📁 Repository: ${agent.source.repository}\n` +
+                                    `🌿 Branch: ${agent.target.branchName || 'None'}\n` +
+                                    `🔗 PR: ${agent.target.prUrl || 'None'}` +
+                                    runLine +
+                                    (agent.summary ? `\n\n📋 **Summary:**\n${agent.summary}` : '')
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error waiting for agent: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
             server.tool(
                 "get_api_key_info",
                 "Get information about your Cursor API key including creation date and associated email",
                 {},
                 async () => {
+                    const scopeError = checkToolScope("get_api_key_info");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
@@ -731,6 +882,11 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                 "Get a list of AI models available for background agents",
                 {},
                 async () => {
+                    const scopeError = checkToolScope("list_available_models");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
@@ -787,6 +943,11 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                 "Get a list of GitHub repositories you have access to for background agents",
                 {},
                 async () => {
+                    const scopeError = checkToolScope("list_github_repositories");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
                     try {
                         const apiKey = await getCursorApiKey(session.userId);
                         if (!apiKey) {
@@ -846,6 +1007,535 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     }
                 },
             );
+
+            server.tool(
+                "launch_agent_batch",
+                "⚠️ CREATES BACKGROUND AGENTS: Split work across several agents on one repository. Every task declares the paths it may change - overlapping paths are rejected - and runs on its own branch. Returns a batch ID; one webhook notification goes out when the whole batch is done",
+                {
+                    name: z.string().optional().describe("Name of the batch"),
+                    repository: z.string().describe("GitHub repository URL (e.g., 'https://github.com/user/repo')"),
+                    ref: z.string().optional().default("main").describe("Git branch/ref every task works from"),
+                    model: z.string().optional().describe("AI model the agents use"),
+                    autoCreatePr: z.boolean().optional().default(true).describe("Whether each agent automatically creates a PR when complete"),
+                    tasks: z.array(z.object({
+                        name: z.string().optional().describe("Short name of the task"),
+                        prompt: z.string().describe("Detailed instructions for this task"),
+                        paths: z.array(z.string()).min(1).describe("Directories or files the task may change (e.g., 'src/api', 'docs/setup.md') - '.' for the whole repository"),
+                        branchName: z.string().optional().describe("Branch for the task - generated when not given"),
+                    })).min(1).max(MAX_BATCH_TASKS).describe(`The tasks, at most ${MAX_BATCH_TASKS}, with non-overlapping paths`),
+                    webhookUrl: z.string().optional().describe("Webhook URL that gets one batch.completed event when every agent is done"),
+                    webhookSecret: z.string().optional().describe("Secret for webhook signature verification"),
+                },
+                async (input) => {
+                    const scopeError = checkToolScope("launch_agent_batch");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const validationError = validateAgentBatchInput(input);
+                        if (validationError) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ ${validationError}`
+                                }],
+                            };
+                        }
+
+                        const apiKey = await getCursorApiKey(session.userId);
+                        if (!apiKey) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: "❌ No Cursor API key found. Please configure a Cursor API key in your account settings or email agents."
+                                }],
+                            };
+                        }
+
+                        const report = await launchAgentBatch(session.userId, 'mcp', apiKey, input);
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `🚀 Launched ${report.counts.total - report.counts.failed} of ${report.counts.total} agents.\n\n` +
+                                    formatAgentBatch(report) +
+                                    (input.webhookUrl ? `\n\n🔔 ${input.webhookUrl} is notified once every agent is done.` : '') +
+                                    `\n\nUse 'get_agent_batch' with ID '${report.batch.id}' to check progress.`
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error launching agent batch: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            server.tool(
+                "get_agent_batch",
+                "Get the aggregated status of an agent batch and the status, branch and PR of each of its agents",
+                {
+                    batchId: z.string().describe("The ID of the batch"),
+                },
+                async ({ batchId }) => {
+                    const scopeError = checkToolScope("get_agent_batch");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const report = await getAgentBatchReport(session.userId, batchId);
+                        if (!report) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ Agent batch '${batchId}' not found.`
+                                }],
+                            };
+                        }
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: formatAgentBatch(report)
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error fetching agent batch: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            server.tool(
+                "list_email_agents",
+                "List your email agents - the inboxes that turn emails into Cursor background agents",
+                {},
+                async () => {
+                    const scopeError = checkToolScope("list_email_agents");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const agents = await listEmailAgents(session.userId);
+
+                        if (agents.length === 0) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: "📭 No email agents yet. Use 'create_email_agent' to set one up."
+                                }],
+                            };
+                        }
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `📬 **Email Agents** (${agents.length} total):\n\n${agents.map(formatEmailAgent).join('\n\n')}`
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error fetching email agents: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            server.tool(
+                "create_email_agent",
+                "Create an email agent: provisions a new email address whose emails launch Cursor background agents on the given repository",
+                {
+                    name: z.string().describe("Agent name, used as the email address (letters, numbers, hyphens and underscores)"),
+                    githubRepository: z.string().describe("GitHub repository URL (e.g., 'https://github.com/user/repo')"),
+                    cursorApiKey: z.string().optional().describe("Cursor API key for this agent - defaults to your account's default key"),
+                    allowedDomains: z.array(z.string()).optional().describe("Sender domains allowed to launch agents (e.g., 'company.com', '*.company.com')"),
+                    allowedEmails: z.array(z.string()).optional().describe("Sender addresses allowed to launch agents"),
+                    ...emailAgentSettingsSchema,
+                },
+                async (input) => {
+                    const scopeError = checkToolScope("create_email_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const validationError = validateEmailAgentInput(input);
+                        if (validationError) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ ${validationError}`
+                                }],
+                            };
+                        }
+
+                        const cursorApiKey = await resolveNewAgentCursorApiKey(session.userId, input.cursorApiKey);
+                        if (!cursorApiKey) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: "❌ Cursor API key is required. Please provide one or set a default in your account settings."
+                                }],
+                            };
+                        }
+
+                        const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BETTER_AUTH_URL || new URL(req.url).origin;
+                        const agent = await provisionEmailAgent(session.userId, input, cursorApiKey, baseUrl);
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `✅ Email agent created!\n\n${formatEmailAgent(agent)}\n\n` +
+                                    `📧 Emails sent to ${agent.emailAddress} now launch background agents on ${agent.githubRepository}.` +
+                                    (input.allowedDomains?.length || input.allowedEmails?.length ? '' : '\n⚠️ No sender rules yet - add allowed senders in the dashboard before sharing the address.')
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error creating email agent: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            server.tool(
+                "update_email_agent",
+                "Change the settings of an email agent. Only the fields given are updated",
+                {
+                    emailAgentId: z.string().describe("The ID of the email agent to update"),
+                    githubRepository: z.string().optional().describe("GitHub repository URL (e.g., 'https://github.com/user/repo')"),
+                    cursorApiKey: z.string().optional().describe("New Cursor API key for this agent"),
+                    ...emailAgentSettingsSchema,
+                },
+                async ({ emailAgentId, ...input }) => {
+                    const scopeError = checkToolScope("update_email_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const agent = await getUserEmailAgent(session.userId, emailAgentId);
+                        if (!agent) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ Email agent '${emailAgentId}' not found.`
+                                }],
+                            };
+                        }
+
+                        const validationError = validateEmailAgentInput(input, true, agent);
+                        if (validationError) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ ${validationError}`
+                                }],
+                            };
+                        }
+
+                        const updatedAgent = await updateEmailAgentSettings(agent, input);
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `✅ Email agent updated!\n\n${formatEmailAgent(updatedAgent)}`
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error updating email agent: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            server.tool(
+                "pause_email_agent",
+                "Pause an email agent so its emails no longer launch agents, or resume it",
+                {
+                    emailAgentId: z.string().describe("The ID of the email agent to pause or resume"),
+                    paused: z.boolean().optional().default(true).describe("true to pause, false to resume"),
+                },
+                async ({ emailAgentId, paused }) => {
+                    const scopeError = checkToolScope("pause_email_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const agent = await getUserEmailAgent(session.userId, emailAgentId);
+                        if (!agent) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ Email agent '${emailAgentId}' not found.`
+                                }],
+                            };
+                        }
+
+                        await updateEmailAgentSettings(agent, { isActive: !paused });
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: paused
+                                    ? `⏸️ Email agent **${agent.name}** paused - emails to ${agent.emailAddress} won't launch agents until it's resumed.`
+                                    : `▶️ Email agent **${agent.name}** resumed - emails to ${agent.emailAddress} launch agents again.`
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error pausing email agent: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            server.tool(
+                "delete_email_agent",
+                "⚠️ DESTRUCTIVE: Permanently delete an email agent and its email address. Emails sent to it afterwards are lost",
+                {
+                    emailAgentId: z.string().describe("The ID of the email agent to delete"),
+                },
+                async ({ emailAgentId }) => {
+                    const scopeError = checkToolScope("delete_email_agent");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const agent = await getUserEmailAgent(session.userId, emailAgentId);
+                        if (!agent) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ Email agent '${emailAgentId}' not found.`
+                                }],
+                            };
+                        }
+
+                        await removeEmailAgent(agent);
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `🗑️ Email agent **${agent.name}** deleted${agent.emailAddress ? ` - ${agent.emailAddress} no longer receives emails` : ''}.`
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error deleting email agent: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            server.tool(
+                "get_email_agent_logs",
+                "Get the recent launch logs of an email agent: who emailed it, whether an agent was launched and what became of it",
+                {
+                    emailAgentId: z.string().describe("The ID of the email agent"),
+                    limit: z.number().optional().default(20).describe("Maximum number of logs to return (1-100)"),
+                },
+                async ({ emailAgentId, limit }) => {
+                    const scopeError = checkToolScope("get_email_agent_logs");
+                    if (scopeError) {
+                        return scopeError;
+                    }
+
+                    try {
+                        const agent = await getUserEmailAgent(session.userId, emailAgentId);
+                        if (!agent) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `❌ Email agent '${emailAgentId}' not found.`
+                                }],
+                            };
+                        }
+
+                        const logs = await getAgentLaunchLogs(session.userId, {
+                            emailAgentId,
+                            limit: Math.min(Math.max(limit || 20, 1), 100)
+                        });
+
+                        if (logs.length === 0) {
+                            return {
+                                content: [{
+                                    type: "text",
+                                    text: `📭 No emails have reached **${agent.name}** yet.`
+                                }],
+                            };
+                        }
+
+                        const logList = logs.map(log => {
+                            const statusIcon = log.status === 'success' ? '✅' :
+                                log.status === 'followup' ? '↩️' :
+                                log.status === 'launching' ? '⏳' :
+                                    log.status === 'rejected' ? '🚫' : '❌';
+
+                            return `${statusIcon} **${log.emailSubject}**\n` +
+                                `   From: ${log.senderEmail}\n` +
+                                `   Received: ${new Date(log.createdAt).toLocaleString()}\n` +
+                                `   Launch: ${log.status}` +
+                                (log.errorMessage ? `\n   Reason: ${log.errorMessage}` : '') +
+                                (log.cursorAgentId ? `\n   🤖 Agent: ${log.cursorAgentId}` : '') +
+                                (log.runStatus ? `\n   Run: ${log.runStatus}${log.runStatusMessage ? ` - ${log.runStatusMessage}` : ''}` : '') +
+                                (log.prUrl ? `\n   🔗 PR: ${log.prUrl}` : '');
+                        }).join('\n\n');
+
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `📜 **Launch Logs for ${agent.name}** (${logs.length} most recent):\n\n${logList}`
+                            }],
+                        };
+                    } catch (error) {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: `❌ Error fetching email agent logs: ${error instanceof Error ? error.message : 'Unknown error'}`
+                            }],
+                        };
+                    }
+                },
+            );
+
+            // Every run is a resource clients can read and subscribe to, to hear when its status changes
+            const runResourceTemplate = new ResourceTemplate(getRunResourceUri("{runId}"), {
+                list: async () => {
+                    checkResourceScope("Listing agent runs");
+
+                    const runs = await db.select({ id: agentRun.id, emailSubject: agentRun.emailSubject, status: agentRun.status })
+                        .from(agentRun)
+                        .where(eq(agentRun.userId, session.userId))
+                        .orderBy(desc(agentRun.createdAt))
+                        .limit(20);
+
+                    return {
+                        resources: runs.map(run => ({
+                            uri: getRunResourceUri(run.id),
+                            name: `${run.emailSubject || run.id} (${run.status})`,
+                            mimeType: "application/json",
+                        })),
+                    };
+                },
+            });
+
+            server.resource(
+                "agent-run",
+                runResourceTemplate,
+                {
+                    description: "An agent run with its status history. Subscribe to be notified when its status changes",
+                    mimeType: "application/json",
+                },
+                async (uri, { runId }) => {
+                    checkResourceScope("Reading agent runs");
+
+                    const [run] = await db.select()
+                        .from(agentRun)
+                        .where(and(
+                            eq(agentRun.id, String(runId)),
+                            eq(agentRun.userId, session.userId)
+                        ))
+                        .limit(1);
+
+                    if (!run) {
+                        throw new McpError(ErrorCode.InvalidParams, `Agent run '${runId}' not found`);
+                    }
+
+                    const events = await getAgentRunEvents(run.id);
+
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            mimeType: "application/json",
+                            text: JSON.stringify({ run, events }, null, 2),
+                        }],
+                    };
+                },
+            );
+
+            // Changes are announced by transitionAgentRun wherever they happen (lib/run-notifications.ts),
+            // but reach this client only while its connection is open - at most MCP_MAX_DURATION_SECONDS
+            const runSubscriptions = new Map<string, () => void>();
+
+            const endRunSubscriptions = () => {
+                for (const unsubscribe of runSubscriptions.values()) {
+                    unsubscribe();
+                }
+                runSubscriptions.clear();
+            };
+            setTimeout(endRunSubscriptions, MCP_MAX_DURATION_SECONDS * 1000);
+
+            server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+                checkResourceScope("Subscribing to agent runs");
+
+                const uri = request.params.uri;
+                const runId = parseRunResourceUri(uri);
+                const [run] = runId
+                    ? await db.select({ id: agentRun.id })
+                        .from(agentRun)
+                        .where(and(
+                            eq(agentRun.id, runId),
+                            eq(agentRun.userId, session.userId)
+                        ))
+                        .limit(1)
+                    : [];
+
+                if (!run) {
+                    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+                }
+
+                if (!runSubscriptions.has(run.id)) {
+                    const unsubscribe = await subscribeToRun(run.id, async () => {
+                        try {
+                            await server.server.sendResourceUpdated({ uri });
+                        } catch (error) {
+                            // The client went away - nobody is left to hear about any run
+                            console.warn(`⚠️ Ending agent run subscriptions of a closed MCP connection:`, error);
+                            endRunSubscriptions();
+                        }
+                    });
+                    runSubscriptions.set(run.id, unsubscribe);
+                }
+                return {};
+            });
+
+            server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+                const runId = parseRunResourceUri(request.params.uri);
+                if (runId) {
+                    runSubscriptions.get(runId)?.();
+                    runSubscriptions.delete(runId);
+                }
+                return {};
+            });
         },
         {
             capabilities: {
@@ -868,6 +1558,9 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     add_agent_followup: {
                         description: "Send additional instructions to a running agent to modify its task",
                     },
+                    wait_for_agent: {
+                        description: "Wait for an agent to finish with progress notifications, returning its summary, PR and branch",
+                    },
                     get_api_key_info: {
                         description: "Get information about your Cursor API key",
                     },
@@ -877,13 +1570,40 @@ const handler = withMcpAuth(auth, async (req: Request) => {
                     list_github_repositories: {
                         description: "List GitHub repositories you have access to",
                     },
+                    launch_agent_batch: {
+                        description: "Launch several agents with non-overlapping path scopes, each on its own branch",
+                    },
+                    get_agent_batch: {
+                        description: "Get the aggregated status of an agent batch",
+                    },
+                    list_email_agents: {
+                        description: "List your email agents and their addresses",
+                    },
+                    create_email_agent: {
+                        description: "Create an email agent with a new email address that launches background agents",
+                    },
+                    update_email_agent: {
+                        description: "Change the settings of an email agent",
+                    },
+                    pause_email_agent: {
+                        description: "Pause or resume an email agent",
+                    },
+                    delete_email_agent: {
+                        description: "⚠️ DESTRUCTIVE: Delete an email agent and its email address permanently",
+                    },
+                    get_email_agent_logs: {
+                        description: "View the recent launch logs of an email agent",
+                    },
+                },
+                resources: {
+                    subscribe: true,
                 },
             },
         },
         {
             basePath: "/api",
             verboseLogs: true,
-            maxDuration: 60,
+            maxDuration: MCP_MAX_DURATION_SECONDS,
             redisUrl: process.env.REDIS_URL || "",
         },
     )(req);
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { getAgentBatchReport, toPublicAgentBatchReport } from '@/lib/agent-batches'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET - Get a batch with the aggregated status of its runs
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await getAgentBatchReport(session.user.id, id);
+    if (!report) {
+      return NextResponse.json({ error: 'Agent batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ batch: toPublicAgentBatchReport(report) });
+  } catch (error) {
+    console.error('Error fetching agent batch:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
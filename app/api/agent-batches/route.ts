@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { emailAgent, user } from '@/lib/schema'
+import { eq } from 'drizzle-orm'
+import { decryptSecret } from '@/lib/secrets'
+import {
+  validateAgentBatchInput,
+  launchAgentBatch,
+  listAgentBatches,
+  toPublicAgentBatchReport
+} from '@/lib/agent-batches'
+
+// GET - List the current user's recent agent batches
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '20');
+
+    const batches = await listAgentBatches(session.user.id, limit);
+
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Error fetching agent batches:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Launch several agents with non-overlapping path scopes, each on its own branch
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    const validationError = validateAgentBatchInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // The account default key, or else any email agent's
+    const [userResult, agents] = await Promise.all([
+      db.select({ defaultCursorApiKey: user.defaultCursorApiKey })
+        .from(user)
+        .where(eq(user.id, session.user.id)),
+      db.select({ cursorApiKey: emailAgent.cursorApiKey })
+        .from(emailAgent)
+        .where(eq(emailAgent.userId, session.user.id))
+    ]);
+
+    const apiKey = decryptSecret(userResult[0]?.defaultCursorApiKey || agents.find(agent => agent.cursorApiKey)?.cursorApiKey);
+    if (!apiKey) {
+      return NextResponse.json({
+        error: 'No Cursor API key found. Please configure your API key in settings.'
+      }, { status: 400 });
+    }
+
+    const report = await launchAgentBatch(session.user.id, 'api', apiKey, body);
+
+    return NextResponse.json({
+      success: true,
+      batch: toPublicAgentBatchReport(report)
+    });
+  } catch (error) {
+    console.error('Error launching agent batch:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { agentRun } from '@/lib/schema'
+import { eq, and } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import { getAgentRunEvents } from '@/lib/agent-runs'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET - Get an agent run with its status history
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [run] = await db
+      .select()
+      .from(agentRun)
+      .where(and(
+        eq(agentRun.id, id),
+        eq(agentRun.userId, session.user.id)
+      ))
+      .limit(1);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Agent run not found' },
+        { status: 404 }
+      );
+    }
+
+    const events = await getAgentRunEvents(run.id);
+
+    return NextResponse.json({
+      run,
+      events: events.map(event => ({
+        fromStatus: event.fromStatus,
+        toStatus: event.toStatus,
+        source: event.source,
+        message: event.message,
+        createdAt: event.createdAt
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching agent run:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
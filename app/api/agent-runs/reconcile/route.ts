@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reconcileAgentRuns } from '@/lib/reconciler'
+
+// GET - Sync running agents with Cursor and send their completion webhooks (meant to be called by a cron)
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await reconcileAgentRuns();
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error reconciling agent runs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
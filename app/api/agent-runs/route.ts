@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { agentRun, emailAgent } from '@/lib/schema'
+import { eq, and, desc } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import { AGENT_RUN_STATUSES, RUN_LAUNCH_SOURCES, type AgentRunStatus, type RunLaunchSource } from '@/lib/agent-runs'
+
+// GET - Get agent runs for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '50');
+    const status = url.searchParams.get('status');
+    const emailAgentId = url.searchParams.get('emailAgentId');
+    const source = url.searchParams.get('source');
+
+    if (status && !(AGENT_RUN_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Available: ${AGENT_RUN_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (source && !(RUN_LAUNCH_SOURCES as readonly string[]).includes(source)) {
+      return NextResponse.json(
+        { error: `Invalid source. Available: ${RUN_LAUNCH_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const runs = await db
+      .select({
+        id: agentRun.id,
+        emailAgentId: agentRun.emailAgentId,
+        source: agentRun.source,
+        inboundEmailId: agentRun.inboundEmailId,
+        launchLogId: agentRun.launchLogId,
+        cursorAgentId: agentRun.cursorAgentId,
+        senderEmail: agentRun.senderEmail,
+        emailSubject: agentRun.emailSubject,
+        status: agentRun.status,
+        statusMessage: agentRun.statusMessage,
+        repository: agentRun.repository,
+        branchName: agentRun.branchName,
+        prUrl: agentRun.prUrl,
+        createdAt: agentRun.createdAt,
+        updatedAt: agentRun.updatedAt,
+        finishedAt: agentRun.finishedAt,
+        agentName: emailAgent.name,
+      })
+      .from(agentRun)
+      .leftJoin(emailAgent, eq(agentRun.emailAgentId, emailAgent.id))
+      .where(and(
+        eq(agentRun.userId, session.user.id),
+        status ? eq(agentRun.status, status as AgentRunStatus) : undefined,
+        emailAgentId ? eq(agentRun.emailAgentId, emailAgentId) : undefined,
+        source ? eq(agentRun.source, source as RunLaunchSource) : undefined
+      ))
+      .orderBy(desc(agentRun.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Error fetching agent runs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import type { InboundWebhookPayload } from '@inboundemail/sdk'
+import { db } from '@/lib/db'
+import { emailAgent } from '@/lib/schema'
+import { eq } from 'drizzle-orm'
+import { processInboundJobs } from '@/lib/job-queue'
+import { decideApproval, getJobByApprovalToken, type ApprovalDecision } from '@/lib/approvals'
+import { escapeHtml } from '@/lib/utils'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+// The link from the approval email is the owner's credential, so these pages don't need a session
+function htmlPage(title: string, content: string, status: number = 200) {
+  return new NextResponse(`<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 40px auto; padding: 0 16px;">
+    <h2>${escapeHtml(title)}</h2>
+    ${content}
+  </body>
+</html>`, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
+
+const STATUS_MESSAGES: Record<string, string> = {
+  pending: 'This request was approved and the agent is being launched.',
+  processing: 'This request was approved and the agent is being launched.',
+  completed: 'This request was approved and has been processed.',
+  dead_letter: 'This request was approved, but launching the agent failed. You can retry it from the dashboard.',
+  rejected: 'This request was rejected.',
+  expired: 'This request expired before it was approved.',
+};
+
+// GET - Review page for an approval request (links are opened by mail scanners too, so nothing changes here)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    const job = await getJobByApprovalToken(token);
+
+    if (!job) {
+      return htmlPage('Request not found', '<p>This approval link is invalid.</p>', 404);
+    }
+
+    if (job.status !== 'pending_approval' || !job.approvalExpiresAt || job.approvalExpiresAt <= new Date()) {
+      return htmlPage('Approval request', `<p>${escapeHtml(STATUS_MESSAGES[job.status] || 'This request is no longer waiting for approval.')}</p>`);
+    }
+
+    const [agent] = await db
+      .select({ name: emailAgent.name, githubRepository: emailAgent.githubRepository })
+      .from(emailAgent)
+      .where(eq(emailAgent.id, job.emailAgentId))
+      .limit(1);
+
+    const payload: InboundWebhookPayload = JSON.parse(job.payload);
+    const body = (payload.email.cleanedContent.text || '').slice(0, 5000);
+
+    return htmlPage(`Approve launch for ${agent?.name || 'email agent'}?`, `
+      <p>
+        <strong>From:</strong> ${escapeHtml(job.senderEmail)}<br>
+        <strong>Subject:</strong> ${escapeHtml(job.emailSubject || 'No subject')}<br>
+        <strong>Repository:</strong> ${escapeHtml(agent?.githubRepository || 'Unknown')}
+      </p>
+      <pre style="white-space: pre-wrap; background-color: #f4f4f5; padding: 12px; border-radius: 4px;">${escapeHtml(body)}</pre>
+      <p>Expires ${escapeHtml(job.approvalExpiresAt.toUTCString())}</p>
+      <form method="POST" style="display: flex; gap: 8px;">
+        <button name="decision" value="approve" style="background-color: #16a34a; color: white; padding: 12px 24px; border: none; border-radius: 4px; cursor: pointer;">Approve</button>
+        <button name="decision" value="reject" style="background-color: #dc2626; color: white; padding: 12px 24px; border: none; border-radius: 4px; cursor: pointer;">Reject</button>
+      </form>
+    `);
+  } catch (error) {
+    console.error('Error loading approval request:', error);
+    return htmlPage('Something went wrong', '<p>Please try again later.</p>', 500);
+  }
+}
+
+// POST - Approve or reject from the review page
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    const formData = await request.formData();
+    const decision = formData.get('decision') as ApprovalDecision;
+
+    if (decision !== 'approve' && decision !== 'reject') {
+      return htmlPage('Invalid request', '<p>Choose approve or reject.</p>', 400);
+    }
+
+    const job = await getJobByApprovalToken(token);
+
+    if (!job) {
+      return htmlPage('Request not found', '<p>This approval link is invalid.</p>', 404);
+    }
+
+    const decided = await decideApproval(job, decision);
+
+    if (!decided) {
+      return htmlPage('Approval request', `<p>${escapeHtml(STATUS_MESSAGES[job.status] || 'This request is no longer waiting for approval.')}</p>`, 409);
+    }
+
+    if (decided.status === 'pending') {
+      after(async () => {
+        try {
+          await processInboundJobs();
+        } catch (error) {
+          console.error('Error processing inbound jobs:', error);
+        }
+      });
+    }
+
+    return htmlPage(
+      decision === 'approve' ? 'Launch approved' : 'Launch rejected',
+      `<p>${decision === 'approve' ? 'The agent is being launched. You\'ll find it in your dashboard.' : 'No agent will be launched for this email.'}</p>`
+    );
+  } catch (error) {
+    console.error('Error deciding approval request:', error);
+    return htmlPage('Something went wrong', '<p>Please try again later.</p>', 500);
+  }
+}
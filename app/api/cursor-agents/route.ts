@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { db } from '@/lib/db'
-import { emailAgent, user, agentLaunchLog } from '@/lib/schema'
+import { emailAgent, user, agentRun } from '@/lib/schema'
 import { eq, and } from 'drizzle-orm'
-import crypto from 'crypto'
+import { decryptSecret } from '@/lib/secrets'
+import { createAgentRun, transitionAgentRun, getCursorAgentRunUpdate, emitRunEvent } from '@/lib/agent-runs'
+import { upsertWebhookEndpoint } from '@/lib/webhook-endpoints'
 
 // Updated interface to match official API spec
 interface CursorAgent {
@@ -24,190 +26,6 @@ interface CursorAgent {
   createdAt: string;
 }
 
-// Webhook payload interface for agent completion notifications
-interface AgentWebhookPayload {
-  event: 'agent.completed' | 'agent.failed';
-  agent: {
-    id: string;
-    name: string;
-    status: CursorAgent['status'];
-    summary?: string;
-    createdAt: string;
-    finishedAt: string;
-    prUrl?: string;
-    error?: string;
-  };
-  metadata: {
-    emailAgentId?: string;
-    originalEmailId?: string;
-    senderEmail?: string;
-    emailSubject?: string;
-  };
-}
-
-// Interface for monitoring agent status changes
-interface AgentStatusTracker {
-  agentId: string;
-  lastStatus: CursorAgent['status'];
-  webhookUrl?: string;
-  webhookSecret?: string;
-  metadata?: {
-    emailAgentId?: string;
-    originalEmailId?: string;
-    senderEmail?: string;
-    emailSubject?: string;
-  };
-}
-
-// Utility function to send webhook notifications with retry logic
-async function sendWebhook(
-  webhookUrl: string,
-  payload: AgentWebhookPayload,
-  secret?: string,
-  maxRetries: number = 3
-): Promise<boolean> {
-  const backoffDelay = (attempt: number) => Math.min(1000 * Math.pow(2, attempt), 10000);
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Cursor-Background-Agent/1.0',
-        'X-Delivery-Attempt': (attempt + 1).toString(),
-      };
-
-      // Add signature if secret is provided
-      if (secret) {
-        const signature = crypto
-          .createHmac('sha256', secret)
-          .update(JSON.stringify(payload))
-          .digest('hex');
-        headers['X-Signature'] = `sha256=${signature}`;
-      }
-
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(payload),
-        // 15 second timeout
-        signal: AbortSignal.timeout(15000),
-      });
-
-      if (!response.ok) {
-        // Log error but don't throw for 4xx errors (client errors, likely permanent)
-        if (response.status >= 400 && response.status < 500) {
-          console.error(`Webhook failed with client error: ${response.status} ${response.statusText} - not retrying`);
-          return false;
-        }
-        
-        // Throw for 5xx errors to trigger retry
-        throw new Error(`Webhook failed: ${response.status} ${response.statusText}`);
-      }
-
-      console.log(`Webhook sent successfully to: ${webhookUrl} (attempt ${attempt + 1})`);
-      return true;
-      
-    } catch (error) {
-      const isLastAttempt = attempt === maxRetries - 1;
-      console.error(`Webhook attempt ${attempt + 1} failed:`, error);
-      
-      if (isLastAttempt) {
-        console.error(`All ${maxRetries} webhook attempts failed for: ${webhookUrl}`);
-        return false;
-      }
-      
-      // Wait before retry with exponential backoff
-      const delay = backoffDelay(attempt);
-      console.log(`Retrying webhook in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  return false;
-}
-
-// Utility function to check agent status and send webhooks for completed agents
-async function checkAndNotifyAgentCompletion(
-  apiKey: string,
-  trackedAgents: AgentStatusTracker[]
-): Promise<void> {
-  if (trackedAgents.length === 0) return;
-
-  try {
-    // Get current status of all tracked agents
-    const agentIds = trackedAgents.map(t => t.agentId);
-    const response = await fetch(`https://api.cursor.com/v0/agents?limit=100`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      console.error('Failed to fetch agent status for webhook check');
-      return;
-    }
-
-    const data = await response.json();
-    const currentAgents: CursorAgent[] = data.agents || [];
-
-    // Check each tracked agent for status changes
-    for (const tracker of trackedAgents) {
-      const currentAgent = currentAgents.find(a => a.id === tracker.agentId);
-      
-      if (!currentAgent) {
-        // Agent not found - might be expired or deleted
-        continue;
-      }
-
-      // Check if status changed from running to completed/failed
-      if (
-        (tracker.lastStatus === 'RUNNING' || tracker.lastStatus === 'CREATING') &&
-        (currentAgent.status === 'FINISHED' || currentAgent.status === 'ERROR')
-      ) {
-        // Agent completed - send webhook
-        if (tracker.webhookUrl) {
-          const event = currentAgent.status === 'FINISHED' ? 'agent.completed' : 'agent.failed';
-          const payload: AgentWebhookPayload = {
-            event,
-            agent: {
-              id: currentAgent.id,
-              name: currentAgent.name,
-              status: currentAgent.status,
-              summary: currentAgent.summary,
-              createdAt: currentAgent.createdAt,
-              finishedAt: new Date().toISOString(),
-              prUrl: currentAgent.target.prUrl,
-              error: currentAgent.status === 'ERROR' ? 'Agent execution failed' : undefined,
-            },
-            metadata: tracker.metadata || {},
-          };
-
-          await sendWebhook(tracker.webhookUrl, payload, tracker.webhookSecret);
-        }
-
-        // Update the agent launch log status
-        if (tracker.metadata?.emailAgentId) {
-          await db.update(agentLaunchLog)
-            .set({ 
-              status: currentAgent.status === 'FINISHED' ? 'success' : 'failed',
-              errorMessage: currentAgent.status === 'ERROR' ? 'Agent execution failed' : undefined
-            })
-            .where(
-              and(
-                eq(agentLaunchLog.cursorAgentId, tracker.agentId),
-                eq(agentLaunchLog.emailAgentId, tracker.metadata.emailAgentId)
-              )
-            );
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Error checking agent completion:', error);
-  }
-}
-
 // GET - Get active Cursor agents for the current user
 export async function GET(request: NextRequest) {
   try {
@@ -232,7 +50,7 @@ export async function GET(request: NextRequest) {
     // Try to get active agents from Cursor API using available API keys
     const userDefaultKey = userResult[0]?.defaultCursorApiKey;
     const agentApiKey = agents.find(agent => agent.cursorApiKey)?.cursorApiKey;
-    const apiKey = agentApiKey || userDefaultKey;
+    const apiKey = decryptSecret(agentApiKey || userDefaultKey);
     
     if (!apiKey) {
       return NextResponse.json({ activeAgents: [] });
@@ -309,46 +127,6 @@ export async function GET(request: NextRequest) {
       agent.status === 'CREATING'
     );
 
-    // Check for webhook notifications on agents that might have completed
-    // Get tracked agents from agent launch logs with webhook URLs
-    const trackedAgents = await db
-      .select({
-        agentId: agentLaunchLog.cursorAgentId,
-        emailAgentId: agentLaunchLog.emailAgentId,
-        webhookUrl: emailAgent.webhookUrl,
-        webhookSecret: emailAgent.webhookSecret,
-        senderEmail: agentLaunchLog.senderEmail,
-        emailSubject: agentLaunchLog.emailSubject,
-      })
-      .from(agentLaunchLog)
-      .innerJoin(emailAgent, eq(agentLaunchLog.emailAgentId, emailAgent.id))
-      .where(
-        and(
-          eq(agentLaunchLog.userId, session.user.id),
-          eq(agentLaunchLog.status, 'success'), // Only check running agents
-        )
-      );
-
-    // Build agent trackers for webhook notifications
-    const agentTrackers: AgentStatusTracker[] = trackedAgents
-      .filter(t => t.agentId && t.webhookUrl)
-      .map(t => ({
-        agentId: t.agentId!,
-        lastStatus: 'RUNNING' as CursorAgent['status'], // Assume running since status is 'success'
-        webhookUrl: t.webhookUrl!,
-        webhookSecret: t.webhookSecret || undefined,
-        metadata: {
-          emailAgentId: t.emailAgentId,
-          senderEmail: t.senderEmail,
-          emailSubject: t.emailSubject || undefined,
-        }
-      }));
-
-    // Check for completed agents and send webhooks
-    if (agentTrackers.length > 0) {
-      await checkAndNotifyAgentCompletion(apiKey, agentTrackers);
-    }
-
     return NextResponse.json({ activeAgents });
   } catch (error) {
     console.error('Error fetching cursor agents:', error);
@@ -409,7 +187,7 @@ export async function POST(request: NextRequest) {
 
     const userDefaultKey = userResult[0]?.defaultCursorApiKey;
     const agentApiKey = agents.find(agent => agent.cursorApiKey)?.cursorApiKey;
-    const apiKey = agentApiKey || userDefaultKey;
+    const apiKey = decryptSecret(agentApiKey || userDefaultKey);
     
     if (!apiKey) {
       return NextResponse.json({ 
@@ -441,7 +219,12 @@ export async function POST(request: NextRequest) {
       }, { status: 404 });
     }
 
-    // If emailAgentId is provided, update that agent's webhook settings
+    const endpointInput = {
+      url: webhookUrl,
+      ...(webhookSecret !== undefined ? { secret: webhookSecret } : {})
+    };
+
+    // With an email agent, notifications go to its endpoints, so make sure this URL is one of them
     if (emailAgentId) {
       const emailAgentResult = await db.select()
         .from(emailAgent)
@@ -452,79 +235,57 @@ export async function POST(request: NextRequest) {
           )
         );
 
-      if (emailAgentResult.length > 0) {
-        await db.update(emailAgent)
-          .set({ 
-            webhookUrl,
-            webhookSecret,
-            updatedAt: new Date()
-          })
-          .where(eq(emailAgent.id, emailAgentId));
+      if (emailAgentResult.length === 0) {
+        return NextResponse.json({ error: 'Email agent not found' }, { status: 404 });
       }
+
+      await upsertWebhookEndpoint(session.user.id, { emailAgentId }, endpointInput);
     }
 
-    // Create or update agent launch log entry for tracking
-    const logId = crypto.randomUUID();
-    const existingLog = emailAgentId ? await db.select()
-      .from(agentLaunchLog)
+    // Track the agent as a run unless one already exists for it
+    const [existingRun] = await db.select()
+      .from(agentRun)
       .where(
         and(
-          eq(agentLaunchLog.cursorAgentId, agentId),
-          eq(agentLaunchLog.userId, session.user.id)
+          eq(agentRun.cursorAgentId, agentId),
+          eq(agentRun.userId, session.user.id)
         )
-      ) : [];
-
-    if (existingLog.length === 0) {
-      await db.insert(agentLaunchLog).values({
-        id: logId,
-        emailAgentId: emailAgentId || '',
-        userId: session.user.id,
-        senderEmail: senderEmail || '',
-        emailSubject: emailSubject || '',
-        cursorAgentId: agentId,
-        status: 'success', // Agent exists, so tracking is successful
-        createdAt: new Date()
-      });
+      )
+      .limit(1);
+
+    const run = existingRun || await createAgentRun({
+      userId: session.user.id,
+      emailAgentId: emailAgentId || null,
+      source: 'api',
+      inboundEmailId: originalEmailId || null,
+      cursorAgentId: agentId,
+      senderEmail: senderEmail || '',
+      emailSubject: emailSubject || null,
+      repository: agent.source?.repository
+    }, 'running', 'manual', { message: 'Registered for webhook monitoring', event: emailAgentId ? undefined : null });
+
+    if (!run) {
+      return NextResponse.json({ error: 'Failed to register webhook monitoring' }, { status: 500 });
     }
 
-    // Start monitoring the agent immediately
-    const tracker: AgentStatusTracker = {
-      agentId,
-      lastStatus: agent.status,
-      webhookUrl,
-      webhookSecret,
-      metadata: {
-        emailAgentId,
-        originalEmailId,
-        senderEmail,
-        emailSubject
+    // Without one, the URL becomes an endpoint of the run itself
+    if (!emailAgentId) {
+      await upsertWebhookEndpoint(session.user.id, { runId: run.id }, endpointInput);
+      if (!existingRun) {
+        await emitRunEvent(run, 'agent.running');
       }
-    };
+    }
 
-    // If agent is already completed, send webhook immediately
+    // If agent is already completed, complete the run now - which sends the webhook
     if (agent.status === 'FINISHED' || agent.status === 'ERROR') {
-      const event = agent.status === 'FINISHED' ? 'agent.completed' : 'agent.failed';
-      const payload: AgentWebhookPayload = {
-        event,
-        agent: {
-          id: agent.id,
-          name: agent.name,
-          status: agent.status,
-          summary: agent.summary,
-          createdAt: agent.createdAt,
-          finishedAt: new Date().toISOString(),
-          prUrl: agent.target.prUrl,
-          error: agent.status === 'ERROR' ? 'Agent execution failed' : undefined,
-        },
-        metadata: tracker.metadata || {},
-      };
-
-      const webhookSent = await sendWebhook(webhookUrl, payload, webhookSecret);
-      
+      const { status, details } = getCursorAgentRunUpdate(agent);
+      const transition = await transitionAgentRun(run.id, status, 'manual', details);
+
       return NextResponse.json({ 
         success: true, 
-        message: 'Agent already completed, webhook sent immediately',
-        webhookSent,
+        message: transition ? 'Agent already completed, webhook queued' : 'Agent already completed',
+        webhookQueued: transition?.webhookQueued ?? false,
+        runId: run.id,
         agent: {
           id: agent.id,
           status: agent.status,
@@ -536,6 +297,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ 
       success: true, 
       message: 'Webhook monitoring registered successfully',
+      runId: run.id,
       agent: {
         id: agent.id,
         status: agent.status,
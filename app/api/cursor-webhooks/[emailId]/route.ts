@@ -1,26 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { InboundEmailClient, PostEmailReplyRequest } from '@inboundemail/sdk'
 import { db } from '@/lib/db'
-import { emailAgent, cursorAgentMapping } from '@/lib/schema'
-import { eq } from 'drizzle-orm'
+import { cursorAgentMapping, agentRun } from '@/lib/schema'
+import { eq, and, isNotNull } from 'drizzle-orm'
+import { transitionCursorAgentRuns } from '@/lib/agent-runs'
+import { sendCompletionReply, type AgentCompletion } from '@/lib/completion-reply'
 import crypto from 'crypto'
 
 // Cursor webhook payload interface
-interface CursorWebhookPayload {
+interface CursorWebhookPayload extends AgentCompletion {
   event: 'statusChange'
-  timestamp: string
-  id: string
-  status: 'FINISHED' | 'ERROR'
-  source: {
-    repository: string
-    ref: string
-  }
-  target: {
-    url: string
-    branchName: string
-    prUrl?: string
-  }
-  summary?: string
 }
 
 interface RouteParams {
@@ -56,49 +44,6 @@ function verifyWebhookSignature(secret: string, rawBody: string, signature: stri
   }
 }
 
-// Generate reply content based on agent status
-function generateReplyContent(payload: CursorWebhookPayload): { text: string; subject: string } {
-  const { status, summary, target } = payload;
-  
-  if (status === 'FINISHED') {
-    let text = `Hi there!\n\nGreat news! I've completed the task you requested.`;
-    
-    if (summary) {
-      text += `\n\nHere's what I accomplished:\n${summary}`;
-    }
-    
-    if (target.prUrl) {
-      text += `\n\nYou can view the changes here: ${target.prUrl}`;
-    } else if (target.branchName) {
-      text += `\n\nThe changes have been made to branch: ${target.branchName}`;
-    }
-    
-    text += `\n\nAgent: ${payload.id}\nRepository: ${payload.source.repository}\nCompleted: ${payload.timestamp}\n\nLet me know if you need any adjustments!`;
-    
-    return {
-      text,
-      subject: `✅ Task Complete: Your code request`
-    };
-  } 
-  
-  if (status === 'ERROR') {
-    let text = `Hi there,\n\nI encountered an issue while working on your request.`;
-    
-    text += `\n\nAgent: ${payload.id}\nRepository: ${payload.source.repository}\nFailed at: ${payload.timestamp}\n\nI'll investigate this issue. Please feel free to try again or contact support if the problem persists.`;
-    
-    return {
-      text,
-      subject: `❌ Task Failed: Your code request`
-    };
-  }
-  
-  // Fallback
-  return {
-    text: `Your code request has been processed with status: ${status}`,
-    subject: `Agent Update: Your code request`
-  };
-}
-
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { emailId } = await params;
@@ -185,29 +130,43 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       .select({
         originalEmailId: cursorAgentMapping.originalEmailId,
         emailAddress: cursorAgentMapping.emailAddress,
-        webhookSecret: cursorAgentMapping.webhookSecret,
-        emailAgentId: cursorAgentMapping.emailAgentId
+        webhookSecret: cursorAgentMapping.webhookSecret
       })
       .from(cursorAgentMapping)
       .where(eq(cursorAgentMapping.cursorAgentId, payload.id))
       .limit(1);
 
-    if (mappingResult.length === 0) {
-      console.error('❌ No mapping found for cursorAgentId:', payload.id);
-      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
-    }
+    let webhookSecret: string | null;
 
-    const mapping = mappingResult[0];
-    const originalEmailId = mapping.originalEmailId;
-    const emailAddress = mapping.emailAddress;
-    const webhookSecret = mapping.webhookSecret;
+    if (mappingResult.length > 0) {
+      const mapping = mappingResult[0];
+      webhookSecret = mapping.webhookSecret;
 
-    console.log('🔍 Found mapping:', {
-      cursorAgentId: payload.id,
-      originalEmailId,
-      emailAddress,
-      hasWebhookSecret: !!webhookSecret
-    });
+      console.log('🔍 Found mapping:', {
+        cursorAgentId: payload.id,
+        originalEmailId: mapping.originalEmailId,
+        emailAddress: mapping.emailAddress,
+        hasWebhookSecret: !!webhookSecret
+      });
+    } else {
+      // Agents launched over MCP or in batches have no mapping - their run keeps the secret
+      const [run] = await db
+        .select({ id: agentRun.id, cursorWebhookSecret: agentRun.cursorWebhookSecret })
+        .from(agentRun)
+        .where(and(
+          eq(agentRun.cursorAgentId, payload.id),
+          isNotNull(agentRun.cursorWebhookSecret)
+        ))
+        .limit(1);
+
+      if (!run) {
+        console.error('❌ No mapping or run found for cursorAgentId:', payload.id);
+        return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+      }
+
+      webhookSecret = run.cursorWebhookSecret;
+      console.log('🔍 Found run:', { cursorAgentId: payload.id, runId: run.id });
+    }
 
     // Verify webhook signature using stored secret
     if (signature) {
@@ -222,76 +181,51 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
           console.log('✅ Webhook signature verified successfully');
         } else {
-          console.warn('⚠️ No webhook secret found in mapping for cursorAgentId:', payload.id);
-          console.warn('⚠️ This webhook will be rejected in future versions - please recreate the email agent to generate a new webhook secret');
-          // For now, allow webhooks without stored secrets to maintain backward compatibility
-          // In a future version, this should return an error
+          console.warn('⚠️ No webhook secret stored for cursorAgentId:', payload.id);
+          console.warn('⚠️ Agents launched before secrets were stored on their mapping cannot be verified');
+          // Allow webhooks for these older agents to maintain backward compatibility
         }
       } catch (error) {
         console.error('❌ Error verifying webhook signature:', error);
         return NextResponse.json({ error: 'Signature verification failed' }, { status: 500 });
       }
+    } else if (webhookSecret) {
+      // We gave Cursor a secret for this agent, so an unsigned request didn't come from Cursor
+      console.error('❌ Missing webhook signature for an agent with a stored secret');
+      return NextResponse.json({ error: 'Missing signature' }, { status: 401 });
     } else {
       console.warn('⚠️ No signature provided in webhook request');
-      console.warn('⚠️ This webhook will be rejected in future versions - please recreate the email agent to generate a new webhook secret');
-      // For now, allow webhooks without signatures to maintain backward compatibility
-      // In a future version, this should return an error
-    }
-    
-    // Initialize Inbound client
-    const inboundApiKey = process.env.INBOUND_API_KEY;
-    if (!inboundApiKey) {
-      console.error('❌ INBOUND_API_KEY not configured');
-      return NextResponse.json({ error: 'Email service not configured' }, { status: 500 });
+      // Allow unsigned webhooks for agents launched before secrets were stored on their mapping
     }
 
-    const inbound = new InboundEmailClient(inboundApiKey);
-
-    // Generate reply content
-    const reply = generateReplyContent(payload);
-
-    // Use the email address from the database mapping
-    const fromEmail = emailAddress;
+    // Settle the runs of this agent first - the reply below can still fail after this point
+    await transitionCursorAgentRuns(payload.id, payload.status === 'FINISHED' ? 'finished' : 'error', 'webhook', {
+      message: payload.status === 'FINISHED' ? 'Agent finished' : 'Agent execution failed',
+      repository: payload.source?.repository,
+      branchName: payload.target?.branchName,
+      prUrl: payload.target?.prUrl,
+      summary: payload.summary
+    });
 
-    console.log('🔍 From email:', fromEmail);
+    // Also sent by status checks when this webhook comes late - only the first one replies
+    const reply = await sendCompletionReply(payload);
 
-    // Send reply using Inbound SDK
-    try {
-      const replyPayload = {
-        from: "Inbound <" + fromEmail + ">" || 'Agent <agent@bg.inbound.new>',
-        text: reply.text,
-        subject: reply.subject
-      };
-
-      console.log('📤 Sending reply to', originalEmailId, 'with payload:', JSON.stringify(replyPayload, null, 2));
-
-      const { data, error } = await inbound.email.sent.reply(originalEmailId, replyPayload as PostEmailReplyRequest);
-      
-      if (error) {
-        console.error('❌ Failed to send reply via Inbound:', error);
-        return NextResponse.json({ 
-          error: 'Failed to send email reply', 
-          details: error 
-        }, { status: 500 });
-      }
-      
-      console.log('✅ Reply sent successfully:', data?.id);
-      
-      return NextResponse.json({ 
-        success: true,
-        message: 'Webhook processed and reply sent successfully',
-        replyId: data?.id,
-        agentStatus: payload.status
-      });
-      
-    } catch (replyError) {
-      console.error('❌ Error sending reply:', replyError);
-      return NextResponse.json({ 
-        error: 'Failed to send email reply',
-        details: replyError instanceof Error ? replyError.message : 'Unknown error'
+    if (reply.status === 'failed') {
+      return NextResponse.json({
+        error: reply.error,
+        details: reply.details
       }, { status: 500 });
     }
-    
+
+    return NextResponse.json({
+      success: true,
+      message: reply.status === 'sent'
+        ? 'Webhook processed and reply sent successfully'
+        : `Webhook processed, no reply sent: ${reply.reason}`,
+      replyId: reply.status === 'sent' ? reply.replyId : undefined,
+      agentStatus: payload.status
+    });
+
   } catch (error) {
     console.error('❌ Cursor webhook error:', error);
     return NextResponse.json(
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { emailAgent, webhookDelivery } from '@/lib/schema'
+import { eq, and, desc } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET - Get the outbound webhook deliveries of an email agent
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const agents = await db
+      .select({ id: emailAgent.id })
+      .from(emailAgent)
+      .where(and(
+        eq(emailAgent.id, id),
+        eq(emailAgent.userId, session.user.id)
+      ))
+      .limit(1);
+
+    if (agents.length === 0) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '50');
+    const endpointId = url.searchParams.get('endpointId');
+
+    const deliveries = await db
+      .select({
+        id: webhookDelivery.id,
+        endpointId: webhookDelivery.endpointId,
+        runId: webhookDelivery.runId,
+        event: webhookDelivery.event,
+        url: webhookDelivery.url,
+        status: webhookDelivery.status,
+        attempts: webhookDelivery.attempts,
+        maxAttempts: webhookDelivery.maxAttempts,
+        nextAttemptAt: webhookDelivery.nextAttemptAt,
+        lastAttemptAt: webhookDelivery.lastAttemptAt,
+        deliveredAt: webhookDelivery.deliveredAt,
+        createdAt: webhookDelivery.createdAt,
+      })
+      .from(webhookDelivery)
+      .where(and(
+        eq(webhookDelivery.emailAgentId, id),
+        endpointId ? eq(webhookDelivery.endpointId, endpointId) : undefined
+      ))
+      .orderBy(desc(webhookDelivery.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
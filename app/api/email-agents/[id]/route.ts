@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db } from '@/lib/db'
-import { emailAgent } from '@/lib/schema'
-import { eq, and } from 'drizzle-orm'
 import { auth } from '@/lib/auth'
-import { deleteEmailAgent, updateEmailAgentStatus } from '@/lib/inbound-email'
+import {
+  validateEmailAgentInput,
+  getUserEmailAgent,
+  updateEmailAgentSettings,
+  removeEmailAgent,
+  toPublicEmailAgent
+} from '@/lib/email-agents'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -22,75 +25,26 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { githubRepository, githubRef, cursorApiKey, model, autoCreatePr, isActive } = body;
 
-    // Validate GitHub repository URL format if provided
-    if (githubRepository) {
-      const githubUrlPattern = /^https:\/\/github\.com\/[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
-      if (!githubUrlPattern.test(githubRepository)) {
-        return NextResponse.json(
-          { error: 'Invalid GitHub repository URL format' },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Get current agent to check if it exists and get InboundEmail IDs
-    const currentAgent = await db
-      .select()
-      .from(emailAgent)
-      .where(and(
-        eq(emailAgent.id, id),
-        eq(emailAgent.userId, session.user.id)
-      ))
-      .limit(1);
-
-    if (currentAgent.length === 0) {
+    const currentAgent = await getUserEmailAgent(session.user.id, id);
+    if (!currentAgent) {
       return NextResponse.json(
         { error: 'Email agent not found' },
         { status: 404 }
       );
     }
 
-    // If updating active status, sync with InboundEmail
-    if (isActive !== undefined && isActive !== currentAgent[0].isActive) {
-      try {
-        if (currentAgent[0].inboundEmailAddressId) {
-          await updateEmailAgentStatus(currentAgent[0].inboundEmailAddressId, isActive);
-        }
-      } catch (error) {
-        console.error('Failed to update InboundEmail status:', error);
-        // Continue with database update even if InboundEmail sync fails
-      }
+    // The name can't change - it's the address emails are sent to
+    const validationError = validateEmailAgentInput(body, true, currentAgent);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
-    // Build update object only with provided fields
-    const updateData: any = {
-      updatedAt: new Date()
-    };
-
-    if (githubRepository !== undefined) updateData.githubRepository = githubRepository;
-    if (githubRef !== undefined) updateData.githubRef = githubRef;
-    if (cursorApiKey !== undefined) updateData.cursorApiKey = cursorApiKey;
-    if (model !== undefined) updateData.model = model;
-    if (autoCreatePr !== undefined) updateData.autoCreatePr = autoCreatePr;
-    if (isActive !== undefined) updateData.isActive = isActive;
-
-    const updatedAgent = await db
-      .update(emailAgent)
-      .set(updateData)
-      .where(and(
-        eq(emailAgent.id, id),
-        eq(emailAgent.userId, session.user.id)
-      ))
-      .returning();
+    const updatedAgent = await updateEmailAgentSettings(currentAgent, body);
 
     return NextResponse.json({ 
       success: true, 
-      agent: {
-        ...updatedAgent[0],
-        cursorApiKey: undefined // Don't return the API key in response
-      }
+      agent: toPublicEmailAgent(updatedAgent)
     });
   } catch (error) {
     console.error('Error updating email agent:', error);
@@ -113,45 +67,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get the agent to delete to retrieve InboundEmail IDs
-    const agentToDelete = await db
-      .select()
-      .from(emailAgent)
-      .where(and(
-        eq(emailAgent.id, id),
-        eq(emailAgent.userId, session.user.id)
-      ))
-      .limit(1);
-
-    if (agentToDelete.length === 0) {
+    const agent = await getUserEmailAgent(session.user.id, id);
+    if (!agent) {
       return NextResponse.json(
         { error: 'Email agent not found' },
         { status: 404 }
       );
     }
 
-    const agent = agentToDelete[0];
-
-    // Delete from InboundEmail first
-    if (agent.inboundEndpointId || agent.inboundEmailAddressId) {
-      try {
-        await deleteEmailAgent(
-          agent.inboundEndpointId || '',
-          agent.inboundEmailAddressId || ''
-        );
-      } catch (error) {
-        console.error('Failed to delete from InboundEmail:', error);
-        // Continue with database deletion even if InboundEmail cleanup fails
-      }
-    }
-
-    // Delete from our database
-    await db
-      .delete(emailAgent)
-      .where(and(
-        eq(emailAgent.id, id),
-        eq(emailAgent.userId, session.user.id)
-      ));
+    // Deletes from InboundEmail first, then from our database
+    await removeEmailAgent(agent);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -161,4 +86,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
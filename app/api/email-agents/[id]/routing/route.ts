@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { emailAgent, emailAgentTarget, emailAgentRoutingRule } from '@/lib/schema'
+import { eq, and, asc } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { auth } from '@/lib/auth'
+import { validateRoutingConfig, type RoutingTargetInput, type RoutingRuleInput } from '@/lib/routing'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+async function getOwnedAgent(id: string, userId: string) {
+  const agents = await db
+    .select({ id: emailAgent.id })
+    .from(emailAgent)
+    .where(and(
+      eq(emailAgent.id, id),
+      eq(emailAgent.userId, userId)
+    ))
+    .limit(1);
+
+  return agents[0] || null;
+}
+
+async function getRoutingConfig(emailAgentId: string) {
+  const [targets, rules] = await Promise.all([
+    db.select()
+      .from(emailAgentTarget)
+      .where(eq(emailAgentTarget.emailAgentId, emailAgentId))
+      .orderBy(asc(emailAgentTarget.createdAt)),
+    db.select()
+      .from(emailAgentRoutingRule)
+      .where(eq(emailAgentRoutingRule.emailAgentId, emailAgentId))
+      .orderBy(asc(emailAgentRoutingRule.priority))
+  ]);
+
+  return { targets, rules };
+}
+
+// GET - Get the repository targets and routing rules of an email agent
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!await getOwnedAgent(id, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await getRoutingConfig(id));
+  } catch (error) {
+    console.error('Error fetching routing config:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Replace the repository targets and routing rules of an email agent
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { targets = [], rules = [] } = body;
+
+    const validationError = validateRoutingConfig(targets, rules);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!await getOwnedAgent(id, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    // Rules reference targets by name in the request, so assign IDs up front
+    const targetIds = new Map<string, string>(
+      (targets as RoutingTargetInput[]).map(target => [target.name, nanoid()])
+    );
+
+    await db.transaction(async (tx) => {
+      // Deleting targets cascades to their rules
+      await tx.delete(emailAgentTarget).where(eq(emailAgentTarget.emailAgentId, id));
+
+      if (targets.length > 0) {
+        await tx.insert(emailAgentTarget).values(
+          (targets as RoutingTargetInput[]).map(target => ({
+            id: targetIds.get(target.name)!,
+            emailAgentId: id,
+            name: target.name.trim(),
+            githubRepository: target.githubRepository,
+            githubRef: target.githubRef || 'main',
+            model: target.model || null,
+            autoCreatePr: target.autoCreatePr || false,
+            branchName: target.branchName || null,
+            isDefault: target.isDefault || false,
+          }))
+        );
+      }
+
+      if (rules.length > 0) {
+        await tx.insert(emailAgentRoutingRule).values(
+          (rules as RoutingRuleInput[]).map((rule, index) => ({
+            id: nanoid(),
+            emailAgentId: id,
+            targetId: targetIds.get(rule.target)!,
+            name: rule.name.trim(),
+            priority: rule.priority ?? index,
+            matchType: rule.matchType,
+            pattern: rule.pattern,
+          }))
+        );
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...await getRoutingConfig(id)
+    });
+  } catch (error) {
+    console.error('Error updating routing config:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { emailAgent, senderPolicyRule } from '@/lib/schema'
+import { eq, and, asc } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import { validateSenderPolicyRules, buildSenderPolicyRuleRows, type SenderPolicyRuleInput } from '@/lib/sender-policy'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+async function getOwnedAgent(id: string, userId: string) {
+  const agents = await db
+    .select({ id: emailAgent.id, senderAuthentication: emailAgent.senderAuthentication })
+    .from(emailAgent)
+    .where(and(
+      eq(emailAgent.id, id),
+      eq(emailAgent.userId, userId)
+    ))
+    .limit(1);
+
+  return agents[0] || null;
+}
+
+async function getSenderRules(emailAgentId: string) {
+  return db
+    .select()
+    .from(senderPolicyRule)
+    .where(eq(senderPolicyRule.emailAgentId, emailAgentId))
+    .orderBy(asc(senderPolicyRule.priority));
+}
+
+// GET - Get the sender policy rules of an email agent
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const agent = await getOwnedAgent(id, session.user.id);
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      senderAuthentication: agent.senderAuthentication,
+      rules: await getSenderRules(id)
+    });
+  } catch (error) {
+    console.error('Error fetching sender policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Replace the sender policy rules of an email agent
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { rules = [] } = body;
+
+    const validationError = validateSenderPolicyRules(rules);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!await getOwnedAgent(id, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(senderPolicyRule).where(eq(senderPolicyRule.emailAgentId, id));
+
+      if (rules.length > 0) {
+        await tx.insert(senderPolicyRule).values(buildSenderPolicyRuleRows(id, rules as SenderPolicyRuleInput[]));
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      rules: await getSenderRules(id)
+    });
+  } catch (error) {
+    console.error('Error updating sender policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { emailAgent, senderPolicyRule } from '@/lib/schema'
+import { eq, and } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import { extractEmailAddress } from '@/lib/utils'
+import {
+  evaluateSenderPolicy,
+  checkRepositoryLimit,
+  validateSenderPolicyRules,
+  type EvaluableSenderRule,
+  type SenderPolicyRuleInput,
+} from '@/lib/sender-policy'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST - Check whether a sender would be let through, against the saved rules or a draft set of rules
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { senderEmail, repository, rules } = body;
+
+    if (!senderEmail || typeof senderEmail !== 'string') {
+      return NextResponse.json({ error: 'senderEmail is required' }, { status: 400 });
+    }
+
+    if (rules !== undefined) {
+      const validationError = validateSenderPolicyRules(rules);
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+    }
+
+    const agents = await db
+      .select({ githubRepository: emailAgent.githubRepository })
+      .from(emailAgent)
+      .where(and(
+        eq(emailAgent.id, id),
+        eq(emailAgent.userId, session.user.id)
+      ))
+      .limit(1);
+
+    if (agents.length === 0) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    // Draft rules are evaluated the same way as saved ones
+    const evaluatedRules: EvaluableSenderRule[] = rules !== undefined
+      ? (rules as SenderPolicyRuleInput[]).map((rule, index) => ({
+          effect: rule.effect,
+          pattern: rule.pattern,
+          priority: rule.priority ?? index,
+          allowedRepositories: rule.allowedRepositories && rule.allowedRepositories.length > 0 ? JSON.stringify(rule.allowedRepositories) : null,
+          allowAutoPr: rule.allowAutoPr ?? true,
+        }))
+      : await db.select().from(senderPolicyRule).where(eq(senderPolicyRule.emailAgentId, id));
+
+    const sender = extractEmailAddress(senderEmail);
+    const decision = evaluateSenderPolicy(evaluatedRules, sender);
+    const targetRepository = repository || agents[0].githubRepository;
+    const repositoryViolation = decision.allowed ? checkRepositoryLimit(decision.limits, targetRepository) : null;
+
+    return NextResponse.json({
+      senderEmail: sender,
+      allowed: decision.allowed && !repositoryViolation,
+      reason: repositoryViolation || decision.reason,
+      rule: decision.rule,
+      limits: decision.limits,
+      repository: targetRepository
+    });
+  } catch (error) {
+    console.error('Error testing sender policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
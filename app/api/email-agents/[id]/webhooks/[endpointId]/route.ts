@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { webhookEndpoint } from '@/lib/schema'
+import { eq, and } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import {
+  validateWebhookEndpoint,
+  buildWebhookEndpointValues,
+  generateEndpointSecret,
+  toPublicWebhookEndpoint,
+  type WebhookEndpointInput
+} from '@/lib/webhook-endpoints'
+
+interface RouteParams {
+  params: Promise<{ id: string; endpointId: string }>
+}
+
+// PUT - Update a webhook endpoint
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, endpointId } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { kind, url, secret, events, description, isActive, rotateSecret } = body;
+    const input: WebhookEndpointInput = { kind, url, secret, events, description, isActive };
+
+    const validationError = validateWebhookEndpoint(input, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const newSecret = rotateSecret ? generateEndpointSecret() : undefined;
+
+    const [endpoint] = await db.update(webhookEndpoint)
+      .set({
+        ...buildWebhookEndpointValues(input),
+        ...(newSecret ? { secret: newSecret } : {}),
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(webhookEndpoint.id, endpointId),
+        eq(webhookEndpoint.emailAgentId, id),
+        eq(webhookEndpoint.userId, session.user.id)
+      ))
+      .returning();
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      endpoint: toPublicWebhookEndpoint(endpoint),
+      ...(newSecret ? { secret: newSecret } : {})
+    });
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a webhook endpoint along with its deliveries
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, endpointId } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await db.delete(webhookEndpoint)
+      .where(and(
+        eq(webhookEndpoint.id, endpointId),
+        eq(webhookEndpoint.emailAgentId, id),
+        eq(webhookEndpoint.userId, session.user.id)
+      ))
+      .returning({ id: webhookEndpoint.id });
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { webhookEndpoint } from '@/lib/schema'
+import { eq, and } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import { sendWebhookDelivery } from '@/lib/outbound-webhooks'
+import { formatEndpointPayload } from '@/lib/chat-notifications'
+import { buildWebhookEvent, SAMPLE_WEBHOOK_EVENT_DATA, WEBHOOK_EVENT_TYPES, type WebhookEventType } from '@/lib/webhook-events'
+
+interface RouteParams {
+  params: Promise<{ id: string; endpointId: string }>
+}
+
+// POST - Send a sample event to a webhook endpoint
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, endpointId } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const type: string = body.event || 'agent.completed';
+
+    if (!(WEBHOOK_EVENT_TYPES as string[]).includes(type)) {
+      return NextResponse.json(
+        { error: `Invalid event. Available: ${WEBHOOK_EVENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [endpoint] = await db
+      .select()
+      .from(webhookEndpoint)
+      .where(and(
+        eq(webhookEndpoint.id, endpointId),
+        eq(webhookEndpoint.emailAgentId, id),
+        eq(webhookEndpoint.userId, session.user.id)
+      ))
+      .limit(1);
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    // Sent even when the endpoint is paused or not subscribed to the event
+    const event = buildWebhookEvent(type as WebhookEventType, { ...SAMPLE_WEBHOOK_EVENT_DATA, emailAgentId: id });
+    const delivery = await sendWebhookDelivery({
+      userId: session.user.id,
+      emailAgentId: id,
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      event,
+      payload: formatEndpointPayload(endpoint.kind, event)
+    });
+
+    return NextResponse.json({
+      success: delivery.status === 'delivered',
+      delivery
+    });
+  } catch (error) {
+    console.error('Error sending test webhook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
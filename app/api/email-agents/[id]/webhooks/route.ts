@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { emailAgent, webhookEndpoint } from '@/lib/schema'
+import { eq, and } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { auth } from '@/lib/auth'
+import {
+  validateWebhookEndpoint,
+  buildWebhookEndpointValues,
+  generateEndpointSecret,
+  getWebhookEndpoints,
+  toPublicWebhookEndpoint,
+  type WebhookEndpointInput
+} from '@/lib/webhook-endpoints'
+import { DEFAULT_CHAT_EVENTS } from '@/lib/chat-notifications'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+async function getOwnedAgent(id: string, userId: string) {
+  const agents = await db
+    .select({ id: emailAgent.id })
+    .from(emailAgent)
+    .where(and(
+      eq(emailAgent.id, id),
+      eq(emailAgent.userId, userId)
+    ))
+    .limit(1);
+
+  return agents[0] || null;
+}
+
+// GET - Get the webhook endpoints of an email agent
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!await getOwnedAgent(id, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    const endpoints = await getWebhookEndpoints(id);
+
+    return NextResponse.json({ endpoints: endpoints.map(toPublicWebhookEndpoint) });
+  } catch (error) {
+    console.error('Error fetching webhook endpoints:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a webhook endpoint to an email agent
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { kind = 'webhook', url, secret, events, description, isActive } = body;
+    const isChat = kind === 'slack' || kind === 'discord';
+    const input: WebhookEndpointInput = {
+      kind,
+      url,
+      secret,
+      // Chat endpoints only post the events people act on unless asked for more
+      events: events === undefined && isChat ? DEFAULT_CHAT_EVENTS : events,
+      description,
+      isActive
+    };
+
+    const validationError = validateWebhookEndpoint(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!await getOwnedAgent(id, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Email agent not found' },
+        { status: 404 }
+      );
+    }
+
+    // Endpoints are signed unless the secret is explicitly set to null - Slack and Discord don't check signatures
+    const endpointSecret = secret === undefined && !isChat ? generateEndpointSecret() : secret || null;
+
+    const [endpoint] = await db.insert(webhookEndpoint).values({
+      id: nanoid(),
+      userId: session.user.id,
+      emailAgentId: id,
+      url,
+      ...buildWebhookEndpointValues(input),
+      secret: endpointSecret,
+    }).returning();
+
+    return NextResponse.json({
+      success: true,
+      endpoint: toPublicWebhookEndpoint(endpoint),
+      secret: endpointSecret // Only returned here - store it to verify signatures
+    });
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
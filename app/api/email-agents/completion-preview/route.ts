@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  DEFAULT_COMPLETION_TEMPLATE,
+  SAMPLE_COMPLETION_VARIABLES,
+  validateCompletionTemplate,
+  buildCompletionEmail,
+} from '@/lib/completion-email'
+
+// POST - Render a completion reply template against a sample finished agent
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { completionTemplate, variables } = body;
+
+    // Blank template previews the default reply
+    const template = completionTemplate || DEFAULT_COMPLETION_TEMPLATE;
+    const templateError = validateCompletionTemplate(template);
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    if (variables !== undefined && (typeof variables !== 'object' || variables === null)) {
+      return NextResponse.json({ error: 'variables must be an object' }, { status: 400 });
+    }
+
+    // Provided values override the sample ones, e.g. { prUrl: '' } to preview a run without a PR
+    const previewVariables = { ...SAMPLE_COMPLETION_VARIABLES };
+    for (const name of Object.keys(previewVariables) as (keyof typeof previewVariables)[]) {
+      if (typeof variables?.[name] === 'string') {
+        previewVariables[name] = variables[name];
+      }
+    }
+
+    const email = buildCompletionEmail(template, previewVariables);
+
+    return NextResponse.json({
+      ...email,
+      variables: previewVariables
+    });
+  } catch (error) {
+    console.error('Error previewing completion template:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
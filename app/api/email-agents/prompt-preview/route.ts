@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isInboundWebhook } from '@inboundemail/sdk'
+import type { InboundWebhookPayload } from '@inboundemail/sdk'
+import { auth } from '@/lib/auth'
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  SAMPLE_INBOUND_PAYLOAD,
+  SAMPLE_ATTACHMENTS_SECTION,
+  validatePromptTemplate,
+  renderPromptTemplate,
+  buildPromptVariables,
+  formatAttachmentsSection,
+} from '@/lib/prompt-template'
+
+// POST - Render a prompt template against a sample (or provided) Inbound webhook payload
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { promptTemplate, payload } = body;
+
+    // Blank template previews the default prompt
+    const template = promptTemplate || DEFAULT_PROMPT_TEMPLATE;
+    const templateError = validatePromptTemplate(template);
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 });
+    }
+
+    if (payload !== undefined && !isInboundWebhook(payload)) {
+      return NextResponse.json({ error: 'Invalid webhook payload' }, { status: 400 });
+    }
+
+    const previewPayload: InboundWebhookPayload = payload || SAMPLE_INBOUND_PAYLOAD;
+
+    // Attachments aren't downloaded for previews - list them by name instead
+    const attachmentsSection = payload
+      ? formatAttachmentsSection(
+          (previewPayload.email.parsedData?.attachments || []).map(attachment =>
+            `--- Attachment: ${attachment.filename || 'unnamed'} (${attachment.contentType || 'unknown'}) ---\n[contents are inlined when the email is received]`
+          )
+        )
+      : SAMPLE_ATTACHMENTS_SECTION;
+
+    const prompt = renderPromptTemplate(template, buildPromptVariables(previewPayload.email, attachmentsSection));
+
+    return NextResponse.json({
+      prompt,
+      payload: previewPayload
+    });
+  } catch (error) {
+    console.error('Error previewing prompt template:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { db } from '@/lib/db'
+import { inboundJob } from '@/lib/schema'
+import { eq, and } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import { processInboundJobs } from '@/lib/job-queue'
+import { decideApproval, type ApprovalDecision } from '@/lib/approvals'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST - Approve or reject an inbound email job waiting for approval
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const decision: ApprovalDecision = body.decision;
+
+    if (decision !== 'approve' && decision !== 'reject') {
+      return NextResponse.json(
+        { error: 'decision must be approve or reject' },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await db
+      .select()
+      .from(inboundJob)
+      .where(and(
+        eq(inboundJob.id, id),
+        eq(inboundJob.userId, session.user.id)
+      ))
+      .limit(1);
+
+    if (jobs.length === 0) {
+      return NextResponse.json(
+        { error: 'Inbound job not found' },
+        { status: 404 }
+      );
+    }
+
+    const job = await decideApproval(jobs[0], decision);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job is no longer waiting for approval' },
+        { status: 409 }
+      );
+    }
+
+    if (job.status === 'pending') {
+      after(async () => {
+        try {
+          await processInboundJobs();
+        } catch (error) {
+          console.error('Error processing inbound jobs:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        status: job.status
+      }
+    });
+  } catch (error) {
+    console.error('Error deciding inbound job approval:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { auth } from '@/lib/auth'
+import { retryDeadLetterJob, processInboundJobs } from '@/lib/job-queue'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST - Re-queue a dead-lettered inbound email job
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const job = await retryDeadLetterJob(id, session.user.id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Dead-lettered job not found' },
+        { status: 404 }
+      );
+    }
+
+    after(async () => {
+      try {
+        await processInboundJobs();
+      } catch (error) {
+        console.error('Error processing inbound jobs:', error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        nextRunAt: job.nextRunAt
+      }
+    });
+  } catch (error) {
+    console.error('Error retrying inbound job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processInboundJobs } from '@/lib/job-queue'
+
+// GET - Work through due inbound jobs, picks up retries whose backoff has passed (meant to be called by a cron)
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '25');
+
+    const processed = await processInboundJobs(limit);
+
+    return NextResponse.json({ success: true, processed });
+  } catch (error) {
+    console.error('Error processing inbound jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
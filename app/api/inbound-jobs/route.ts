@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { inboundJob, emailAgent } from '@/lib/schema'
+import { eq, and, desc } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+import { INBOUND_JOB_STATUSES, type InboundJobStatus } from '@/lib/job-queue'
+
+// GET - Get queued inbound email jobs for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const url = new URL(request.url);
+    const limit = parseInt(url.searchParams.get('limit') || '50');
+    const status = url.searchParams.get('status');
+
+    if (status && !(INBOUND_JOB_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Available: ${INBOUND_JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await db
+      .select({
+        id: inboundJob.id,
+        emailAgentId: inboundJob.emailAgentId,
+        inboundEmailId: inboundJob.inboundEmailId,
+        senderEmail: inboundJob.senderEmail,
+        emailSubject: inboundJob.emailSubject,
+        status: inboundJob.status,
+        attempts: inboundJob.attempts,
+        maxAttempts: inboundJob.maxAttempts,
+        nextRunAt: inboundJob.nextRunAt,
+        lastError: inboundJob.lastError,
+        result: inboundJob.result,
+        approvalExpiresAt: inboundJob.approvalExpiresAt,
+        completedAt: inboundJob.completedAt,
+        createdAt: inboundJob.createdAt,
+        agentName: emailAgent.name,
+      })
+      .from(inboundJob)
+      .leftJoin(emailAgent, eq(inboundJob.emailAgentId, emailAgent.id))
+      .where(and(
+        eq(inboundJob.userId, session.user.id),
+        status ? eq(inboundJob.status, status as InboundJobStatus) : undefined
+      ))
+      .orderBy(desc(inboundJob.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching inbound jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
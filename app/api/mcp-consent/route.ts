@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import {
+  MCP_SCOPE_DESCRIPTIONS,
+  isMcpScope,
+  getRequestedScopes,
+  getOAuthClient,
+  isRegisteredRedirectUri,
+  saveMcpConsent
+} from '@/lib/mcp-scopes'
+
+// The query of the authorization request the consent screen was opened for
+type AuthorizeQuery = Record<string, string>;
+
+async function getConsentRequest(query: AuthorizeQuery) {
+  if (!query.client_id || !query.redirect_uri) {
+    return { error: 'client_id and redirect_uri are required' };
+  }
+
+  const client = await getOAuthClient(query.client_id);
+  if (!client) {
+    return { error: 'Unknown or disabled MCP client' };
+  }
+  if (!isRegisteredRedirectUri(client, query.redirect_uri)) {
+    return { error: 'redirect_uri is not registered for this client' };
+  }
+
+  return { client, requestedScopes: getRequestedScopes(query.scope) };
+}
+
+// GET - Describe what an MCP client asks for
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const consentRequest = await getConsentRequest(query);
+    if ('error' in consentRequest) {
+      return NextResponse.json({ error: consentRequest.error }, { status: 400 });
+    }
+
+    const { client, requestedScopes } = consentRequest;
+
+    return NextResponse.json({
+      client: {
+        name: client.name || 'Unnamed MCP client',
+        icon: client.icon,
+      },
+      scopes: requestedScopes.filter(isMcpScope).map(scope => ({
+        scope,
+        description: MCP_SCOPE_DESCRIPTIONS[scope],
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching MCP consent request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Allow an MCP client some of the scopes it asked for, or deny it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const query: AuthorizeQuery = body.query && typeof body.query === 'object' ? body.query : {};
+
+    const consentRequest = await getConsentRequest(query);
+    if ('error' in consentRequest) {
+      return NextResponse.json({ error: consentRequest.error }, { status: 400 });
+    }
+
+    const { requestedScopes } = consentRequest;
+
+    if (!body.accept) {
+      const redirectUrl = new URL(query.redirect_uri);
+      redirectUrl.searchParams.set('error', 'access_denied');
+      redirectUrl.searchParams.set('error_description', 'The user denied access');
+      if (query.state) {
+        redirectUrl.searchParams.set('state', query.state);
+      }
+      console.log(`🚫 User ${session.user.id} denied MCP client ${query.client_id}`);
+      return NextResponse.json({ redirectUrl: redirectUrl.toString() });
+    }
+
+    if (!Array.isArray(body.scopes) || !body.scopes.every((scope: unknown) => typeof scope === 'string')) {
+      return NextResponse.json({ error: 'scopes must be an array of strings' }, { status: 400 });
+    }
+
+    // Only scopes the client asked for can be granted
+    const grantedScopes = requestedScopes.filter(scope => isMcpScope(scope) && body.scopes.includes(scope));
+    if (grantedScopes.length === 0) {
+      return NextResponse.json(
+        { error: 'Allow at least one permission, or deny access' },
+        { status: 400 }
+      );
+    }
+
+    await saveMcpConsent(session.user.id, query.client_id, grantedScopes);
+
+    // Authorize again with what was granted - the OpenID scopes aren't up for consent
+    const scope = [...requestedScopes.filter(scope => !isMcpScope(scope)), ...grantedScopes].join(' ');
+    const authorizeQuery = new URLSearchParams({ ...query, scope });
+
+    return NextResponse.json({ redirectUrl: `/api/auth/mcp/authorize?${authorizeQuery.toString()}` });
+  } catch (error) {
+    console.error('Error saving MCP consent:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
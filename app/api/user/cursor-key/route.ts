@@ -3,6 +3,7 @@ import { db } from '@/lib/db'
 import { user } from '@/lib/schema'
 import { eq } from 'drizzle-orm'
 import { auth } from '@/lib/auth'
+import { encryptSecret } from '@/lib/secrets'
 
 // GET - Get the user's default Cursor API key
 export async function GET(request: NextRequest) {
@@ -66,7 +67,7 @@ export async function PUT(request: NextRequest) {
     const updatedUser = await db
       .update(user)
       .set({
-        defaultCursorApiKey: cursorApiKey.trim(),
+        defaultCursorApiKey: encryptSecret(cursorApiKey.trim()),
         updatedAt: new Date()
       })
       .where(eq(user.id, session.user.id))
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { redeliverWebhook } from '@/lib/outbound-webhooks'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST - Send a webhook delivery again right away
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const delivery = await redeliverWebhook(id, session.user.id);
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: delivery.status === 'delivered',
+      delivery: {
+        id: delivery.id,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt,
+        lastAttemptAt: delivery.lastAttemptAt
+      }
+    });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
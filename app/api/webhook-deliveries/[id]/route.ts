@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { webhookDelivery, webhookDeliveryAttempt } from '@/lib/schema'
+import { eq, and, asc } from 'drizzle-orm'
+import { auth } from '@/lib/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET - Get a webhook delivery with its payload and every attempt
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await auth.api.getSession({
+      headers: request.headers
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [delivery] = await db
+      .select()
+      .from(webhookDelivery)
+      .where(and(
+        eq(webhookDelivery.id, id),
+        eq(webhookDelivery.userId, session.user.id)
+      ))
+      .limit(1);
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    const attempts = await db
+      .select()
+      .from(webhookDeliveryAttempt)
+      .where(eq(webhookDeliveryAttempt.deliveryId, id))
+      .orderBy(asc(webhookDeliveryAttempt.createdAt));
+
+    return NextResponse.json({
+      delivery: { ...delivery, payload: JSON.parse(delivery.payload) },
+      attempts
+    });
+  } catch (error) {
+    console.error('Error fetching webhook delivery:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
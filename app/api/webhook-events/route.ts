@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_TYPES } from '@/lib/webhook-events'
+
+// GET - The events outbound webhooks can subscribe to
+export async function GET() {
+  const events = WEBHOOK_EVENT_TYPES.map(type => ({
+    type,
+    version: WEBHOOK_EVENTS[type].version,
+    description: WEBHOOK_EVENTS[type].description,
+  }));
+
+  return NextResponse.json({ events });
+}
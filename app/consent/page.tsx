@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+
+interface RequestedScope {
+  scope: string;
+  description: string;
+}
+
+interface ConsentRequest {
+  client: {
+    name: string;
+    icon: string | null;
+  };
+  scopes: RequestedScope[];
+}
+
+export default function ConsentPage() {
+  const [query, setQuery] = useState<Record<string, string>>({});
+  const [consentRequest, setConsentRequest] = useState<ConsentRequest | null>(null);
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    // The authorization request of the MCP client, as it was sent to /mcp/authorize
+    const params = new URLSearchParams(window.location.search);
+    const authorizeQuery = Object.fromEntries(params.entries());
+    setQuery(authorizeQuery);
+
+    const fetchConsentRequest = async () => {
+      try {
+        const response = await fetch(`/api/mcp-consent?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load the authorization request");
+        }
+        setConsentRequest(data);
+        setSelectedScopes(data.scopes.map((s: RequestedScope) => s.scope));
+      } catch (err) {
+        console.error('Consent request error:', err);
+        setError(err instanceof Error ? err.message : "Failed to load the authorization request");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchConsentRequest();
+  }, []);
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSelectedScopes(checked
+      ? [...selectedScopes, scope]
+      : selectedScopes.filter(s => s !== scope));
+  };
+
+  const handleDecision = async (accept: boolean) => {
+    setSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch('/api/mcp-consent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, accept, scopes: selectedScopes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save your decision");
+      }
+      window.location.href = data.redirectUrl;
+    } catch (err) {
+      console.error('Consent error:', err);
+      setError(err instanceof Error ? err.message : "Failed to save your decision");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4 py-12 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            {consentRequest ? `Connect ${consentRequest.client.name}` : "Connect an MCP client"}
+          </CardTitle>
+          <CardDescription className="text-center">
+            This app wants to use bg by inbound on your behalf. Choose what it may do.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading && (
+            <p className="text-sm text-muted-foreground text-center">Loading...</p>
+          )}
+
+          {consentRequest && (
+            <>
+              <div className="space-y-3">
+                {consentRequest.scopes.map(({ scope, description }) => (
+                  <div key={scope} className="flex items-start space-x-2">
+                    <input
+                      id={scope}
+                      type="checkbox"
+                      checked={selectedScopes.includes(scope)}
+                      onChange={(e) => toggleScope(scope, e.target.checked)}
+                      disabled={submitting}
+                      className="w-4 h-4 mt-1"
+                    />
+                    <div>
+                      <Label htmlFor={scope} className="font-mono">{scope}</Label>
+                      <p className="text-sm text-muted-foreground">{description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => handleDecision(true)}
+                disabled={submitting || selectedScopes.length === 0}
+                size="lg"
+              >
+                {submitting ? "Saving..." : "Allow"}
+              </Button>
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => handleDecision(false)}
+                disabled={submitting}
+                size="lg"
+                variant="outline"
+              >
+                Deny
+              </Button>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600 text-center">{error}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
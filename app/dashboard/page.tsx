@@ -15,24 +15,150 @@ interface EmailAgent {
   githubRef: string;
   model: string;
   autoCreatePr: boolean;
+  promptTemplate: string | null;
+  completionTemplate: string | null;
   isActive: boolean;
   emailAddress: string;
-  allowedDomains: string | null;
-  allowedEmails: string | null;
+  senderRuleCount: number;
+  allowedOverrides: string | null;
+  senderAuthentication: 'off' | 'relaxed' | 'strict';
+  requireApproval: boolean;
+  approvalTtlHours: number;
+  replyAll: boolean;
+  replyCc: string | null;
+  replyBcc: string | null;
+  replyAllowList: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface WebhookEventInfo {
+  type: string;
+  version: number;
+  description: string;
+}
+
+interface WebhookEndpoint {
+  id: string;
+  kind: 'webhook' | 'slack' | 'discord';
+  url: string;
+  events: string | null;
+  description: string | null;
+  isActive: boolean;
+  hasSecret: boolean;
+  createdAt: string;
+}
+
 interface AgentLog {
   id: string;
   emailAgentId: string;
   senderEmail: string;
   emailSubject: string | null;
   cursorAgentId: string | null;
-  status: 'success' | 'failed' | 'rejected';
+  status: 'launching' | 'success' | 'followup' | 'failed' | 'rejected';
   errorMessage: string | null;
+  attachments: string | null;
+  overrides: string | null;
+  routing: string | null;
   createdAt: string;
   agentName: string | null;
+  runId: string | null;
+  runStatus: AgentRunStatus | null;
+  runStatusMessage: string | null;
+  prUrl: string | null;
+}
+
+type AgentRunStatus = 'received' | 'queued' | 'creating' | 'running' | 'finished' | 'error' | 'expired' | 'cancelled';
+
+interface AgentRunEvent {
+  fromStatus: AgentRunStatus | null;
+  toStatus: AgentRunStatus;
+  source: 'webhook' | 'poll' | 'manual';
+  message: string | null;
+  createdAt: string;
+}
+
+const RUN_STATUS_STYLES: Record<AgentRunStatus, string> = {
+  received: 'bg-gray-100 text-gray-800',
+  queued: 'bg-gray-100 text-gray-800',
+  creating: 'bg-blue-100 text-blue-800',
+  running: 'bg-blue-100 text-blue-800',
+  finished: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  expired: 'bg-yellow-100 text-yellow-800',
+  cancelled: 'bg-yellow-100 text-yellow-800',
+};
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+}
+
+interface WebhookDeliveryAttempt {
+  id: string;
+  attempt: number;
+  trigger: 'automatic' | 'manual';
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+interface SenderRule {
+  id: string;
+  effect: 'allow' | 'deny';
+  pattern: string;
+  priority: number;
+  allowedRepositories: string | null;
+  allowAutoPr: boolean;
+}
+
+interface SenderTestResult {
+  senderEmail: string;
+  allowed: boolean;
+  reason: string;
+  repository: string;
+}
+
+interface InboundJob {
+  id: string;
+  emailAgentId: string;
+  senderEmail: string;
+  emailSubject: string | null;
+  status: 'pending' | 'processing' | 'completed' | 'dead_letter' | 'pending_approval' | 'rejected' | 'expired';
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lastError: string | null;
+  approvalExpiresAt: string | null;
+  createdAt: string;
+  agentName: string | null;
+}
+
+interface AttachmentReportEntry {
+  filename: string;
+  status: 'included' | 'truncated' | 'dropped';
+  reason?: string;
+}
+
+interface LaunchOverrides {
+  overrides: Record<string, string | boolean>;
+  rejected: Array<{ tag: string; reason: string }>;
+}
+
+interface LaunchRouting {
+  reason: 'rule' | 'default' | 'agent';
+  ruleName?: string;
+  targetName?: string;
+  repository: string;
 }
 
 interface CursorAgent {
@@ -59,12 +185,35 @@ export default function DashboardPage() {
   const [emailAgents, setEmailAgents] = useState<EmailAgent[]>([]);
   const [agentLogs, setAgentLogs] = useState<AgentLog[]>([]);
   const [cursorAgents, setCursorAgents] = useState<CursorAgent[]>([]);
+  const [inboundJobs, setInboundJobs] = useState<InboundJob[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isTabFocused, setIsTabFocused] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [hasDefaultKey, setHasDefaultKey] = useState(false);
   const [showKeyForm, setShowKeyForm] = useState(false);
   const [defaultKeyInput, setDefaultKeyInput] = useState('');
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [templateInput, setTemplateInput] = useState('');
+  const [templatePreview, setTemplatePreview] = useState<string | null>(null);
+  const [editingReplyId, setEditingReplyId] = useState<string | null>(null);
+  const [replyTemplateInput, setReplyTemplateInput] = useState('');
+  const [replyRecipientsInput, setReplyRecipientsInput] = useState({ replyAll: false, replyCc: '', replyBcc: '', replyAllowList: '' });
+  const [replyPreview, setReplyPreview] = useState<{ subject: string; html: string } | null>(null);
+  const [senderPolicyAgentId, setSenderPolicyAgentId] = useState<string | null>(null);
+  const [senderRules, setSenderRules] = useState<SenderRule[]>([]);
+  const [senderTestEmail, setSenderTestEmail] = useState('');
+  const [senderTestResult, setSenderTestResult] = useState<SenderTestResult | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [deliveriesAgentId, setDeliveriesAgentId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [webhookEventCatalogue, setWebhookEventCatalogue] = useState<WebhookEventInfo[]>([]);
+  const [webhookEndpoints, setWebhookEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [endpointUrlInput, setEndpointUrlInput] = useState('');
+  const [endpointKindInput, setEndpointKindInput] = useState<WebhookEndpoint['kind']>('webhook');
+  const [subscribedEvents, setSubscribedEvents] = useState<string[]>([]);
+  const [endpointSecret, setEndpointSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [selectedDelivery, setSelectedDelivery] = useState<{ id: string; payload: unknown; attempts: WebhookDeliveryAttempt[] } | null>(null);
+  const [runEvents, setRunEvents] = useState<AgentRunEvent[]>([]);
   const [formData, setFormData] = useState({
     name: '',
     githubRepository: '',
@@ -73,7 +222,12 @@ export default function DashboardPage() {
     model: 'claude-4-sonnet-thinking',
     autoCreatePr: false,
     allowedDomains: '',
-    allowedEmails: ''
+    allowedEmails: '',
+    allowedOverrides: '',
+    senderAuthentication: 'relaxed',
+    requireApproval: false,
+    approvalTtlHours: '24',
+    promptTemplate: ''
   });
 
   useEffect(() => {
@@ -83,6 +237,7 @@ export default function DashboardPage() {
       fetchEmailAgents();
       fetchAgentLogs();
       fetchCursorAgents();
+      fetchInboundJobs();
       checkDefaultKey();
     }
   }, [session, isPending, router]);
@@ -107,6 +262,7 @@ export default function DashboardPage() {
     const interval = setInterval(() => {
       fetchAgentLogs();
       fetchCursorAgents();
+      fetchInboundJobs();
     }, 5000);
     
     return () => clearInterval(interval);
@@ -138,6 +294,79 @@ export default function DashboardPage() {
     }
   };
 
+  const toggleRunHistory = async (runId: string) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    setExpandedRunId(runId);
+    setRunEvents([]);
+
+    try {
+      const response = await fetch(`/api/agent-runs/${runId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRunEvents(data.events);
+      }
+    } catch (error) {
+      console.error('Error fetching agent run:', error);
+    }
+  };
+
+  const fetchInboundJobs = async () => {
+    try {
+      const response = await fetch('/api/inbound-jobs?limit=50');
+      if (response.ok) {
+        const data = await response.json();
+        setInboundJobs(data.jobs.filter((job: InboundJob) => ['pending', 'processing', 'dead_letter', 'pending_approval'].includes(job.status)));
+      }
+    } catch (error) {
+      console.error('Error fetching inbound jobs:', error);
+    }
+  };
+
+  const retryInboundJob = async (id: string) => {
+    try {
+      const response = await fetch(`/api/inbound-jobs/${id}/retry`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        fetchInboundJobs();
+      } else {
+        const error = await response.json();
+        alert(error.error || 'Failed to retry job');
+      }
+    } catch (error) {
+      console.error('Error retrying inbound job:', error);
+      alert('Failed to retry job');
+    }
+  };
+
+  const decideInboundJob = async (id: string, decision: 'approve' | 'reject') => {
+    try {
+      const response = await fetch(`/api/inbound-jobs/${id}/approval`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ decision }),
+      });
+
+      if (response.ok) {
+        fetchInboundJobs();
+        fetchAgentLogs();
+      } else {
+        const error = await response.json();
+        alert(error.error || `Failed to ${decision} job`);
+      }
+    } catch (error) {
+      console.error('Error deciding inbound job:', error);
+      alert(`Failed to ${decision} job`);
+    }
+  };
+
   const fetchCursorAgents = async () => {
     try {
       const response = await fetch('/api/cursor-agents');
@@ -175,7 +404,11 @@ export default function DashboardPage() {
           : [],
         allowedEmails: formData.allowedEmails 
           ? formData.allowedEmails.split(',').map(e => e.trim()).filter(e => e.length > 0)
-          : []
+          : [],
+        allowedOverrides: formData.allowedOverrides
+          ? formData.allowedOverrides.split(',').map(o => o.trim()).filter(o => o.length > 0)
+          : [],
+        approvalTtlHours: parseInt(formData.approvalTtlHours) || 24
       };
 
       const response = await fetch('/api/email-agents', {
@@ -196,7 +429,12 @@ export default function DashboardPage() {
           model: 'claude-4-sonnet-thinking',
           autoCreatePr: false,
           allowedDomains: '',
-          allowedEmails: ''
+          allowedEmails: '',
+          allowedOverrides: '',
+          senderAuthentication: 'relaxed',
+          requireApproval: false,
+          approvalTtlHours: '24',
+          promptTemplate: ''
         });
         fetchEmailAgents();
         fetchAgentLogs();
@@ -248,6 +486,374 @@ export default function DashboardPage() {
     }
   };
 
+  const previewPromptTemplate = async (promptTemplate: string) => {
+    try {
+      const response = await fetch('/api/email-agents/prompt-preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ promptTemplate }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setTemplatePreview(data.prompt);
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error previewing prompt template:', error);
+      alert('Error previewing prompt template');
+    }
+  };
+
+  const startEditingTemplate = (agent: EmailAgent) => {
+    setEditingTemplateId(agent.id);
+    setTemplateInput(agent.promptTemplate || '');
+    setTemplatePreview(null);
+  };
+
+  const savePromptTemplate = async (id: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/email-agents/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ promptTemplate: templateInput || null }),
+      });
+
+      if (response.ok) {
+        setEditingTemplateId(null);
+        setTemplatePreview(null);
+        fetchEmailAgents();
+      } else {
+        const error = await response.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving prompt template:', error);
+      alert('Error saving prompt template');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startEditingReplyTemplate = (agent: EmailAgent) => {
+    setEditingReplyId(agent.id);
+    setReplyTemplateInput(agent.completionTemplate || '');
+    setReplyRecipientsInput({
+      replyAll: agent.replyAll,
+      replyCc: agent.replyCc ? (JSON.parse(agent.replyCc) as string[]).join(', ') : '',
+      replyBcc: agent.replyBcc ? (JSON.parse(agent.replyBcc) as string[]).join(', ') : '',
+      replyAllowList: agent.replyAllowList ? (JSON.parse(agent.replyAllowList) as string[]).join(', ') : ''
+    });
+    setReplyPreview(null);
+  };
+
+  const previewReplyTemplate = async () => {
+    try {
+      const response = await fetch('/api/email-agents/completion-preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completionTemplate: replyTemplateInput }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setReplyPreview({ subject: data.subject, html: data.html });
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error previewing completion template:', error);
+      alert('Error previewing completion template');
+    }
+  };
+
+  const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+  const saveReplyTemplate = async (id: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/email-agents/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          completionTemplate: replyTemplateInput || null,
+          replyAll: replyRecipientsInput.replyAll,
+          replyCc: splitList(replyRecipientsInput.replyCc),
+          replyBcc: splitList(replyRecipientsInput.replyBcc),
+          replyAllowList: splitList(replyRecipientsInput.replyAllowList)
+        }),
+      });
+
+      if (response.ok) {
+        setEditingReplyId(null);
+        setReplyPreview(null);
+        fetchEmailAgents();
+      } else {
+        const error = await response.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving completion template:', error);
+      alert('Error saving completion template');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openSenderPolicy = async (id: string) => {
+    setSenderPolicyAgentId(id);
+    setSenderRules([]);
+    setSenderTestResult(null);
+
+    try {
+      const response = await fetch(`/api/email-agents/${id}/sender-policy`);
+      if (response.ok) {
+        const data = await response.json();
+        setSenderRules(data.rules);
+      }
+    } catch (error) {
+      console.error('Error fetching sender policy:', error);
+    }
+  };
+
+  const fetchWebhookEndpoints = async (id: string) => {
+    try {
+      const response = await fetch(`/api/email-agents/${id}/webhooks`);
+      if (response.ok) {
+        const data = await response.json();
+        setWebhookEndpoints(data.endpoints);
+      }
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+    }
+  };
+
+  const openDeliveries = async (id: string) => {
+    setDeliveriesAgentId(id);
+    setSelectedDelivery(null);
+    setEndpointSecret(null);
+    setEndpointUrlInput('');
+    setEndpointKindInput('webhook');
+
+    try {
+      let catalogue = webhookEventCatalogue;
+      if (catalogue.length === 0) {
+        const eventsResponse = await fetch('/api/webhook-events');
+        if (eventsResponse.ok) {
+          catalogue = (await eventsResponse.json()).events;
+          setWebhookEventCatalogue(catalogue);
+        }
+      }
+      setSubscribedEvents(catalogue.map(event => event.type));
+
+      await fetchWebhookEndpoints(id);
+
+      const response = await fetch(`/api/email-agents/${id}/deliveries`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries);
+      }
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+    }
+  };
+
+  const toggleSubscribedEvent = (type: string) => {
+    setSubscribedEvents(subscribedEvents.includes(type)
+      ? subscribedEvents.filter(event => event !== type)
+      : [...subscribedEvents, type]);
+  };
+
+  const addWebhookEndpoint = async (id: string) => {
+    if (subscribedEvents.length === 0) {
+      alert('Select at least one event');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // No subscription list means every event
+      const allEvents = webhookEventCatalogue.every(event => subscribedEvents.includes(event.type));
+      const response = await fetch(`/api/email-agents/${id}/webhooks`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ kind: endpointKindInput, url: endpointUrlInput, events: allEvents ? null : subscribedEvents }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.secret) {
+          setEndpointSecret({ endpointId: data.endpoint.id, secret: data.secret });
+        }
+        setEndpointUrlInput('');
+        await fetchWebhookEndpoints(id);
+      } else {
+        const error = await response.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error adding webhook endpoint:', error);
+      alert('Error adding webhook endpoint');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateWebhookEndpoint = async (id: string, endpointId: string, changes: { isActive?: boolean; rotateSecret?: boolean }) => {
+    try {
+      const response = await fetch(`/api/email-agents/${id}/webhooks/${endpointId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.secret) {
+          setEndpointSecret({ endpointId, secret: data.secret });
+        }
+        await fetchWebhookEndpoints(id);
+      } else {
+        const error = await response.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error);
+      alert('Error updating webhook endpoint');
+    }
+  };
+
+  const testWebhookEndpoint = async (id: string, endpointId: string) => {
+    try {
+      const response = await fetch(`/api/email-agents/${id}/webhooks/${endpointId}/test`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ event: 'agent.completed' }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (!data.success) {
+          alert('Test delivery failed - see the attempts for the response');
+        }
+        await openDeliveries(id);
+        await inspectDelivery(data.delivery.id);
+      } else {
+        const error = await response.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error testing webhook endpoint:', error);
+      alert('Error testing webhook endpoint');
+    }
+  };
+
+  const selectEndpointKind = (kind: WebhookEndpoint['kind']) => {
+    setEndpointKindInput(kind);
+    // Chat endpoints default to launches, rejections, completions and failures
+    setSubscribedEvents(kind === 'webhook'
+      ? webhookEventCatalogue.map(event => event.type)
+      : ['agent.created', 'email.rejected', 'agent.completed', 'agent.failed']);
+  };
+
+  const deleteWebhookEndpoint = async (id: string, endpointId: string) => {
+    if (!confirm('Delete this endpoint and its delivery history?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/email-agents/${id}/webhooks/${endpointId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await openDeliveries(id);
+      } else {
+        const error = await response.json();
+        alert(`Error: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      alert('Error deleting webhook endpoint');
+    }
+  };
+
+  const inspectDelivery = async (id: string) => {
+    try {
+      const response = await fetch(`/api/webhook-deliveries/${id}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedDelivery({ id, payload: data.delivery.payload, attempts: data.attempts });
+      }
+    } catch (error) {
+      console.error('Error fetching webhook delivery:', error);
+    }
+  };
+
+  const redeliverWebhook = async (agentId: string, id: string) => {
+    try {
+      const response = await fetch(`/api/webhook-deliveries/${id}/redeliver`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (!data.success) {
+          alert('Redelivery failed - see the attempts for the response');
+        }
+        await openDeliveries(agentId);
+        await inspectDelivery(id);
+      } else {
+        const error = await response.json();
+        alert(error.error || 'Failed to redeliver webhook');
+      }
+    } catch (error) {
+      console.error('Error redelivering webhook:', error);
+      alert('Failed to redeliver webhook');
+    }
+  };
+
+  const testSender = async (id: string) => {
+    try {
+      const response = await fetch(`/api/email-agents/${id}/sender-policy/test`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ senderEmail: senderTestEmail }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSenderTestResult(data);
+      } else {
+        alert(data.error || 'Failed to test sender');
+      }
+    } catch (error) {
+      console.error('Error testing sender:', error);
+      alert('Error testing sender');
+    }
+  };
+
   const copyEmailAddress = async (emailAddress: string) => {
     try {
       await navigator.clipboard.writeText(emailAddress);
@@ -593,7 +1199,7 @@ export default function DashboardPage() {
                         placeholder="@company.com, @gmail.com"
                       />
                       <p className="text-xs text-muted-foreground">
-                        Comma-separated domains. Leave blank to allow all.
+                        Comma-separated domains, matched exactly. Use <code>*.company.com</code> for subdomains. Leave blank to allow all.
                       </p>
                     </div>
                     <div className="space-y-2">
@@ -610,6 +1216,62 @@ export default function DashboardPage() {
                       </p>
                     </div>
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="senderAuthentication">Sender Authentication</Label>
+                    <select
+                      id="senderAuthentication"
+                      value={formData.senderAuthentication}
+                      onChange={(e) => setFormData({ ...formData, senderAuthentication: e.target.value })}
+                      className="w-full p-2 border border-input bg-background text-foreground rounded-md"
+                    >
+                      <option value="relaxed">Relaxed - SPF or DKIM must pass, DMARC must not fail</option>
+                      <option value="strict">Strict - SPF, DKIM and DMARC must all pass</option>
+                      <option value="off">Off - trust the From header</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      Checked for every sender, so spoofed senders can&apos;t get through.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="allowedOverrides">Allowed Subject Overrides (optional)</Label>
+                    <Input
+                      id="allowedOverrides"
+                      type="text"
+                      value={formData.allowedOverrides}
+                      onChange={(e) => setFormData({ ...formData, allowedOverrides: e.target.value })}
+                      placeholder="model, ref, branch, pr"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Lets senders use tags like <code>[model:gpt-5] [ref:release/2.1] [pr]</code> in the subject. Use <code>ref:main</code> to allow a single value.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="promptTemplate">Prompt Template (optional)</Label>
+                    <textarea
+                      id="promptTemplate"
+                      value={formData.promptTemplate}
+                      onChange={(e) => setFormData({ ...formData, promptTemplate: e.target.value })}
+                      placeholder="Leave blank to use the default prompt"
+                      rows={6}
+                      className="w-full p-2 border border-input bg-background text-foreground rounded-md font-mono text-xs"
+                    />
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-muted-foreground">
+                        Placeholders: <code>{'{{subject}}'}</code>, <code>{'{{body}}'}</code>, <code>{'{{sender}}'}</code>, <code>{'{{attachments}}'}</code>, <code>{'{{date}}'}</code>
+                      </p>
+                      <Button
+                        type="button"
+                        onClick={() => previewPromptTemplate(formData.promptTemplate)}
+                        variant="secondary"
+                        size="sm"
+                      >
+                        Preview
+                      </Button>
+                    </div>
+                    {templatePreview && !editingTemplateId && (
+                      <pre className="p-3 border rounded-md bg-muted text-xs whitespace-pre-wrap max-h-64 overflow-y-auto">{templatePreview}</pre>
+                    )}
+                  </div>
                   <div className="flex items-center space-x-2">
                     <input
                       id="autoCreatePr"
@@ -620,6 +1282,31 @@ export default function DashboardPage() {
                     />
                     <Label htmlFor="autoCreatePr">Auto-create Pull Requests</Label>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      id="requireApproval"
+                      type="checkbox"
+                      checked={formData.requireApproval}
+                      onChange={(e) => setFormData({ ...formData, requireApproval: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    <Label htmlFor="requireApproval">Require my approval before launching</Label>
+                  </div>
+                  {formData.requireApproval && (
+                    <div className="space-y-2">
+                      <Label htmlFor="approvalTtlHours">Approval Expires After (hours)</Label>
+                      <Input
+                        id="approvalTtlHours"
+                        type="number"
+                        min={1}
+                        value={formData.approvalTtlHours}
+                        onChange={(e) => setFormData({ ...formData, approvalTtlHours: e.target.value })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        You&apos;ll get an email for every request. Requests you don&apos;t approve in time expire, and the sender is told.
+                      </p>
+                    </div>
+                  )}
                   <Button variant="primary" type="submit" disabled={isLoading} className="w-full">
                     {isLoading ? 'Creating Email Agent...' : 'Create Email Agent'}
                   </Button>
@@ -634,6 +1321,34 @@ export default function DashboardPage() {
                       <h3 className="font-semibold text-lg">{agent.name}</h3>
                       <div className="flex items-center space-x-2">
                         <span className={`w-2 h-2 rounded-full ${agent.isActive ? 'bg-green-500' : 'bg-gray-400'}`}></span>
+                        <Button
+                          onClick={() => startEditingTemplate(agent)}
+                          variant="secondary"
+                          size="sm"
+                        >
+                          Prompt
+                        </Button>
+                        <Button
+                          onClick={() => startEditingReplyTemplate(agent)}
+                          variant="secondary"
+                          size="sm"
+                        >
+                          Reply
+                        </Button>
+                        <Button
+                          onClick={() => openSenderPolicy(agent.id)}
+                          variant="secondary"
+                          size="sm"
+                        >
+                          Senders
+                        </Button>
+                        <Button
+                          onClick={() => openDeliveries(agent.id)}
+                          variant="secondary"
+                          size="sm"
+                        >
+                          Webhooks
+                        </Button>
                         <Button
                           onClick={() => toggleEmailAgentStatus(agent.id, agent.isActive)}
                           variant="secondary"
@@ -676,7 +1391,335 @@ export default function DashboardPage() {
                           <span>Auto PR</span>
                         </>
                       )}
+                      {agent.promptTemplate && (
+                        <>
+                          <span>•</span>
+                          <span>Custom prompt</span>
+                        </>
+                      )}
+                      {agent.requireApproval && (
+                        <>
+                          <span>•</span>
+                          <span>Approval required ({agent.approvalTtlHours}h)</span>
+                        </>
+                      )}
+                      {agent.replyAll && (
+                        <>
+                          <span>•</span>
+                          <span>Reply all</span>
+                        </>
+                      )}
+                      {agent.senderRuleCount > 0 && (
+                        <>
+                          <span>•</span>
+                          <span>{agent.senderRuleCount} sender rule{agent.senderRuleCount === 1 ? '' : 's'} (auth: {agent.senderAuthentication})</span>
+                        </>
+                      )}
                     </div>
+
+                    {editingTemplateId === agent.id && (
+                      <div className="space-y-3 mt-4 p-3 border rounded-lg bg-card">
+                        <Label htmlFor={`promptTemplate-${agent.id}`}>Prompt Template</Label>
+                        <textarea
+                          id={`promptTemplate-${agent.id}`}
+                          value={templateInput}
+                          onChange={(e) => setTemplateInput(e.target.value)}
+                          placeholder="Leave blank to use the default prompt"
+                          rows={8}
+                          className="w-full p-2 border border-input bg-background text-foreground rounded-md font-mono text-xs"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Placeholders: <code>{'{{subject}}'}</code>, <code>{'{{body}}'}</code>, <code>{'{{sender}}'}</code>, <code>{'{{attachments}}'}</code>, <code>{'{{date}}'}</code>
+                        </p>
+                        {templatePreview && (
+                          <pre className="p-3 border rounded-md bg-muted text-xs whitespace-pre-wrap max-h-64 overflow-y-auto">{templatePreview}</pre>
+                        )}
+                        <div className="flex space-x-2">
+                          <Button onClick={() => savePromptTemplate(agent.id)} disabled={isLoading} size="sm">
+                            {isLoading ? 'Saving...' : 'Save'}
+                          </Button>
+                          <Button onClick={() => previewPromptTemplate(templateInput)} variant="secondary" size="sm">
+                            Preview
+                          </Button>
+                          <Button
+                            onClick={() => {
+                              setEditingTemplateId(null);
+                              setTemplatePreview(null);
+                            }}
+                            variant="secondary"
+                            size="sm"
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {editingReplyId === agent.id && (
+                      <div className="space-y-3 mt-4 p-3 border rounded-lg bg-card">
+                        <Label htmlFor={`completionTemplate-${agent.id}`}>Completion Reply</Label>
+                        <textarea
+                          id={`completionTemplate-${agent.id}`}
+                          value={replyTemplateInput}
+                          onChange={(e) => setReplyTemplateInput(e.target.value)}
+                          placeholder="Leave blank to use the default reply"
+                          rows={8}
+                          className="w-full p-2 border border-input bg-background text-foreground rounded-md font-mono text-xs"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Markdown. Placeholders: <code>{'{{subject}}'}</code>, <code>{'{{summary}}'}</code>, <code>{'{{prUrl}}'}</code>, <code>{'{{branch}}'}</code>, <code>{'{{filesChanged}}'}</code>, <code>{'{{repository}}'}</code>, <code>{'{{agentUrl}}'}</code>, <code>{'{{agentId}}'}</code>, <code>{'{{date}}'}</code>. Lines with only empty placeholders are left out.
+                        </p>
+                        <div className="space-y-2">
+                          <div className="flex items-center space-x-2">
+                            <input
+                              id={`replyAll-${agent.id}`}
+                              type="checkbox"
+                              checked={replyRecipientsInput.replyAll}
+                              onChange={(e) => setReplyRecipientsInput({ ...replyRecipientsInput, replyAll: e.target.checked })}
+                              className="w-4 h-4"
+                            />
+                            <Label htmlFor={`replyAll-${agent.id}`}>Reply all - copy the original To and CC recipients</Label>
+                          </div>
+                          <Input
+                            value={replyRecipientsInput.replyCc}
+                            onChange={(e) => setReplyRecipientsInput({ ...replyRecipientsInput, replyCc: e.target.value })}
+                            placeholder="Always CC: lead@company.com, qa@company.com"
+                          />
+                          <Input
+                            value={replyRecipientsInput.replyBcc}
+                            onChange={(e) => setReplyRecipientsInput({ ...replyRecipientsInput, replyBcc: e.target.value })}
+                            placeholder="Always BCC: audit@company.com"
+                          />
+                          <Input
+                            value={replyRecipientsInput.replyAllowList}
+                            onChange={(e) => setReplyRecipientsInput({ ...replyRecipientsInput, replyAllowList: e.target.value })}
+                            placeholder="Allowed recipients: company.com, *.company.com, partner@example.com"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Copies only go to addresses on the allow-list - leave it empty and replies go to the sender alone. The agent&apos;s own address is never copied.
+                          </p>
+                        </div>
+                        {replyPreview && (
+                          <div className="border rounded-md">
+                            <p className="p-2 border-b text-xs font-medium">{replyPreview.subject}</p>
+                            <iframe srcDoc={replyPreview.html} sandbox="" className="w-full h-64 bg-white" title="Reply preview" />
+                          </div>
+                        )}
+                        <div className="flex space-x-2">
+                          <Button onClick={() => saveReplyTemplate(agent.id)} disabled={isLoading} size="sm">
+                            {isLoading ? 'Saving...' : 'Save'}
+                          </Button>
+                          <Button onClick={previewReplyTemplate} variant="secondary" size="sm">
+                            Preview
+                          </Button>
+                          <Button
+                            onClick={() => {
+                              setEditingReplyId(null);
+                              setReplyPreview(null);
+                            }}
+                            variant="secondary"
+                            size="sm"
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {senderPolicyAgentId === agent.id && (
+                      <div className="space-y-3 mt-4 p-3 border rounded-lg bg-card">
+                        <Label>Sender Rules</Label>
+                        {senderRules.length > 0 ? (
+                          <div className="space-y-1 text-sm">
+                            {senderRules.map((rule) => (
+                              <p key={rule.id}>
+                                <span className={rule.effect === 'allow' ? 'text-green-700' : 'text-red-600'}>{rule.effect}</span>{' '}
+                                <code>{rule.pattern}</code>
+                                {rule.allowedRepositories && (
+                                  <span className="text-muted-foreground"> • repos: {(JSON.parse(rule.allowedRepositories) as string[]).map(repo => repo.replace('https://github.com/', '')).join(', ')}</span>
+                                )}
+                                {!rule.allowAutoPr && <span className="text-muted-foreground"> • no auto-PR</span>}
+                              </p>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">No sender rules - anyone can email this agent.</p>
+                        )}
+                        <div className="flex space-x-2">
+                          <Input
+                            type="email"
+                            value={senderTestEmail}
+                            onChange={(e) => setSenderTestEmail(e.target.value)}
+                            placeholder="someone@company.com"
+                          />
+                          <Button onClick={() => testSender(agent.id)} disabled={!senderTestEmail} size="sm">
+                            Test sender
+                          </Button>
+                          <Button
+                            onClick={() => {
+                              setSenderPolicyAgentId(null);
+                              setSenderTestResult(null);
+                            }}
+                            variant="secondary"
+                            size="sm"
+                          >
+                            Close
+                          </Button>
+                        </div>
+                        {senderTestResult && (
+                          <p className={`text-sm ${senderTestResult.allowed ? 'text-green-700' : 'text-red-600'}`}>
+                            {senderTestResult.allowed ? '✅' : '🚫'} {senderTestResult.senderEmail}: {senderTestResult.reason}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {deliveriesAgentId === agent.id && (
+                      <div className="space-y-3 mt-4 p-3 border rounded-lg bg-card">
+                        <div className="flex items-center justify-between">
+                          <Label>Webhooks</Label>
+                          <Button
+                            onClick={() => {
+                              setDeliveriesAgentId(null);
+                              setSelectedDelivery(null);
+                            }}
+                            variant="secondary"
+                            size="sm"
+                          >
+                            Close
+                          </Button>
+                        </div>
+                        <div className="space-y-2">
+                          {webhookEndpoints.map((endpoint) => (
+                            <div key={endpoint.id} className="text-sm">
+                              <div className="flex items-center justify-between">
+                                <div className={endpoint.isActive ? '' : 'text-muted-foreground'}>
+                                  {endpoint.kind !== 'webhook' && <span className="capitalize">{endpoint.kind}: </span>}
+                                  <code className="break-all">{endpoint.url}</code>
+                                  <span className="text-muted-foreground">
+                                    {' '}• {endpoint.events ? (JSON.parse(endpoint.events) as string[]).join(', ') : 'all events'}
+                                    {!endpoint.hasSecret && endpoint.kind === 'webhook' && ' • unsigned'}
+                                    {!endpoint.isActive && ' • paused'}
+                                  </span>
+                                </div>
+                                <div className="flex space-x-2">
+                                  <Button onClick={() => testWebhookEndpoint(agent.id, endpoint.id)} variant="secondary" size="sm">
+                                    Test
+                                  </Button>
+                                  <Button onClick={() => updateWebhookEndpoint(agent.id, endpoint.id, { isActive: !endpoint.isActive })} variant="secondary" size="sm">
+                                    {endpoint.isActive ? 'Pause' : 'Resume'}
+                                  </Button>
+                                  {endpoint.kind === 'webhook' && (
+                                    <Button onClick={() => updateWebhookEndpoint(agent.id, endpoint.id, { rotateSecret: true })} variant="secondary" size="sm">
+                                      Rotate Secret
+                                    </Button>
+                                  )}
+                                  <Button onClick={() => deleteWebhookEndpoint(agent.id, endpoint.id)} variant="destructive" size="sm">
+                                    Delete
+                                  </Button>
+                                </div>
+                              </div>
+                              {endpointSecret?.endpointId === endpoint.id && (
+                                <p className="text-xs mt-1">
+                                  Signing secret (shown once): <code className="break-all">{endpointSecret.secret}</code>
+                                </p>
+                              )}
+                            </div>
+                          ))}
+                          {webhookEndpoints.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No webhook endpoints yet.</p>
+                          )}
+                          <div className="space-y-2 pt-2 border-t">
+                            <div className="flex space-x-2">
+                              <select
+                                value={endpointKindInput}
+                                onChange={(e) => selectEndpointKind(e.target.value as WebhookEndpoint['kind'])}
+                                className="p-2 border border-input bg-background text-foreground rounded-md text-sm"
+                              >
+                                <option value="webhook">Webhook (JSON)</option>
+                                <option value="slack">Slack</option>
+                                <option value="discord">Discord</option>
+                              </select>
+                              <Input
+                                value={endpointUrlInput}
+                                onChange={(e) => setEndpointUrlInput(e.target.value)}
+                                placeholder={
+                                  endpointKindInput === 'slack' ? 'https://hooks.slack.com/services/...' :
+                                  endpointKindInput === 'discord' ? 'https://discord.com/api/webhooks/...' :
+                                  'https://example.com/webhooks/agents'
+                                }
+                              />
+                            </div>
+                            <div className="grid grid-cols-2 gap-1 text-sm">
+                              {webhookEventCatalogue.map((event) => (
+                                <label key={event.type} className="flex items-center space-x-2" title={event.description}>
+                                  <input
+                                    type="checkbox"
+                                    checked={subscribedEvents.includes(event.type)}
+                                    onChange={() => toggleSubscribedEvent(event.type)}
+                                    className="w-4 h-4"
+                                  />
+                                  <code>{event.type}</code>
+                                </label>
+                              ))}
+                            </div>
+                            <Button onClick={() => addWebhookEndpoint(agent.id)} disabled={isLoading || !endpointUrlInput} size="sm">
+                              Add Endpoint
+                            </Button>
+                          </div>
+                        </div>
+                        {deliveries.length > 0 ? (
+                          <div className="space-y-2 text-sm">
+                            {deliveries.map((delivery) => (
+                              <div key={delivery.id}>
+                                <div className="flex items-center justify-between">
+                                  <div>
+                                    <span className={
+                                      delivery.status === 'delivered' ? 'text-green-700' :
+                                      delivery.status === 'pending' ? 'text-yellow-700' : 'text-red-600'
+                                    }>{delivery.status}</span>{' '}
+                                    <code>{delivery.event}</code>
+                                    <span className="text-muted-foreground">
+                                      {' '}• {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'} • {new Date(delivery.createdAt).toLocaleString()}
+                                      {delivery.status === 'pending' && delivery.nextAttemptAt && ` • next try ${new Date(delivery.nextAttemptAt).toLocaleString()}`}
+                                    </span>
+                                  </div>
+                                  <div className="flex space-x-2">
+                                    <Button onClick={() => inspectDelivery(delivery.id)} variant="secondary" size="sm">
+                                      Inspect
+                                    </Button>
+                                    <Button onClick={() => redeliverWebhook(agent.id, delivery.id)} size="sm">
+                                      Redeliver
+                                    </Button>
+                                  </div>
+                                </div>
+                                {selectedDelivery?.id === delivery.id && (
+                                  <div className="mt-2 space-y-2">
+                                    <p className="text-xs text-muted-foreground break-all">{delivery.url}</p>
+                                    <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">{JSON.stringify(selectedDelivery.payload, null, 2)}</pre>
+                                    <div className="text-xs space-y-1">
+                                      {selectedDelivery.attempts.map((attempt) => (
+                                        <div key={attempt.id}>
+                                          <p>
+                                            #{attempt.attempt} ({attempt.trigger}) • {new Date(attempt.createdAt).toLocaleString()} •{' '}
+                                            {attempt.responseStatus !== null ? `HTTP ${attempt.responseStatus}` : attempt.error} • {attempt.durationMs}ms
+                                          </p>
+                                          {attempt.responseBody && (
+                                            <pre className="bg-muted p-2 rounded overflow-x-auto whitespace-pre-wrap">{attempt.responseBody}</pre>
+                                          )}
+                                        </div>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">No webhook deliveries yet.</p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
                 {emailAgents.length === 0 && (
@@ -764,6 +1807,92 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
 
+          {/* Inbound Queue */}
+          <Card id="inbound-jobs">
+            <CardHeader>
+              <CardTitle>Inbound Queue</CardTitle>
+              <CardDescription>Emails waiting for approval or to launch an agent, retrying, or dead-lettered after repeated failures</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3 max-h-96 overflow-y-auto">
+                {inboundJobs.map((job) => (
+                  <div key={job.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className={`w-2 h-2 rounded-full ${
+                          job.status === 'dead_letter' ? 'bg-red-500' :
+                          job.status === 'processing' ? 'bg-blue-500' :
+                          job.status === 'pending_approval' ? 'bg-purple-500' : 'bg-yellow-500'
+                        }`}></span>
+                        <span className="font-medium text-sm">{job.agentName || 'Unknown Agent'}</span>
+                        <span className="text-xs text-muted-foreground">•</span>
+                        <span className="text-xs text-muted-foreground">{job.senderEmail}</span>
+                      </div>
+                      {job.emailSubject && (
+                        <p className="text-sm text-muted-foreground mb-1">{job.emailSubject}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {job.status === 'pending_approval' && job.approvalExpiresAt
+                          ? `Waiting for approval until ${new Date(job.approvalExpiresAt).toLocaleString()}`
+                          : `Attempt ${job.attempts}/${job.maxAttempts}`}
+                        {job.status === 'pending' && job.attempts > 0 && ` • next retry ${new Date(job.nextRunAt).toLocaleString()}`}
+                      </p>
+                      {job.lastError && (
+                        <p className="text-xs text-red-600">{job.lastError}</p>
+                      )}
+                    </div>
+                    <div className="text-right space-y-1">
+                      <span className={`px-2 py-1 rounded-full text-xs ${
+                        job.status === 'dead_letter' ? 'bg-red-100 text-red-800' :
+                        job.status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                        job.status === 'pending_approval' ? 'bg-purple-100 text-purple-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {job.status === 'dead_letter' ? 'dead letter' : job.status === 'pending_approval' ? 'needs approval' : job.status}
+                      </span>
+                      {job.status === 'pending_approval' && (
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="primary"
+                            size="sm"
+                            onClick={() => decideInboundJob(job.id, 'approve')}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => decideInboundJob(job.id, 'reject')}
+                          >
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                      {job.status === 'dead_letter' && (
+                        <div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryInboundJob(job.id)}
+                          >
+                            Retry
+                          </Button>
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {new Date(job.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+                {inboundJobs.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>The queue is empty.</p>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Logs */}
           <Card id="agent-logs">
             <CardHeader>
@@ -778,6 +1907,7 @@ export default function DashboardPage() {
                       <div className="flex items-center space-x-2 mb-1">
                         <span className={`w-2 h-2 rounded-full ${
                           log.status === 'success' ? 'bg-green-500' : 
+                          log.status === 'followup' || log.status === 'launching' ? 'bg-blue-500' :
                           log.status === 'rejected' ? 'bg-yellow-500' : 'bg-red-500'
                         }`}></span>
                         <span className="font-medium text-sm">{log.agentName || 'Unknown Agent'}</span>
@@ -793,14 +1923,72 @@ export default function DashboardPage() {
                       {log.cursorAgentId && (
                         <p className="text-xs text-blue-600">Agent ID: {log.cursorAgentId}</p>
                       )}
+                      {log.routing && (() => {
+                        const routing = JSON.parse(log.routing) as LaunchRouting;
+                        return routing.reason !== 'agent' && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            🧭 {routing.targetName} ({routing.repository.replace('https://github.com/', '')})
+                            {routing.ruleName ? ` via rule "${routing.ruleName}"` : ' via default target'}
+                          </p>
+                        );
+                      })()}
+                      {log.overrides && (() => {
+                        const overrides = JSON.parse(log.overrides) as LaunchOverrides;
+                        return (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {Object.entries(overrides.overrides).map(([key, value]) => (
+                              <p key={key}>⚙️ {key}: {String(value)}</p>
+                            ))}
+                            {overrides.rejected.map((rejected, index) => (
+                              <p key={index} className="text-yellow-700">🚫 {rejected.tag}: {rejected.reason}</p>
+                            ))}
+                          </div>
+                        );
+                      })()}
+                      {log.attachments && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {(JSON.parse(log.attachments) as AttachmentReportEntry[]).map((attachment, index) => (
+                            <p key={index}>
+                              📎 {attachment.filename}: {attachment.status}
+                              {attachment.reason && ` (${attachment.reason})`}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      {log.prUrl && (
+                        <a href={log.prUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:underline">
+                          🔗 {log.prUrl.replace('https://github.com/', '')}
+                        </a>
+                      )}
+                      {expandedRunId === log.runId && (
+                        <div className="text-xs text-muted-foreground mt-2 border-l-2 pl-2 space-y-1">
+                          {runEvents.map((event, index) => (
+                            <p key={index}>
+                              {new Date(event.createdAt).toLocaleString()}: {event.fromStatus ? `${event.fromStatus} → ` : ''}{event.toStatus}
+                              {' '}({event.source}){event.message && ` - ${event.message}`}
+                            </p>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     <div className="text-right">
                       <span className={`px-2 py-1 rounded-full text-xs ${
                         log.status === 'success' ? 'bg-green-100 text-green-800' : 
+                        log.status === 'followup' || log.status === 'launching' ? 'bg-blue-100 text-blue-800' :
                         log.status === 'rejected' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'
                       }`}>
                         {log.status}
                       </span>
+                      {log.runId && log.runStatus && (
+                        <button
+                          type="button"
+                          onClick={() => toggleRunHistory(log.runId!)}
+                          title={log.runStatusMessage || 'Show run history'}
+                          className={`ml-1 px-2 py-1 rounded-full text-xs ${RUN_STATUS_STYLES[log.runStatus]}`}
+                        >
+                          {log.runStatus}
+                        </button>
+                      )}
                       <p className="text-xs text-muted-foreground mt-1">
                         {new Date(log.createdAt).toLocaleString()}
                       </p>
@@ -8,6 +8,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
+// Where to go after signing in - only paths on this site, like an MCP authorization waiting for sign-in
+function getCallbackURL(): string {
+  const callbackURL = new URLSearchParams(window.location.search).get("callbackURL");
+  return callbackURL && callbackURL.startsWith("/") && !callbackURL.startsWith("//") ? callbackURL : "/dashboard";
+}
+
 export default function SignInPage() {
   const router = useRouter();
   const [email, setEmail] = useState("");
@@ -21,7 +27,7 @@ export default function SignInPage() {
       setError("");
       const { error } = await authClient.signIn.social({
         provider: "github",
-        callbackURL: "/dashboard",
+        callbackURL: getCallbackURL(),
       });
       if (error) {
         throw new Error(error.message || "Failed to sign in with GitHub");
@@ -50,7 +56,7 @@ export default function SignInPage() {
       
       const { data, error } = await authClient.signIn.magicLink({
         email: email.trim(),
-        callbackURL: "/dashboard",
+        callbackURL: getCallbackURL(),
       });
 
       if (error) {
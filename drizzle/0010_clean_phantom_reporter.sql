@@ -0,0 +1 @@
+ALTER TABLE "agent_launch_log" ADD COLUMN "attachments" text;
\ No newline at end of file
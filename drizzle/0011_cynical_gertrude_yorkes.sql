@@ -0,0 +1,2 @@
+ALTER TABLE "cursor_agent_mapping" ADD COLUMN "original_message_id" text;--> statement-breakpoint
+ALTER TABLE "cursor_agent_mapping" ADD COLUMN "reply_message_id" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "email_agent" ADD COLUMN "prompt_template" text;
\ No newline at end of file
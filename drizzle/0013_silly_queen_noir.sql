@@ -0,0 +1,2 @@
+ALTER TABLE "agent_launch_log" ADD COLUMN "overrides" text;--> statement-breakpoint
+ALTER TABLE "email_agent" ADD COLUMN "allowed_overrides" text;
\ No newline at end of file
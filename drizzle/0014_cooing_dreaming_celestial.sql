@@ -0,0 +1,29 @@
+CREATE TABLE "email_agent_routing_rule" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email_agent_id" text NOT NULL,
+	"target_id" text NOT NULL,
+	"name" text NOT NULL,
+	"priority" integer NOT NULL,
+	"match_type" text NOT NULL,
+	"pattern" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "email_agent_target" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email_agent_id" text NOT NULL,
+	"name" text NOT NULL,
+	"github_repository" text NOT NULL,
+	"github_ref" text NOT NULL,
+	"model" text,
+	"auto_create_pr" boolean NOT NULL,
+	"branch_name" text,
+	"is_default" boolean NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "agent_launch_log" ADD COLUMN "routing" text;--> statement-breakpoint
+ALTER TABLE "email_agent_routing_rule" ADD CONSTRAINT "email_agent_routing_rule_email_agent_id_email_agent_id_fk" FOREIGN KEY ("email_agent_id") REFERENCES "public"."email_agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "email_agent_routing_rule" ADD CONSTRAINT "email_agent_routing_rule_target_id_email_agent_target_id_fk" FOREIGN KEY ("target_id") REFERENCES "public"."email_agent_target"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "email_agent_target" ADD CONSTRAINT "email_agent_target_email_agent_id_email_agent_id_fk" FOREIGN KEY ("email_agent_id") REFERENCES "public"."email_agent"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "inbound_job" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email_agent_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"inbound_email_id" text NOT NULL,
+	"sender_email" text NOT NULL,
+	"email_subject" text,
+	"payload" text NOT NULL,
+	"status" text NOT NULL,
+	"attempts" integer NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"locked_at" timestamp,
+	"last_error" text,
+	"result" text,
+	"completed_at" timestamp,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inbound_job" ADD CONSTRAINT "inbound_job_email_agent_id_email_agent_id_fk" FOREIGN KEY ("email_agent_id") REFERENCES "public"."email_agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inbound_job" ADD CONSTRAINT "inbound_job_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
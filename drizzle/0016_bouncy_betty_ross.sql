@@ -0,0 +1,2 @@
+ALTER TABLE "agent_launch_log" ADD COLUMN "inbound_email_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "inbound_job_email_agent_id_inbound_email_id_idx" ON "inbound_job" USING btree ("email_agent_id","inbound_email_id");
\ No newline at end of file
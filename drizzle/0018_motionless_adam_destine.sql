@@ -0,0 +1 @@
+ALTER TABLE "email_agent" ADD COLUMN "sender_authentication" text DEFAULT 'relaxed' NOT NULL;
\ No newline at end of file
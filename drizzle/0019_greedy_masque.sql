@@ -0,0 +1,23 @@
+CREATE TABLE "sender_policy_rule" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email_agent_id" text NOT NULL,
+	"effect" text NOT NULL,
+	"pattern" text NOT NULL,
+	"priority" integer NOT NULL,
+	"allowed_repositories" text,
+	"allow_auto_pr" boolean NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sender_policy_rule" ADD CONSTRAINT "sender_policy_rule_email_agent_id_email_agent_id_fk" FOREIGN KEY ("email_agent_id") REFERENCES "public"."email_agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Convert the old allow-lists into allow rules (domains now match exactly instead of by suffix)
+INSERT INTO "sender_policy_rule" ("id", "email_agent_id", "effect", "pattern", "priority", "allow_auto_pr", "created_at")
+SELECT md5(random()::text || clock_timestamp()::text), "email_agent"."id", 'allow', lower(trim("entry"."value")), 0, true, now()
+FROM "email_agent", json_array_elements_text("email_agent"."allowed_emails"::json) AS "entry"("value")
+WHERE "email_agent"."allowed_emails" IS NOT NULL AND trim("entry"."value") <> '';--> statement-breakpoint
+INSERT INTO "sender_policy_rule" ("id", "email_agent_id", "effect", "pattern", "priority", "allow_auto_pr", "created_at")
+SELECT md5(random()::text || clock_timestamp()::text), "email_agent"."id", 'allow', lower(trim("entry"."value")), 0, true, now()
+FROM "email_agent", json_array_elements_text("email_agent"."allowed_domains"::json) AS "entry"("value")
+WHERE "email_agent"."allowed_domains" IS NOT NULL AND trim("entry"."value") <> '';--> statement-breakpoint
+ALTER TABLE "email_agent" DROP COLUMN "allowed_domains";--> statement-breakpoint
+ALTER TABLE "email_agent" DROP COLUMN "allowed_emails";
\ No newline at end of file
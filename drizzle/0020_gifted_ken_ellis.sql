@@ -0,0 +1,6 @@
+ALTER TABLE "email_agent" ADD COLUMN "require_approval" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "email_agent" ADD COLUMN "approval_ttl_hours" integer DEFAULT 24 NOT NULL;--> statement-breakpoint
+ALTER TABLE "inbound_job" ADD COLUMN "approval_token" text;--> statement-breakpoint
+ALTER TABLE "inbound_job" ADD COLUMN "approval_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "inbound_job" ADD COLUMN "approved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "inbound_job" ADD CONSTRAINT "inbound_job_approval_token_unique" UNIQUE("approval_token");
\ No newline at end of file
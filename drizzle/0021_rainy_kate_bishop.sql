@@ -0,0 +1,3 @@
+ALTER TABLE "cursor_agent_mapping" ADD COLUMN "original_subject" text;--> statement-breakpoint
+ALTER TABLE "email_agent" ADD COLUMN "completion_template" text;--> statement-breakpoint
+UPDATE "cursor_agent_mapping" SET "original_subject" = "agent_launch_log"."email_subject" FROM "agent_launch_log" WHERE "agent_launch_log"."cursor_agent_id" = "cursor_agent_mapping"."cursor_agent_id" AND "agent_launch_log"."status" = 'success';
\ No newline at end of file
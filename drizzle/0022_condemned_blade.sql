@@ -0,0 +1,43 @@
+CREATE TABLE "agent_run" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"email_agent_id" text,
+	"inbound_job_id" text,
+	"inbound_email_id" text,
+	"launch_log_id" text,
+	"cursor_agent_id" text,
+	"sender_email" text NOT NULL,
+	"email_subject" text,
+	"status" text NOT NULL,
+	"status_message" text,
+	"repository" text,
+	"branch_name" text,
+	"pr_url" text,
+	"summary" text,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	"finished_at" timestamp,
+	CONSTRAINT "agent_run_inbound_job_id_unique" UNIQUE("inbound_job_id")
+);
+--> statement-breakpoint
+CREATE TABLE "agent_run_event" (
+	"id" text PRIMARY KEY NOT NULL,
+	"run_id" text NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"source" text NOT NULL,
+	"message" text,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "agent_run" ADD CONSTRAINT "agent_run_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_run" ADD CONSTRAINT "agent_run_email_agent_id_email_agent_id_fk" FOREIGN KEY ("email_agent_id") REFERENCES "public"."email_agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_run" ADD CONSTRAINT "agent_run_inbound_job_id_inbound_job_id_fk" FOREIGN KEY ("inbound_job_id") REFERENCES "public"."inbound_job"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_run" ADD CONSTRAINT "agent_run_launch_log_id_agent_launch_log_id_fk" FOREIGN KEY ("launch_log_id") REFERENCES "public"."agent_launch_log"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agent_run_event" ADD CONSTRAINT "agent_run_event_run_id_agent_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."agent_run"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "agent_run_cursor_agent_id_idx" ON "agent_run" USING btree ("cursor_agent_id");--> statement-breakpoint
+CREATE INDEX "agent_run_user_id_status_idx" ON "agent_run" USING btree ("user_id","status");--> statement-breakpoint
+CREATE INDEX "agent_run_event_run_id_idx" ON "agent_run_event" USING btree ("run_id");;--> statement-breakpoint
+INSERT INTO "agent_run" ("id", "user_id", "email_agent_id", "inbound_email_id", "launch_log_id", "cursor_agent_id", "sender_email", "email_subject", "status", "status_message", "created_at", "updated_at") SELECT 'run_' || "id", "user_id", "email_agent_id", "inbound_email_id", "id", "cursor_agent_id", "sender_email", "email_subject", 'running', 'Imported from the launch log', "created_at", now() FROM "agent_launch_log" WHERE "cursor_agent_id" IS NOT NULL AND "status" IN ('success', 'followup');--> statement-breakpoint
+INSERT INTO "agent_run" ("id", "user_id", "email_agent_id", "inbound_job_id", "inbound_email_id", "sender_email", "email_subject", "status", "status_message", "created_at", "updated_at") SELECT 'run_' || "id", "user_id", "email_agent_id", "id", "inbound_email_id", "sender_email", "email_subject", 'queued', 'Imported from the inbound queue', "created_at", now() FROM "inbound_job" WHERE "status" IN ('pending', 'processing', 'pending_approval');--> statement-breakpoint
+INSERT INTO "agent_run_event" ("id", "run_id", "from_status", "to_status", "source", "message", "created_at") SELECT "id", "id", NULL, "status", 'manual', "status_message", now() FROM "agent_run";
\ No newline at end of file
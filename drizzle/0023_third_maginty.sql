@@ -0,0 +1,39 @@
+CREATE TABLE "webhook_delivery" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"email_agent_id" text NOT NULL,
+	"run_id" text,
+	"event" text NOT NULL,
+	"url" text NOT NULL,
+	"payload" text NOT NULL,
+	"status" text NOT NULL,
+	"attempts" integer NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"next_attempt_at" timestamp,
+	"last_attempt_at" timestamp,
+	"delivered_at" timestamp,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_delivery_attempt" (
+	"id" text PRIMARY KEY NOT NULL,
+	"delivery_id" text NOT NULL,
+	"attempt" integer NOT NULL,
+	"trigger" text NOT NULL,
+	"url" text NOT NULL,
+	"signature" text,
+	"response_status" integer,
+	"response_body" text,
+	"error" text,
+	"duration_ms" integer NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_email_agent_id_email_agent_id_fk" FOREIGN KEY ("email_agent_id") REFERENCES "public"."email_agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_run_id_agent_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."agent_run"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_delivery_attempt" ADD CONSTRAINT "webhook_delivery_attempt_delivery_id_webhook_delivery_id_fk" FOREIGN KEY ("delivery_id") REFERENCES "public"."webhook_delivery"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_delivery_email_agent_id_idx" ON "webhook_delivery" USING btree ("email_agent_id");--> statement-breakpoint
+CREATE INDEX "webhook_delivery_status_next_attempt_at_idx" ON "webhook_delivery" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "webhook_delivery_attempt_delivery_id_idx" ON "webhook_delivery_attempt" USING btree ("delivery_id");
\ No newline at end of file
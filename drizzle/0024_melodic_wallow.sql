@@ -0,0 +1,4 @@
+ALTER TABLE "email_agent" ADD COLUMN "webhook_events" text;--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD COLUMN "event_id" text;--> statement-breakpoint
+UPDATE "webhook_delivery" SET "event_id" = "id";--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ALTER COLUMN "event_id" SET NOT NULL;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "webhook_endpoint" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"email_agent_id" text NOT NULL,
+	"url" text NOT NULL,
+	"secret" text,
+	"events" text,
+	"description" text,
+	"is_active" boolean NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD COLUMN "endpoint_id" text;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD CONSTRAINT "webhook_endpoint_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD CONSTRAINT "webhook_endpoint_email_agent_id_email_agent_id_fk" FOREIGN KEY ("email_agent_id") REFERENCES "public"."email_agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_endpoint_email_agent_id_idx" ON "webhook_endpoint" USING btree ("email_agent_id");--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_endpoint_id_webhook_endpoint_id_fk" FOREIGN KEY ("endpoint_id") REFERENCES "public"."webhook_endpoint"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "webhook_endpoint" ("id", "user_id", "email_agent_id", "url", "secret", "events", "is_active", "created_at", "updated_at") SELECT 'whe_' || "id", "user_id", "id", "webhook_url", "webhook_secret", "webhook_events", true, now(), now() FROM "email_agent" WHERE "webhook_url" IS NOT NULL AND "webhook_url" NOT LIKE '%/api/cursor-webhooks/%';--> statement-breakpoint
+UPDATE "webhook_delivery" SET "endpoint_id" = "webhook_endpoint"."id" FROM "webhook_endpoint" WHERE "webhook_endpoint"."email_agent_id" = "webhook_delivery"."email_agent_id" AND "webhook_endpoint"."url" = "webhook_delivery"."url";--> statement-breakpoint
+ALTER TABLE "email_agent" DROP COLUMN "webhook_url";--> statement-breakpoint
+ALTER TABLE "email_agent" DROP COLUMN "webhook_secret";--> statement-breakpoint
+ALTER TABLE "email_agent" DROP COLUMN "webhook_events";
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "webhook_endpoint" ADD COLUMN "kind" text DEFAULT 'webhook' NOT NULL;
\ No newline at end of file
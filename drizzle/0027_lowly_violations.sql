@@ -0,0 +1,5 @@
+ALTER TABLE "cursor_agent_mapping" ADD COLUMN "original_recipients" text;--> statement-breakpoint
+ALTER TABLE "email_agent" ADD COLUMN "reply_all" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "email_agent" ADD COLUMN "reply_cc" text;--> statement-breakpoint
+ALTER TABLE "email_agent" ADD COLUMN "reply_bcc" text;--> statement-breakpoint
+ALTER TABLE "email_agent" ADD COLUMN "reply_allow_list" text;
\ No newline at end of file
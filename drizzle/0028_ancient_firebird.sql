@@ -0,0 +1,13 @@
+ALTER TABLE "webhook_delivery" ALTER COLUMN "email_agent_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ALTER COLUMN "email_agent_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "agent_run" ADD COLUMN "source" text DEFAULT 'email' NOT NULL;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD COLUMN "run_id" text;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD CONSTRAINT "webhook_endpoint_run_id_agent_run_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."agent_run"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_endpoint_run_id_idx" ON "webhook_endpoint" USING btree ("run_id");;--> statement-breakpoint
+UPDATE "agent_run" SET "source" = 'mcp' WHERE "email_agent_id" IN (SELECT "id" FROM "email_agent" WHERE "name" LIKE 'mcp-agent-%' AND "email_address" IS NULL AND "inbound_email_address_id" IS NULL);--> statement-breakpoint
+UPDATE "webhook_endpoint" SET "run_id" = (SELECT "agent_run"."id" FROM "agent_run" WHERE "agent_run"."email_agent_id" = "webhook_endpoint"."email_agent_id" ORDER BY "agent_run"."created_at" DESC LIMIT 1), "email_agent_id" = NULL WHERE "email_agent_id" IN (SELECT "id" FROM "email_agent" WHERE "name" LIKE 'mcp-agent-%' AND "email_address" IS NULL AND "inbound_email_address_id" IS NULL);--> statement-breakpoint
+DELETE FROM "webhook_endpoint" WHERE "email_agent_id" IS NULL AND "run_id" IS NULL;--> statement-breakpoint
+UPDATE "webhook_delivery" SET "email_agent_id" = NULL WHERE "email_agent_id" IN (SELECT "id" FROM "email_agent" WHERE "name" LIKE 'mcp-agent-%' AND "email_address" IS NULL AND "inbound_email_address_id" IS NULL);--> statement-breakpoint
+UPDATE "agent_run" SET "email_agent_id" = NULL WHERE "email_agent_id" IN (SELECT "id" FROM "email_agent" WHERE "name" LIKE 'mcp-agent-%' AND "email_address" IS NULL AND "inbound_email_address_id" IS NULL);--> statement-breakpoint
+-- Their agent_launch_log and cursor_agent_mapping rows cascade away with them - the runs above keep each launch's history
+DELETE FROM "email_agent" WHERE "id" IN (SELECT "id" FROM "email_agent" WHERE "name" LIKE 'mcp-agent-%' AND "email_address" IS NULL AND "inbound_email_address_id" IS NULL);
\ No newline at end of file
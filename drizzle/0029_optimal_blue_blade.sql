@@ -0,0 +1,22 @@
+CREATE TABLE "agent_batch" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text,
+	"source" text NOT NULL,
+	"repository" text NOT NULL,
+	"ref" text NOT NULL,
+	"status" text NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "agent_run" ADD COLUMN "batch_id" text;--> statement-breakpoint
+ALTER TABLE "agent_run" ADD COLUMN "path_scopes" text;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD COLUMN "batch_id" text;--> statement-breakpoint
+ALTER TABLE "agent_batch" ADD CONSTRAINT "agent_batch_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "agent_batch_user_id_idx" ON "agent_batch" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "agent_run" ADD CONSTRAINT "agent_run_batch_id_agent_batch_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."agent_batch"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_endpoint" ADD CONSTRAINT "webhook_endpoint_batch_id_agent_batch_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."agent_batch"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "agent_run_batch_id_idx" ON "agent_run" USING btree ("batch_id");--> statement-breakpoint
+CREATE INDEX "webhook_endpoint_batch_id_idx" ON "webhook_endpoint" USING btree ("batch_id");
\ No newline at end of file
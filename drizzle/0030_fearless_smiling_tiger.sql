@@ -0,0 +1 @@
+ALTER TABLE "email_agent" ADD COLUMN "inbound_previous_verification_token" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- 0022 imports runs from the launch log as running, so the first status check would send their completion events (and replies) all over again. Those launches are long done as far as we know: finish the ones still waiting for that check, without sending any events
+INSERT INTO "agent_run_event" ("id", "run_id", "from_status", "to_status", "source", "message", "created_at") SELECT "id" || '_finished', "id", "status", 'finished', 'manual', 'Imported from the launch log', now() FROM "agent_run" WHERE "status" = 'running' AND "status_message" = 'Imported from the launch log';--> statement-breakpoint
+UPDATE "agent_run" SET "status" = 'finished', "updated_at" = now(), "finished_at" = now() WHERE "status" = 'running' AND "status_message" = 'Imported from the launch log';
\ No newline at end of file
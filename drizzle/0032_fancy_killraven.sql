@@ -0,0 +1 @@
+ALTER TABLE "agent_run" ADD COLUMN "reply_sent_at" timestamp;
\ No newline at end of file
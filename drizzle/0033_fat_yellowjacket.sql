@@ -0,0 +1 @@
+ALTER TABLE "agent_run" ADD COLUMN "cursor_webhook_secret" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Tokens issued before MCP scopes existed carry only the OpenID ones. They get agents:read and agents:write, so existing clients can still list, follow and launch agents and refreshing keeps that. They don't get agents:delete or email-agents:admin: deleting agents and managing email agents needs a new connection through the consent screen
+UPDATE "oauth_access_token" SET "scopes" = trim(coalesce("scopes", '') || ' agents:read agents:write'), "updated_at" = now() WHERE coalesce("scopes", '') NOT LIKE '%agents:%';
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test'
+import { validateAgentBatchInput, type AgentBatchInput } from './agent-batches'
+
+function batch(overrides: Record<string, unknown> = {}): AgentBatchInput {
+  return {
+    repository: 'https://github.com/company/app',
+    tasks: [
+      { name: 'api', prompt: 'Add the endpoint', paths: ['src/api'] },
+      { name: 'ui', prompt: 'Add the page', paths: ['src/ui'] },
+    ],
+    ...overrides,
+  } as AgentBatchInput;
+}
+
+describe('validateAgentBatchInput', () => {
+  test('accepts tasks with separate paths', () => {
+    expect(validateAgentBatchInput(batch())).toBeNull();
+  });
+
+  test('refuses bodies and tasks that are not objects instead of throwing', () => {
+    expect(validateAgentBatchInput(null as unknown as AgentBatchInput)).toBe('Batch must be an object');
+    expect(validateAgentBatchInput('batch' as unknown as AgentBatchInput)).toBe('Batch must be an object');
+    expect(validateAgentBatchInput(batch({ tasks: [null] }))).toBe('Task #1 must be an object');
+    expect(validateAgentBatchInput(batch({ tasks: [{ name: 42, prompt: 'x', paths: ['src'] }] }))).toBe('Task #1 has an invalid name');
+  });
+
+  test('refuses a ref or model that is not a string', () => {
+    expect(validateAgentBatchInput(batch({ ref: 3 }))).toBe('ref must be a branch, tag or commit');
+    expect(validateAgentBatchInput(batch({ model: { name: 'x' } }))).toBe('model must be a model name');
+  });
+
+  test('refuses overlapping paths', () => {
+    const tasks = [
+      { name: 'api', prompt: 'Add the endpoint', paths: ['src/api/'] },
+      { name: 'all', prompt: 'Clean up', paths: ['src/**'] },
+    ];
+    expect(validateAgentBatchInput(batch({ tasks }))).toContain("Tasks 'api' and 'all' overlap");
+  });
+
+  test('refuses branch names that a generated one could take', () => {
+    const tasks = [
+      { name: 'api', prompt: 'Add the endpoint', paths: ['src/api'], branchName: 'batch/abc/1-api' },
+      { name: 'ui', prompt: 'Add the page', paths: ['src/ui'] },
+    ];
+    expect(validateAgentBatchInput(batch({ tasks }))).toContain("can't use branch 'batch/abc/1-api'");
+    expect(validateAgentBatchInput(batch({
+      tasks: [{ ...tasks[0], branchName: 'feature/api' }, tasks[1]]
+    }))).toBeNull();
+  });
+});
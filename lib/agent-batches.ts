@@ -0,0 +1,362 @@
+import { db } from './db'
+import { agentBatch, agentRun } from './schema'
+import { eq, and, asc, desc } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { launchCursorAgent, createCursorCallback } from './cursor-api'
+import { createAgentRun, completeAgentBatchIfDone, isTerminalRunStatus, type AgentRun, type RunLaunchSource } from './agent-runs'
+import { upsertWebhookEndpoint, validateWebhookEndpoint } from './webhook-endpoints'
+
+/**
+ * Batches split one piece of work across several Cursor agents on the same repository.
+ * Every task declares the paths it may change and no two tasks may claim overlapping ones,
+ * so agents working side by side don't produce conflicting pull requests. Each task is
+ * launched on its own branch as a run of the batch. The batch completes when its last run
+ * is done, and only then notifies its webhook endpoints - once, for the whole batch.
+ */
+
+export type AgentBatch = typeof agentBatch.$inferSelect;
+
+export const AGENT_BATCH_STATUSES = ['running', 'finished', 'failed'] as const;
+
+export type AgentBatchStatus = typeof AGENT_BATCH_STATUSES[number];
+
+export const MAX_BATCH_TASKS = 10;
+
+export interface AgentBatchTaskInput {
+  name?: string;
+  prompt: string;
+  paths: string[]; // Directories or files of the repository the task may change
+  branchName?: string; // Generated from the batch and task when not given
+}
+
+export interface AgentBatchInput {
+  name?: string;
+  repository: string;
+  ref?: string;
+  model?: string;
+  autoCreatePr?: boolean;
+  tasks: AgentBatchTaskInput[];
+  webhookUrl?: string; // Gets the batch.completed event
+  webhookSecret?: string;
+}
+
+export interface AgentBatchReport {
+  batch: AgentBatch;
+  runs: AgentRun[];
+  counts: {
+    total: number;
+    active: number;
+    finished: number;
+    failed: number;
+  };
+}
+
+/**
+ * Normalizes a path scope: 'src/api/', './src/api' and 'src/api/**' all mean src/api,
+ * and '.' means the whole repository (an empty scope).
+ * @returns The normalized scope, or null if it isn't a plain repository path
+ */
+export function normalizePathScope(path: string): string | null {
+  let normalized = path.trim()
+    .replace(/\\/g, '/')
+    .replace(/\/{2,}/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/+/, '')
+    .replace(/\/\*\*?$/, '')
+    .replace(/\/+$/, '');
+
+  if (normalized === '.' || normalized === '*' || normalized === '**') {
+    normalized = '';
+  }
+
+  // Globs other than a trailing /** can't be compared reliably
+  if (/[*?[\]{}]/.test(normalized)) {
+    return null;
+  }
+  if (normalized.split('/').some(segment => segment === '..' || segment === '.')) {
+    return null;
+  }
+
+  return normalized;
+}
+
+// Two scopes overlap when one is the other or lies inside it - the whole repository overlaps everything
+export function pathScopesOverlap(a: string, b: string): boolean {
+  return a === '' || b === '' || a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
+
+// Generated branches live under batch/, so tasks can't name one that another task may get
+const GENERATED_BRANCH_PREFIX = 'batch/';
+
+function getTaskLabel(task: AgentBatchTaskInput, index: number): string {
+  return typeof task.name === 'string' && task.name ? `'${task.name}'` : `#${index + 1}`;
+}
+
+/**
+ * Validates a batch to launch, including that no two tasks claim overlapping paths.
+ * @returns An error message, or null if the input is valid
+ */
+export function validateAgentBatchInput(input: AgentBatchInput): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Batch must be an object';
+  }
+  if (typeof input.repository !== 'string' || !input.repository.trim()) {
+    return 'repository is required';
+  }
+  if (input.name !== undefined && typeof input.name !== 'string') {
+    return 'name must be a string';
+  }
+  if (input.ref !== undefined && (typeof input.ref !== 'string' || !input.ref.trim())) {
+    return 'ref must be a branch, tag or commit';
+  }
+  if (input.model !== undefined && (typeof input.model !== 'string' || !input.model.trim())) {
+    return 'model must be a model name';
+  }
+  if (input.autoCreatePr !== undefined && typeof input.autoCreatePr !== 'boolean') {
+    return 'autoCreatePr must be true or false';
+  }
+
+  if (!Array.isArray(input.tasks) || input.tasks.length === 0) {
+    return 'tasks must be a non-empty array';
+  }
+  if (input.tasks.length > MAX_BATCH_TASKS) {
+    return `A batch can have at most ${MAX_BATCH_TASKS} tasks`;
+  }
+
+  const scopes: string[][] = [];
+  const branchNames = new Set<string>();
+
+  for (const [index, task] of input.tasks.entries()) {
+    if (!task || typeof task !== 'object') {
+      return `Task #${index + 1} must be an object`;
+    }
+    if (task.name !== undefined && typeof task.name !== 'string') {
+      return `Task #${index + 1} has an invalid name`;
+    }
+
+    const label = getTaskLabel(task, index);
+
+    if (typeof task.prompt !== 'string' || !task.prompt.trim()) {
+      return `Task ${label} needs a prompt`;
+    }
+    if (!Array.isArray(task.paths) || task.paths.length === 0 || !task.paths.every(path => typeof path === 'string')) {
+      return `Task ${label} needs the paths it may change`;
+    }
+
+    const taskScopes: string[] = [];
+    for (const path of task.paths) {
+      const scope = normalizePathScope(path);
+      if (scope === null) {
+        return `Task ${label} has an invalid path '${path}' - use directories or files of the repository, not globs`;
+      }
+      taskScopes.push(scope);
+    }
+    scopes.push(taskScopes);
+
+    if (task.branchName !== undefined) {
+      if (typeof task.branchName !== 'string' || !/^[\w./-]+$/.test(task.branchName)) {
+        return `Task ${label} has an invalid branch name`;
+      }
+      if (task.branchName.startsWith(GENERATED_BRANCH_PREFIX)) {
+        return `Task ${label} can't use branch '${task.branchName}' - branches under '${GENERATED_BRANCH_PREFIX}' are generated for tasks without one`;
+      }
+      if (branchNames.has(task.branchName)) {
+        return `Tasks can't share branch '${task.branchName}'`;
+      }
+      branchNames.add(task.branchName);
+    }
+  }
+
+  for (let i = 0; i < scopes.length; i++) {
+    for (let j = i + 1; j < scopes.length; j++) {
+      for (const a of scopes[i]) {
+        const b = scopes[j].find(scope => pathScopesOverlap(a, scope));
+        if (b !== undefined) {
+          return `Tasks ${getTaskLabel(input.tasks[i], i)} and ${getTaskLabel(input.tasks[j], j)} overlap: ` +
+            `'${a || '.'}' and '${b || '.'}'. Give every task its own paths`;
+        }
+      }
+    }
+  }
+
+  if (input.webhookUrl !== undefined) {
+    const webhookError = validateWebhookEndpoint({ url: input.webhookUrl, secret: input.webhookSecret });
+    if (webhookError) {
+      return webhookError;
+    }
+  }
+
+  return null;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+}
+
+// e.g. batch/V1StGXR8/2-api-routes
+function buildBranchName(batchId: string, task: AgentBatchTaskInput, index: number): string {
+  const slug = slugify(task.name || task.paths[0] || '');
+  return `${GENERATED_BRANCH_PREFIX}${batchId.slice(0, 8)}/${index + 1}${slug ? `-${slug}` : ''}`;
+}
+
+// Tells the agent what it may touch - Cursor itself has no way to limit an agent to some paths
+function buildTaskPrompt(task: AgentBatchTaskInput, scopes: string[], otherScopes: string[], taskCount: number): string {
+  const formatScopes = (list: string[]) => list.map(scope => `- ${scope || '(the whole repository)'}`).join('\n');
+
+  return `${task.prompt}\n\n---\n` +
+    `You are one of ${taskCount} agents working on this repository at the same time. ` +
+    `Only change files within:\n${formatScopes(scopes)}\n\n` +
+    `Other agents are changing these paths, leave them alone:\n${formatScopes(otherScopes)}`;
+}
+
+/**
+ * Launches every task of a validated batch. A task that fails to launch is recorded as a
+ * failed run - the others still go ahead, and the batch reports which ones didn't.
+ */
+export async function launchAgentBatch(
+  userId: string,
+  source: RunLaunchSource,
+  apiKey: string,
+  input: AgentBatchInput
+): Promise<AgentBatchReport> {
+  const now = new Date();
+  const [batch] = await db.insert(agentBatch).values({
+    id: nanoid(),
+    userId,
+    name: input.name || null,
+    source,
+    repository: input.repository,
+    ref: input.ref || 'main',
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  }).returning();
+
+  console.log(`📦 Launching agent batch ${batch.id} with ${input.tasks.length} tasks on ${batch.repository}`);
+
+  // Registered before any run can finish, so the endpoint can't miss the batch completing
+  if (input.webhookUrl) {
+    await upsertWebhookEndpoint(userId, { batchId: batch.id }, {
+      url: input.webhookUrl,
+      secret: input.webhookSecret || null
+    });
+  }
+
+  const scopes = input.tasks.map(task => task.paths.map(path => normalizePathScope(path)!));
+
+  for (const [index, task] of input.tasks.entries()) {
+    const branchName = task.branchName || buildBranchName(batch.id, task, index);
+    const otherScopes = scopes.filter((_, i) => i !== index).flat();
+    // Cursor tells us when the agent is done, so the batch can complete without waiting for the reconciler
+    const callback = createCursorCallback(source);
+
+    const launch = await launchCursorAgent(apiKey, {
+      prompt: { text: buildTaskPrompt(task, scopes[index], otherScopes, input.tasks.length) },
+      model: input.model,
+      source: {
+        repository: batch.repository,
+        ref: batch.ref
+      },
+      target: {
+        autoCreatePr: input.autoCreatePr ?? true,
+        branchName
+      },
+      webhook: callback
+    });
+
+    if (!launch.ok) {
+      console.error(`❌ Failed to launch task ${index + 1} of agent batch ${batch.id}:`, launch.error);
+    }
+
+    // Runs of a batch notify nobody on their own - the batch does once they're all done
+    await createAgentRun({
+      userId,
+      source,
+      batchId: batch.id,
+      pathScopes: JSON.stringify(scopes[index]),
+      cursorAgentId: launch.agentId || null,
+      senderEmail: '',
+      emailSubject: task.name || `Task ${index + 1}`,
+      repository: batch.repository,
+      branchName,
+      cursorWebhookSecret: launch.ok ? callback.secret : null
+    }, launch.ok ? 'running' : 'error', 'manual', {
+      message: launch.ok ? `Launched in batch ${batch.id}` : `Failed to launch: ${launch.error}`,
+      event: null
+    });
+  }
+
+  // Completes the batch right away if no task could be launched
+  await completeAgentBatchIfDone(batch.id);
+
+  return (await getAgentBatchReport(userId, batch.id))!;
+}
+
+// A batch with its runs in task order, or null if the user has no such batch
+export async function getAgentBatchReport(userId: string, batchId: string): Promise<AgentBatchReport | null> {
+  const [batch] = await db
+    .select()
+    .from(agentBatch)
+    .where(and(
+      eq(agentBatch.id, batchId),
+      eq(agentBatch.userId, userId)
+    ))
+    .limit(1);
+
+  if (!batch) {
+    return null;
+  }
+
+  const runs = await db
+    .select()
+    .from(agentRun)
+    .where(eq(agentRun.batchId, batch.id))
+    .orderBy(asc(agentRun.createdAt), asc(agentRun.id));
+
+  return {
+    batch,
+    runs,
+    counts: {
+      total: runs.length,
+      active: runs.filter(run => !isTerminalRunStatus(run.status)).length,
+      finished: runs.filter(run => run.status === 'finished').length,
+      failed: runs.filter(run => isTerminalRunStatus(run.status) && run.status !== 'finished').length,
+    },
+  };
+}
+
+export async function listAgentBatches(userId: string, limit: number = 20): Promise<AgentBatch[]> {
+  return db
+    .select()
+    .from(agentBatch)
+    .where(eq(agentBatch.userId, userId))
+    .orderBy(desc(agentBatch.createdAt))
+    .limit(limit);
+}
+
+export function toPublicAgentBatchReport(report: AgentBatchReport) {
+  const { batch, runs, counts } = report;
+
+  return {
+    id: batch.id,
+    name: batch.name,
+    source: batch.source,
+    repository: batch.repository,
+    ref: batch.ref,
+    status: batch.status,
+    counts,
+    createdAt: batch.createdAt,
+    finishedAt: batch.finishedAt,
+    runs: runs.map(run => ({
+      runId: run.id,
+      task: run.emailSubject,
+      paths: run.pathScopes ? JSON.parse(run.pathScopes) as string[] : [],
+      status: run.status,
+      statusMessage: run.statusMessage,
+      agentId: run.cursorAgentId,
+      branchName: run.branchName,
+      prUrl: run.prUrl,
+      summary: run.summary,
+    })),
+  };
+}
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, mock, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { agentRun, user } from './schema'
+import { createTestDb } from './test-db'
+
+// Runs change through conditional updates, so these run against a real (in-memory) Postgres
+const db = await createTestDb();
+mock.module('./db', () => ({ db }));
+
+const { createAgentRun, transitionCursorAgentRuns } = await import('./agent-runs');
+
+async function getRun(runId: string) {
+  const [run] = await db.select().from(agentRun).where(eq(agentRun.id, runId));
+  return run;
+}
+
+async function startRun(cursorAgentId: string) {
+  const run = await createAgentRun({
+    userId: 'user-1',
+    cursorAgentId,
+    senderEmail: 'dev@company.com',
+  }, 'running', 'webhook', { event: null });
+  return run!;
+}
+
+beforeAll(async () => {
+  await db.insert(user).values({ id: 'user-1', name: 'Dev', email: 'dev@company.com' });
+});
+
+describe('transitionCursorAgentRuns', () => {
+  test('applies a status read from Cursor to runs unchanged since', async () => {
+    const run = await startRun('bc-unchanged');
+
+    const readAt = new Date();
+    const transitions = await transitionCursorAgentRuns('bc-unchanged', 'finished', 'poll', { summary: 'Done' }, readAt);
+
+    expect(transitions.map(transition => transition.run.id)).toEqual([run.id]);
+    expect(await getRun(run.id)).toMatchObject({ status: 'finished', summary: 'Done' });
+  });
+
+  // A poll reads FINISHED, then the webhook finishes the run and a follow-up starts the
+  // agent again before the poll gets to apply what it read
+  test("doesn't finish a follow-up with the status read before it was sent", async () => {
+    const run = await startRun('bc-followup');
+
+    const readAt = new Date();
+    await Bun.sleep(5);
+    await transitionCursorAgentRuns('bc-followup', 'finished', 'webhook', { summary: 'First task' });
+    const followup = await startRun('bc-followup');
+
+    const stale = await transitionCursorAgentRuns('bc-followup', 'finished', 'poll', { summary: 'First task' }, readAt);
+
+    expect(stale).toEqual([]);
+    expect(await getRun(run.id)).toMatchObject({ status: 'finished', summary: 'First task' });
+    expect(await getRun(followup.id)).toMatchObject({ status: 'running', summary: null });
+
+    await Bun.sleep(5);
+    const fresh = await transitionCursorAgentRuns('bc-followup', 'finished', 'poll', { summary: 'Second task' }, new Date());
+
+    expect(fresh.map(transition => transition.run.id)).toEqual([followup.id]);
+    expect(await getRun(followup.id)).toMatchObject({ status: 'finished', summary: 'Second task' });
+  });
+
+  test('still applies statuses without a read time, like Cursor webhooks', async () => {
+    const run = await startRun('bc-webhook');
+
+    await Bun.sleep(5);
+    const transitions = await transitionCursorAgentRuns('bc-webhook', 'error', 'webhook', { message: 'Agent execution failed' });
+
+    expect(transitions).toHaveLength(1);
+    expect(await getRun(run.id)).toMatchObject({ status: 'error', statusMessage: 'Agent execution failed' });
+  });
+});
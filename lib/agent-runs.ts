@@ -0,0 +1,465 @@
+import { db } from './db'
+import { agentRun, agentRunEvent, agentBatch } from './schema'
+import { eq, and, inArray, asc, desc, lte } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { queueWebhookDelivery } from './outbound-webhooks'
+import { buildWebhookEvent, type WebhookEventType, type WebhookEventData } from './webhook-events'
+import { getSubscribedEndpoints, getSubscribedBatchEndpoints } from './webhook-endpoints'
+import { formatEndpointPayload } from './chat-notifications'
+import { publishRunChange } from './run-notifications'
+import type { CursorAgent } from './cursor-api'
+import type { AgentBatch, AgentBatchStatus } from './agent-batches'
+
+/**
+ * One agent run per email, from the moment it arrives until its Cursor agent is done.
+ * Agents launched over MCP or the API get a run too, without an email agent.
+ * Runs launched together in a batch complete their batch once the last of them is done.
+ * Every status change is recorded as an agentRunEvent together with where it was seen.
+ * Changes are conditional updates, so when a Cursor webhook and a status poll race each
+ * other only one of them completes the run - and only that one notifies its webhooks and
+ * the MCP clients subscribed to the run.
+ */
+
+export type AgentRun = typeof agentRun.$inferSelect;
+export type AgentRunEvent = typeof agentRunEvent.$inferSelect;
+
+export const AGENT_RUN_STATUSES = ['received', 'queued', 'creating', 'running', 'finished', 'error', 'expired', 'cancelled'] as const;
+
+export type AgentRunStatus = typeof AGENT_RUN_STATUSES[number];
+
+export const TERMINAL_RUN_STATUSES: readonly AgentRunStatus[] = ['finished', 'error', 'expired', 'cancelled'];
+
+export const ACTIVE_RUN_STATUSES: readonly AgentRunStatus[] = AGENT_RUN_STATUSES.filter(
+  status => !TERMINAL_RUN_STATUSES.includes(status)
+);
+
+// How far along an active run is. A run never moves back to an earlier step - a late poll
+// saying CREATING can't undo a webhook that said RUNNING. Queued and creating share a step,
+// since a launch attempt that fails or needs approval goes back to the queue.
+const RUN_STATUS_STEP: Partial<Record<AgentRunStatus, number>> = {
+  received: 0,
+  queued: 1,
+  creating: 1,
+  running: 2,
+};
+
+function isBackwardTransition(from: string, to: AgentRunStatus): boolean {
+  const fromStep = RUN_STATUS_STEP[from as AgentRunStatus];
+  const toStep = RUN_STATUS_STEP[to];
+  return fromStep !== undefined && toStep !== undefined && toStep < fromStep;
+}
+
+// webhook: an Inbound or Cursor webhook, including the queued work that follows an Inbound one
+// poll: Cursor status polling and scheduled checks
+// manual: something a user did in the dashboard, the API or over MCP
+export type AgentRunSource = 'webhook' | 'poll' | 'manual';
+
+// Where a run was launched from - only email runs belong to an email agent for sure
+export const RUN_LAUNCH_SOURCES = ['email', 'mcp', 'api', 'dashboard'] as const;
+
+export type RunLaunchSource = typeof RUN_LAUNCH_SOURCES[number];
+
+export interface NewAgentRun {
+  userId: string;
+  emailAgentId?: string | null;
+  source?: RunLaunchSource; // Defaults to email
+  inboundJobId?: string | null;
+  inboundEmailId?: string | null;
+  launchLogId?: string | null;
+  cursorAgentId?: string | null;
+  batchId?: string | null;
+  pathScopes?: string | null; // JSON array
+  cursorWebhookSecret?: string | null;
+  senderEmail: string;
+  emailSubject?: string | null;
+  repository?: string | null;
+  branchName?: string | null;
+}
+
+// Recorded on the run along with a status change
+export interface AgentRunDetails {
+  message?: string;
+  cursorAgentId?: string | null;
+  launchLogId?: string | null;
+  repository?: string;
+  branchName?: string;
+  prUrl?: string;
+  summary?: string;
+  event?: WebhookEventType | null; // Overrides the event the new status sends, null for none
+}
+
+export interface AgentRunTransition {
+  run: AgentRun;
+  webhookQueued: boolean;
+}
+
+// Run status for each status the Cursor API reports
+const RUN_STATUS_BY_AGENT_STATUS: Record<CursorAgent['status'], AgentRunStatus> = {
+  CREATING: 'creating',
+  RUNNING: 'running',
+  FINISHED: 'finished',
+  ERROR: 'error',
+  EXPIRED: 'expired',
+};
+
+// The status and details to record for an agent as the Cursor API reports it
+export function getCursorAgentRunUpdate(agent: CursorAgent): { status: AgentRunStatus; details: AgentRunDetails } {
+  return {
+    status: RUN_STATUS_BY_AGENT_STATUS[agent.status],
+    details: {
+      message: agent.status === 'ERROR' ? 'Agent execution failed' : undefined,
+      repository: agent.source?.repository,
+      branchName: agent.target?.branchName,
+      prUrl: agent.target?.prUrl,
+      summary: agent.summary
+    }
+  };
+}
+
+// Event sent when a run reaches a status, unless the change names another one
+const EVENT_BY_RUN_STATUS: Partial<Record<AgentRunStatus, WebhookEventType>> = {
+  received: 'email.received',
+  running: 'agent.running',
+  finished: 'agent.completed',
+  error: 'agent.failed',
+  expired: 'agent.expired',
+};
+
+export function isTerminalRunStatus(status: string): boolean {
+  return (TERMINAL_RUN_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Creates a run and its first history entry, and sends the webhook event for its status.
+ * @returns The run, or null if it couldn't be written
+ */
+export async function createAgentRun(
+  values: NewAgentRun,
+  status: AgentRunStatus,
+  source: AgentRunSource,
+  options: { message?: string; event?: WebhookEventType | null } = {}
+): Promise<AgentRun | null> {
+  const { message } = options;
+
+  try {
+    const now = new Date();
+    const [run] = await db.insert(agentRun).values({
+      id: nanoid(),
+      ...values,
+      status,
+      statusMessage: message || null,
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: isTerminalRunStatus(status) ? now : null,
+    }).returning();
+
+    await db.insert(agentRunEvent).values({
+      id: nanoid(),
+      runId: run.id,
+      fromStatus: null,
+      toStatus: status,
+      source,
+      message: message || null,
+      createdAt: now,
+    });
+
+    const event = options.event !== undefined ? options.event : EVENT_BY_RUN_STATUS[status];
+    if (event) {
+      await emitRunEvent(run, event);
+    }
+
+    return run;
+  } catch (error) {
+    console.error('Failed to create agent run:', error);
+    return null;
+  }
+}
+
+/**
+ * Moves a run to a new status and records the change. Runs only leave a terminal
+ * status when `from` explicitly allows it (e.g. retrying a dead-lettered job), and
+ * never go back to an earlier active status.
+ * The webhook event for the new status is sent once the change is recorded.
+ * A status read at `readAt` only applies if the run hasn't changed since then.
+ * @returns The transition, or null if the run wasn't in one of the `from` statuses
+ */
+export async function transitionAgentRun(
+  runId: string,
+  status: AgentRunStatus,
+  source: AgentRunSource,
+  details: AgentRunDetails = {},
+  from: readonly AgentRunStatus[] = ACTIVE_RUN_STATUSES,
+  readAt?: Date
+): Promise<AgentRunTransition | null> {
+  try {
+    const [current] = await db
+      .select({ status: agentRun.status })
+      .from(agentRun)
+      .where(eq(agentRun.id, runId))
+      .limit(1);
+
+    if (!current || current.status === status || !(from as readonly string[]).includes(current.status)) {
+      return null;
+    }
+    if (isBackwardTransition(current.status, status)) {
+      console.warn(`⚠️ Ignoring agent run ${runId} going back from ${current.status} to ${status} (${source})`);
+      return null;
+    }
+
+    const now = new Date();
+    const [run] = await db.update(agentRun)
+      .set({
+        status,
+        statusMessage: details.message || null,
+        ...(details.cursorAgentId ? { cursorAgentId: details.cursorAgentId } : {}),
+        ...(details.launchLogId ? { launchLogId: details.launchLogId } : {}),
+        ...(details.repository ? { repository: details.repository } : {}),
+        ...(details.branchName ? { branchName: details.branchName } : {}),
+        ...(details.prUrl ? { prUrl: details.prUrl } : {}),
+        ...(details.summary ? { summary: details.summary } : {}),
+        updatedAt: now,
+        finishedAt: isTerminalRunStatus(status) ? now : null,
+      })
+      // Someone else moved the run since we looked - their change wins
+      .where(and(
+        eq(agentRun.id, runId),
+        eq(agentRun.status, current.status),
+        readAt ? lte(agentRun.updatedAt, readAt) : undefined
+      ))
+      .returning();
+
+    if (!run) {
+      return null;
+    }
+
+    await db.insert(agentRunEvent).values({
+      id: nanoid(),
+      runId,
+      fromStatus: current.status,
+      toStatus: status,
+      source,
+      message: details.message || null,
+      createdAt: now,
+    });
+
+    console.log(`🏃 Agent run ${runId}: ${current.status} → ${status} (${source})`);
+
+    await publishRunChange(runId);
+
+    const event = details.event !== undefined ? details.event : EVENT_BY_RUN_STATUS[status];
+    const webhookQueued = event ? await emitRunEvent(run, event) : false;
+
+    if (run.batchId && isTerminalRunStatus(status)) {
+      await completeAgentBatchIfDone(run.batchId);
+    }
+
+    return { run, webhookQueued };
+  } catch (error) {
+    console.error(`Failed to update agent run ${runId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Applies a status reported for a Cursor agent to every active run using it -
+ * the run that launched it and any follow-ups sent to it since.
+ * Pass `readAt` - when Cursor was asked - for statuses read from the Cursor API: a follow-up
+ * sent while the request was on its way moves its run on, and the agent's older status
+ * (and summary) mustn't finish it.
+ */
+export async function transitionCursorAgentRuns(
+  cursorAgentId: string,
+  status: AgentRunStatus,
+  source: AgentRunSource,
+  details: AgentRunDetails = {},
+  readAt?: Date
+): Promise<AgentRunTransition[]> {
+  const runs = await db
+    .select({ id: agentRun.id })
+    .from(agentRun)
+    .where(and(
+      eq(agentRun.cursorAgentId, cursorAgentId),
+      inArray(agentRun.status, [...ACTIVE_RUN_STATUSES])
+    ));
+
+  const transitions: AgentRunTransition[] = [];
+  for (const run of runs) {
+    const transition = await transitionAgentRun(run.id, status, source, details, ACTIVE_RUN_STATUSES, readAt);
+    if (transition) {
+      transitions.push(transition);
+    }
+  }
+  return transitions;
+}
+
+export async function getRunForInboundJob(inboundJobId: string): Promise<AgentRun | null> {
+  const [run] = await db
+    .select()
+    .from(agentRun)
+    .where(eq(agentRun.inboundJobId, inboundJobId))
+    .limit(1);
+
+  return run || null;
+}
+
+export async function getAgentRunEvents(runId: string): Promise<AgentRunEvent[]> {
+  return db
+    .select()
+    .from(agentRunEvent)
+    .where(eq(agentRunEvent.runId, runId))
+    .orderBy(asc(agentRunEvent.createdAt));
+}
+
+export async function getLatestRunForCursorAgent(cursorAgentId: string): Promise<AgentRun | null> {
+  const [run] = await db
+    .select()
+    .from(agentRun)
+    .where(eq(agentRun.cursorAgentId, cursorAgentId))
+    .orderBy(desc(agentRun.createdAt))
+    .limit(1);
+
+  return run || null;
+}
+
+/**
+ * Sends an event about a run to every subscribed endpoint of its email agent and of the
+ * run itself.
+ * @returns Whether the event was queued for any endpoint
+ */
+export async function emitRunEvent(
+  run: AgentRun,
+  type: WebhookEventType,
+  extra: Pick<WebhookEventData, 'reply'> = {}
+): Promise<boolean> {
+  try {
+    const endpoints = await getSubscribedEndpoints(run, type);
+    if (endpoints.length === 0) {
+      return false;
+    }
+
+    // One event, so every endpoint sees the same ID
+    const event = buildWebhookEvent(type, {
+      runId: run.id,
+      emailAgentId: run.emailAgentId,
+      source: run.source,
+      status: run.status,
+      message: run.statusMessage,
+      email: {
+        id: run.inboundEmailId,
+        from: run.senderEmail,
+        subject: run.emailSubject,
+      },
+      agent: run.cursorAgentId ? {
+        id: run.cursorAgentId,
+        repository: run.repository,
+        branchName: run.branchName,
+        prUrl: run.prUrl,
+        summary: run.summary,
+      } : null,
+      ...extra,
+    });
+
+    for (const endpoint of endpoints) {
+      await queueWebhookDelivery({
+        userId: run.userId,
+        emailAgentId: run.emailAgentId,
+        endpointId: endpoint.id,
+        runId: run.id,
+        url: endpoint.url,
+        event,
+        payload: formatEndpointPayload(endpoint.kind, event)
+      });
+    }
+    return true;
+  } catch (error) {
+    console.error(`Failed to send ${type} webhook for agent run ${run.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Completes a batch once none of its runs is active anymore and sends its batch.completed
+ * event. The update is conditional, so when the last runs of a batch finish at the same
+ * time only one of them completes it - and the event goes out once.
+ * @returns The batch if this call completed it
+ */
+export async function completeAgentBatchIfDone(batchId: string): Promise<AgentBatch | null> {
+  try {
+    const runs = await db
+      .select()
+      .from(agentRun)
+      .where(eq(agentRun.batchId, batchId))
+      .orderBy(asc(agentRun.createdAt));
+
+    if (runs.length === 0 || runs.some(run => !isTerminalRunStatus(run.status))) {
+      return null;
+    }
+
+    const status: AgentBatchStatus = runs.every(run => run.status === 'finished') ? 'finished' : 'failed';
+    const now = new Date();
+    const [batch] = await db.update(agentBatch)
+      .set({ status, updatedAt: now, finishedAt: now })
+      .where(and(eq(agentBatch.id, batchId), eq(agentBatch.status, 'running')))
+      .returning();
+
+    if (!batch) {
+      return null;
+    }
+
+    console.log(`📦 Agent batch ${batchId}: ${status}`);
+
+    await emitBatchEvent(batch, runs);
+    return batch;
+  } catch (error) {
+    console.error(`Failed to complete agent batch ${batchId}:`, error);
+    return null;
+  }
+}
+
+// The batch.completed event, with every run of the batch
+async function emitBatchEvent(batch: AgentBatch, runs: AgentRun[]): Promise<void> {
+  const endpoints = await getSubscribedBatchEndpoints(batch.id, 'batch.completed');
+  if (endpoints.length === 0) {
+    return;
+  }
+
+  const finished = runs.filter(run => run.status === 'finished').length;
+  const event = buildWebhookEvent('batch.completed', {
+    runId: null,
+    emailAgentId: null,
+    source: batch.source,
+    status: batch.status,
+    message: `${finished} of ${runs.length} agents finished`,
+    email: {
+      id: null,
+      from: '',
+      subject: batch.name,
+    },
+    agent: null,
+    batch: {
+      id: batch.id,
+      name: batch.name,
+      repository: batch.repository,
+      runs: runs.map(run => ({
+        runId: run.id,
+        task: run.emailSubject,
+        paths: run.pathScopes ? JSON.parse(run.pathScopes) : [],
+        status: run.status,
+        agentId: run.cursorAgentId,
+        branchName: run.branchName,
+        prUrl: run.prUrl,
+      })),
+    },
+  });
+
+  for (const endpoint of endpoints) {
+    await queueWebhookDelivery({
+      userId: batch.userId,
+      emailAgentId: null,
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      event,
+      payload: formatEndpointPayload(endpoint.kind, event)
+    });
+  }
+}
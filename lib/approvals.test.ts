@@ -0,0 +1,163 @@
+import { beforeAll, describe, expect, mock, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { agentLaunchLog, emailAgent, inboundJob, user } from './schema'
+import { SAMPLE_INBOUND_PAYLOAD } from './prompt-template'
+import { createTestDb } from './test-db'
+
+const db = await createTestDb();
+mock.module('./db', () => ({ db }));
+
+const sentEmails: Array<{ to: unknown; text?: string }> = [];
+const replies: Array<{ emailId: string; text?: string }> = [];
+mock.module('./inbound-email', () => ({
+  sendEmail: async (params: { to: unknown; text?: string }) => {
+    sentEmails.push(params);
+  },
+  replyToEmail: async (emailId: string, params: { text?: string }) => {
+    replies.push({ emailId, text: params.text });
+  },
+}));
+
+const {
+  decideApproval,
+  expireApprovalRequests,
+  getJobByApprovalToken,
+  requestLaunchApproval,
+  validateApprovalTtlHours,
+} = await import('./approvals');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function createJob(values: Partial<typeof inboundJob.$inferInsert> = {}) {
+  const [job] = await db.insert(inboundJob).values({
+    id: nanoid(),
+    emailAgentId: 'agent-1',
+    userId: 'user-1',
+    inboundEmailId: nanoid(),
+    senderEmail: 'dev@company.com',
+    emailSubject: 'Fix the login page',
+    payload: JSON.stringify(SAMPLE_INBOUND_PAYLOAD),
+    ...values,
+  }).returning();
+  return job;
+}
+
+// A job parked for approval, with a token that expires after `expiresInMs`
+function createPendingJob(expiresInMs: number) {
+  return createJob({
+    status: 'pending_approval',
+    approvalToken: nanoid(),
+    approvalExpiresAt: new Date(Date.now() + expiresInMs),
+  });
+}
+
+async function getJob(jobId: string) {
+  const [job] = await db.select().from(inboundJob).where(eq(inboundJob.id, jobId));
+  return job;
+}
+
+beforeAll(async () => {
+  await db.insert(user).values({ id: 'user-1', name: 'Owner', email: 'owner@company.com' });
+  await db.insert(emailAgent).values({
+    id: 'agent-1',
+    userId: 'user-1',
+    name: 'app',
+    emailAddress: 'app@bg.inbound.new',
+    githubRepository: 'https://github.com/company/app',
+    approvalTtlHours: 2,
+  });
+});
+
+describe('requestLaunchApproval', () => {
+  test("parks the job for the agent's TTL and emails the owner a review link", async () => {
+    const job = await createJob({ status: 'processing' });
+    const result = { status: 'pending_approval' as const, message: 'Waiting for approval', emailAgentId: 'agent-1', cursorAgentId: null, launchLogId: null };
+
+    await requestLaunchApproval(job, result);
+
+    const parked = await getJob(job.id);
+    expect(parked.status).toBe('pending_approval');
+    expect(parked.approvalToken).toMatch(/^[0-9a-f]{64}$/);
+    expect(parked.approvalExpiresAt!.getTime() - Date.now()).toBeGreaterThan(2 * HOUR_MS - 60 * 1000);
+    expect(parked.approvalExpiresAt!.getTime() - Date.now()).toBeLessThanOrEqual(2 * HOUR_MS);
+
+    expect(sentEmails.at(-1)?.to).toBe('owner@company.com');
+    expect(sentEmails.at(-1)?.text).toContain(`/api/approvals/${parked.approvalToken}`);
+    expect((await getJobByApprovalToken(parked.approvalToken!))?.id).toBe(job.id);
+  });
+
+  test('finds no job for an unknown token', async () => {
+    expect(await getJobByApprovalToken('not-a-token')).toBeNull();
+  });
+});
+
+describe('decideApproval', () => {
+  test('approving queues the job again', async () => {
+    const job = await createPendingJob(HOUR_MS);
+
+    const approved = await decideApproval(job, 'approve');
+
+    expect(approved).toMatchObject({ id: job.id, status: 'pending', attempts: 0 });
+    expect(approved!.approvedAt).not.toBeNull();
+  });
+
+  test('rejecting ends the job and logs the rejection', async () => {
+    const job = await createPendingJob(HOUR_MS);
+
+    const rejected = await decideApproval(job, 'reject');
+
+    expect(rejected?.status).toBe('rejected');
+    expect(JSON.parse(rejected!.result!)).toMatchObject({ status: 'rejected', message: 'Launch rejected by the agent owner' });
+
+    const [log] = await db.select().from(agentLaunchLog).where(eq(agentLaunchLog.inboundEmailId, job.inboundEmailId));
+    expect(log).toMatchObject({ status: 'rejected', errorMessage: 'Launch rejected by the agent owner' });
+  });
+
+  test('an expired token can neither approve nor reject', async () => {
+    const job = await createPendingJob(-1000);
+
+    expect(await decideApproval(job, 'approve')).toBeNull();
+    expect(await decideApproval(job, 'reject')).toBeNull();
+    expect((await getJob(job.id)).status).toBe('pending_approval');
+  });
+
+  test('a decided job can not be decided again', async () => {
+    const job = await createPendingJob(HOUR_MS);
+
+    await decideApproval(job, 'approve');
+
+    expect(await decideApproval(job, 'reject')).toBeNull();
+    expect((await getJob(job.id)).status).toBe('pending');
+  });
+});
+
+describe('expireApprovalRequests', () => {
+  test('expires overdue requests only and tells their senders', async () => {
+    const overdue = await createPendingJob(-1000);
+    const waiting = await createPendingJob(HOUR_MS);
+
+    expect(await expireApprovalRequests()).toBeGreaterThanOrEqual(1);
+
+    const expired = await getJob(overdue.id);
+    expect(expired.status).toBe('expired');
+    expect(JSON.parse(expired.result!)).toMatchObject({ status: 'rejected', message: 'Launch was not approved in time' });
+    expect((await getJob(waiting.id)).status).toBe('pending_approval');
+
+    expect(replies.find(reply => reply.emailId === overdue.inboundEmailId)?.text).toContain("wasn't approved in time");
+    expect(replies.some(reply => reply.emailId === waiting.inboundEmailId)).toBe(false);
+  });
+});
+
+describe('validateApprovalTtlHours', () => {
+  test('accepts whole hours up to 30 days', () => {
+    expect(validateApprovalTtlHours(1)).toBeNull();
+    expect(validateApprovalTtlHours(720)).toBeNull();
+  });
+
+  test('refuses anything else', () => {
+    for (const hours of [0, -1, 1.5, 721, '24', null]) {
+      expect(validateApprovalTtlHours(hours)).toBe('approvalTtlHours must be a whole number of hours between 1 and 720');
+    }
+  });
+});
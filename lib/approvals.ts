@@ -0,0 +1,254 @@
+import type { InboundWebhookPayload } from '@inboundemail/sdk'
+import { db } from './db'
+import { emailAgent, inboundJob, user } from './schema'
+import { eq, and, gt, lte } from 'drizzle-orm'
+import crypto from 'crypto'
+import { escapeHtml } from './utils'
+import { sendEmail, replyToEmail } from './inbound-email'
+import { logAgentLaunch, type InboundProcessResult } from './inbound-processor'
+import { getRunForInboundJob, transitionAgentRun, type AgentRunStatus, type AgentRunSource } from './agent-runs'
+
+/**
+ * Approval workflow for agents with `requireApproval` set. Emails that pass every other
+ * check are parked as `pending_approval` and the owner gets an email with a review link.
+ * Approved jobs go back into the queue; requests nobody approves within the agent's
+ * TTL expire and the sender gets an auto-reply.
+ */
+
+type InboundJob = typeof inboundJob.$inferSelect;
+
+export type ApprovalDecision = 'approve' | 'reject';
+
+export const MAX_APPROVAL_TTL_HOURS = 24 * 30;
+
+function getBaseUrl(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BETTER_AUTH_URL || 'https://bg.inbound.new';
+  return baseUrl.startsWith('http') ? baseUrl : `https://${baseUrl}`;
+}
+
+// Ends the run of a job that will never launch an agent - to webhooks the email was rejected
+async function closeJobRun(job: InboundJob, status: AgentRunStatus, source: AgentRunSource, message: string, launchLogId: string | null) {
+  const run = await getRunForInboundJob(job.id);
+  if (run) {
+    await transitionAgentRun(run.id, status, source, { message, launchLogId, event: 'email.rejected' });
+  }
+}
+
+export function getApprovalUrl(token: string): string {
+  return `${getBaseUrl()}/api/approvals/${token}`;
+}
+
+function buildResult(job: InboundJob, status: InboundProcessResult['status'], message: string, launchLogId: string | null): string {
+  const result: InboundProcessResult = { status, message, emailAgentId: job.emailAgentId, cursorAgentId: null, launchLogId };
+  return JSON.stringify(result);
+}
+
+/**
+ * Parks a job until the agent owner approves it and emails them a review link.
+ * A failed email is only logged - the request still shows up in the dashboard.
+ */
+export async function requestLaunchApproval(job: InboundJob, result: InboundProcessResult): Promise<void> {
+  const [agent] = await db
+    .select({
+      name: emailAgent.name,
+      emailAddress: emailAgent.emailAddress,
+      approvalTtlHours: emailAgent.approvalTtlHours,
+      ownerEmail: user.email
+    })
+    .from(emailAgent)
+    .innerJoin(user, eq(emailAgent.userId, user.id))
+    .where(eq(emailAgent.id, job.emailAgentId))
+    .limit(1);
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + (agent?.approvalTtlHours ?? 24) * 60 * 60 * 1000);
+
+  await db.update(inboundJob)
+    .set({
+      status: 'pending_approval',
+      approvalToken: token,
+      approvalExpiresAt: expiresAt,
+      result: JSON.stringify(result),
+      lockedAt: null,
+      updatedAt: new Date()
+    })
+    .where(eq(inboundJob.id, job.id));
+
+  console.log(`⏸️ Inbound job ${job.id} is waiting for approval until ${expiresAt.toISOString()}`);
+
+  if (!agent) {
+    return;
+  }
+
+  const payload: InboundWebhookPayload = JSON.parse(job.payload);
+  const body = (payload.email.cleanedContent.text || '').slice(0, 2000);
+  const reviewUrl = getApprovalUrl(token);
+
+  try {
+    await sendEmail({
+      from: `${agent.name} <${agent.emailAddress || 'agent@bg.inbound.new'}>`,
+      to: agent.ownerEmail,
+      subject: `Approval needed: ${job.emailSubject || 'No subject'}`,
+      text: `${job.senderEmail} emailed ${agent.name}:\n\nSubject: ${job.emailSubject || 'No subject'}\n\n${body}\n\nApprove or reject the launch: ${reviewUrl}\n\nThe request expires ${expiresAt.toUTCString()}.`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Approval needed for ${escapeHtml(agent.name)}</h2>
+          <p><strong>From:</strong> ${escapeHtml(job.senderEmail)}<br><strong>Subject:</strong> ${escapeHtml(job.emailSubject || 'No subject')}</p>
+          <pre style="white-space: pre-wrap; background-color: #f4f4f5; padding: 12px; border-radius: 4px;">${escapeHtml(body)}</pre>
+          <a href="${reviewUrl}" style="background-color: #7C3AED; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">Review Request</a>
+          <p>No agent is launched until you approve. The request expires ${escapeHtml(expiresAt.toUTCString())}.</p>
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error(`Failed to send approval request for job ${job.id}:`, error);
+  }
+}
+
+export async function getJobByApprovalToken(token: string): Promise<InboundJob | null> {
+  const [job] = await db
+    .select()
+    .from(inboundJob)
+    .where(eq(inboundJob.approvalToken, token))
+    .limit(1);
+
+  return job || null;
+}
+
+/**
+ * Approves (re-queues) or rejects a job waiting for approval.
+ * @returns The updated job, or null if it is no longer waiting for approval
+ */
+export async function decideApproval(job: InboundJob, decision: ApprovalDecision): Promise<InboundJob | null> {
+  const now = new Date();
+  const stillPending = and(
+    eq(inboundJob.id, job.id),
+    eq(inboundJob.status, 'pending_approval'),
+    gt(inboundJob.approvalExpiresAt, now)
+  );
+
+  if (decision === 'approve') {
+    const [approved] = await db.update(inboundJob)
+      .set({
+        status: 'pending',
+        approvedAt: now,
+        attempts: 0,
+        nextRunAt: now,
+        updatedAt: now
+      })
+      .where(stillPending)
+      .returning();
+
+    if (approved) {
+      console.log(`👍 Inbound job ${job.id} approved`);
+    }
+    return approved || null;
+  }
+
+  const [rejected] = await db.update(inboundJob)
+    .set({
+      status: 'rejected',
+      completedAt: now,
+      updatedAt: now
+    })
+    .where(stillPending)
+    .returning();
+
+  if (!rejected) {
+    return null;
+  }
+
+  console.log(`👎 Inbound job ${job.id} rejected by the agent owner`);
+
+  const launchLogId = await logAgentLaunch(
+    job.emailAgentId,
+    job.userId,
+    job.senderEmail,
+    job.emailSubject || '',
+    'rejected',
+    undefined,
+    'Launch rejected by the agent owner',
+    { inboundEmailId: job.inboundEmailId }
+  );
+
+  const result = buildResult(job, 'rejected', 'Launch rejected by the agent owner', launchLogId);
+  await db.update(inboundJob)
+    .set({ result })
+    .where(eq(inboundJob.id, job.id));
+
+  await closeJobRun(job, 'cancelled', 'manual', 'Launch rejected by the agent owner', launchLogId);
+
+  return { ...rejected, result };
+}
+
+/**
+ * Expires approval requests past their TTL and lets the senders know.
+ * @returns The number of expired requests
+ */
+export async function expireApprovalRequests(): Promise<number> {
+  const now = new Date();
+
+  const expired = await db.update(inboundJob)
+    .set({
+      status: 'expired',
+      completedAt: now,
+      updatedAt: now
+    })
+    .where(and(
+      eq(inboundJob.status, 'pending_approval'),
+      lte(inboundJob.approvalExpiresAt, now)
+    ))
+    .returning();
+
+  for (const job of expired) {
+    console.log(`⌛ Approval request for inbound job ${job.id} expired`);
+
+    const launchLogId = await logAgentLaunch(
+      job.emailAgentId,
+      job.userId,
+      job.senderEmail,
+      job.emailSubject || '',
+      'rejected',
+      undefined,
+      'Launch was not approved in time',
+      { inboundEmailId: job.inboundEmailId }
+    );
+
+    await db.update(inboundJob)
+      .set({ result: buildResult(job, 'rejected', 'Launch was not approved in time', launchLogId) })
+      .where(eq(inboundJob.id, job.id));
+
+    await closeJobRun(job, 'expired', 'poll', 'Launch was not approved in time', launchLogId);
+
+    try {
+      const [agent] = await db
+        .select({ name: emailAgent.name, emailAddress: emailAgent.emailAddress })
+        .from(emailAgent)
+        .where(eq(emailAgent.id, job.emailAgentId))
+        .limit(1);
+
+      if (agent?.emailAddress) {
+        await replyToEmail(job.inboundEmailId, {
+          from: `${agent.name} <${agent.emailAddress}>`,
+          subject: `Re: ${job.emailSubject || 'Your code request'}`,
+          text: `Hi there,\n\nYour request to ${agent.name} wasn't approved in time, so no agent was launched.\n\nFeel free to send it again if it's still needed.`
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to notify sender about expired job ${job.id}:`, error);
+    }
+  }
+
+  return expired.length;
+}
+
+/**
+ * Validates the approval TTL submitted through the API.
+ * @returns An error message, or null if the TTL is valid
+ */
+export function validateApprovalTtlHours(hours: unknown): string | null {
+  if (typeof hours !== 'number' || !Number.isInteger(hours) || hours < 1 || hours > MAX_APPROVAL_TTL_HOURS) {
+    return `approvalTtlHours must be a whole number of hours between 1 and ${MAX_APPROVAL_TTL_HOURS}`;
+  }
+  return null;
+}
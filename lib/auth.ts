@@ -1,9 +1,11 @@
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { magicLink, mcp } from "better-auth/plugins";
+import { createAuthMiddleware, getSessionFromCtx } from "better-auth/api";
 import { db } from "./db";
 import * as schema from "./schema";
 import { Resend } from "resend";
+import { MCP_SCOPES, DEFAULT_MCP_SCOPES, getRequestedScopes, hasMcpConsent } from "./mcp-scopes";
 
 // Initialize Resend only if API key is available
 // During build time, this might not be available
@@ -51,9 +53,37 @@ export const auth = betterAuth({
       expiresIn: 300, // 5 minutes (default)
     }),
     mcp({
-      loginPage: "/signin" // path to your login page
+      loginPage: "/signin", // path to your login page
+      oidcConfig: {
+        loginPage: "/signin",
+        scopes: [...MCP_SCOPES],
+        defaultScope: DEFAULT_MCP_SCOPES.join(" "),
+      },
     })
   ],
+  hooks: {
+    // MCP clients only get an authorization code once the user consented to the scopes they asked for
+    before: createAuthMiddleware(async (ctx) => {
+      if (ctx.path !== "/mcp/authorize") {
+        return;
+      }
+
+      const query = new URLSearchParams(ctx.query as Record<string, string>).toString();
+      const session = await getSessionFromCtx(ctx);
+      if (!session) {
+        // Signing in comes back here, so the authorization still goes through consent
+        const authorizePath = `${new URL(ctx.context.baseURL).pathname}/mcp/authorize?${query}`;
+        throw ctx.redirect(`/signin?callbackURL=${encodeURIComponent(authorizePath)}`);
+      }
+
+      const clientId = ctx.query?.client_id;
+      if (!clientId || await hasMcpConsent(session.user.id, clientId, getRequestedScopes(ctx.query?.scope))) {
+        return;
+      }
+
+      throw ctx.redirect(`/consent?${query}`);
+    }),
+  },
   emailVerification: {
     sendVerificationEmail: async (data, request) => {
       const { user, url, token } = data;
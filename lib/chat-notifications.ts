@@ -0,0 +1,132 @@
+import type { WebhookEvent, WebhookEventType } from './webhook-events'
+
+/**
+ * Formats webhook events as Slack incoming-webhook and Discord webhook messages. Chat
+ * endpoints are ordinary webhook endpoints with another `kind` - their messages go through
+ * the same deliveries, retries and redelivery as JSON webhooks, only the body differs.
+ */
+
+export const WEBHOOK_ENDPOINT_KINDS = ['webhook', 'slack', 'discord'] as const;
+
+export type WebhookEndpointKind = typeof WEBHOOK_ENDPOINT_KINDS[number];
+
+// What chat endpoints subscribe to unless told otherwise - the events people act on
+export const DEFAULT_CHAT_EVENTS: WebhookEventType[] = ['agent.created', 'email.rejected', 'agent.completed', 'agent.failed', 'batch.completed'];
+
+interface ChatMessage {
+  title: string;
+  lines: string[];
+  url: string | null; // Where the title links to
+  color: number;
+}
+
+const COLORS = {
+  info: 0x3b82f6,
+  success: 0x22c55e,
+  warning: 0xf59e0b,
+  error: 0xef4444,
+};
+
+const TITLES: Record<WebhookEventType, { title: string; color: number }> = {
+  'email.received': { title: '📨 Email received', color: COLORS.info },
+  'email.rejected': { title: '🚫 Email rejected', color: COLORS.warning },
+  'agent.created': { title: '🚀 Agent launched', color: COLORS.info },
+  'agent.running': { title: '🏃 Agent running', color: COLORS.info },
+  'agent.completed': { title: '✅ Agent finished', color: COLORS.success },
+  'agent.failed': { title: '❌ Agent failed', color: COLORS.error },
+  'agent.expired': { title: '⌛ Agent expired', color: COLORS.warning },
+  'reply.sent': { title: '📤 Reply sent', color: COLORS.success },
+  'batch.completed': { title: '📦 Agent batch done', color: COLORS.success },
+};
+
+// Slack and Discord both cap message text, summaries can be long
+const MAX_SUMMARY_LENGTH = 1500;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function buildChatMessage(event: WebhookEvent): ChatMessage {
+  const { data } = event;
+  const lines: string[] = [];
+
+  lines.push(`*Subject:* ${data.email.subject || '(no subject)'}`);
+  if (data.email.from) {
+    lines.push(`*From:* ${data.email.from}`);
+  }
+
+  if (data.agent?.repository) {
+    lines.push(`*Repository:* ${data.agent.repository}${data.agent.branchName ? ` (\`${data.agent.branchName}\`)` : ''}`);
+  }
+  if (data.agent?.prUrl) {
+    lines.push(`*Pull request:* ${data.agent.prUrl}`);
+  }
+  if (data.message && event.type !== 'agent.completed') {
+    lines.push(`*Reason:* ${data.message}`);
+  }
+  if (data.reply) {
+    lines.push(`*Reply:* ${data.reply.subject}`);
+  }
+  if (data.agent?.summary && event.type === 'agent.completed') {
+    lines.push('', truncate(data.agent.summary, MAX_SUMMARY_LENGTH));
+  }
+  if (data.batch) {
+    lines.push('');
+    for (const run of data.batch.runs) {
+      lines.push(`• ${run.task || run.runId}: ${run.status}${run.prUrl ? ` - ${run.prUrl}` : ''}`);
+    }
+  }
+
+  return {
+    ...TITLES[event.type],
+    // A batch is only a success if every agent in it finished
+    ...(data.batch ? { color: data.status === 'finished' ? COLORS.success : COLORS.error } : {}),
+    lines,
+    url: data.agent?.prUrl || (data.agent ? `https://cursor.com/agents?id=${data.agent.id}` : null),
+  };
+}
+
+// Slack reads <...> as links and mentions, so these have to be escaped in user content
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function formatSlackMessage(event: WebhookEvent) {
+  const message = buildChatMessage(event);
+  const title = message.url ? `<${message.url}|${message.title}>` : message.title;
+
+  return {
+    text: message.title, // Shown in notifications
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${title}*` } },
+      { type: 'section', text: { type: 'mrkdwn', text: escapeSlackText(message.lines.join('\n')) } },
+    ],
+  };
+}
+
+export function formatDiscordMessage(event: WebhookEvent) {
+  const message = buildChatMessage(event);
+
+  return {
+    embeds: [{
+      title: message.title,
+      url: message.url || undefined,
+      // Discord uses ** for bold where Slack uses *
+      description: message.lines.map(line => line.replace(/^\*([^*]+):\*/, '**$1:**')).join('\n'),
+      color: message.color,
+      timestamp: event.createdAt,
+    }],
+  };
+}
+
+// The body sent to an endpoint of the given kind
+export function formatEndpointPayload(kind: string, event: WebhookEvent): string {
+  switch (kind) {
+    case 'slack':
+      return JSON.stringify(formatSlackMessage(event));
+    case 'discord':
+      return JSON.stringify(formatDiscordMessage(event));
+    default:
+      return JSON.stringify(event);
+  }
+}
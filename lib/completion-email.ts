@@ -0,0 +1,152 @@
+import { markdownToHtml } from './markdown'
+import type { ChangeStats } from './github'
+
+export const COMPLETION_TEMPLATE_PLACEHOLDERS = [
+  'subject', 'summary', 'repository', 'branch', 'prUrl', 'agentUrl', 'filesChanged', 'agentId', 'date'
+] as const;
+
+export type CompletionTemplatePlaceholder = typeof COMPLETION_TEMPLATE_PLACEHOLDERS[number];
+
+export type CompletionTemplateVariables = Record<CompletionTemplatePlaceholder, string>;
+
+export interface CompletionEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const MAX_COMPLETION_TEMPLATE_LENGTH = 10000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Used for finished agents when an email agent has no custom template. Templates are markdown.
+export const DEFAULT_COMPLETION_TEMPLATE = `
+Hi there!
+
+Great news! I've completed the task you requested.
+
+## What I did
+
+{{summary}}
+
+## Changes
+
+- Pull request: {{prUrl}}
+- Branch: \`{{branch}}\`
+- {{filesChanged}}
+- Repository: {{repository}}
+
+Agent: {{agentId}}
+Completed: {{date}}
+
+Let me know if you need any adjustments!
+`.trim();
+
+// Failed agents always get this reply
+export const ERROR_REPLY_TEMPLATE = `
+Hi there,
+
+I encountered an issue while working on your request.
+
+- Agent: {{agentId}}
+- Repository: {{repository}}
+- Failed at: {{date}}
+
+Please feel free to try again or contact support if the problem persists.
+`.trim();
+
+// Sample values for previews
+export const SAMPLE_COMPLETION_VARIABLES: CompletionTemplateVariables = {
+  subject: 'Add dark mode to settings',
+  summary: [
+    'Added a **dark mode** toggle to the settings page.',
+    '',
+    '- New `ThemeToggle` component',
+    '- Theme preference is saved in `localStorage`',
+    '- Updated the settings page tests'
+  ].join('\n'),
+  repository: 'github.com/acme/webapp',
+  branch: 'cursor/add-dark-mode-1a2b',
+  prUrl: 'https://github.com/acme/webapp/pull/42',
+  agentUrl: 'https://cursor.com/agents?id=bc_sample123',
+  filesChanged: '4 files changed (+120 -8)',
+  agentId: 'bc_sample123',
+  date: new Date('2025-01-15T10:30:00Z').toISOString()
+};
+
+/**
+ * Checks a reply template for unknown placeholders and size limits.
+ * @returns An error message, or null if the template is valid
+ */
+export function validateCompletionTemplate(template: unknown): string | null {
+  if (typeof template !== 'string') {
+    return 'Completion template must be a string';
+  }
+
+  if (template.trim().length === 0) {
+    return 'Completion template cannot be empty';
+  }
+
+  if (template.length > MAX_COMPLETION_TEMPLATE_LENGTH) {
+    return `Completion template cannot be longer than ${MAX_COMPLETION_TEMPLATE_LENGTH} characters`;
+  }
+
+  const unknownPlaceholders = Array.from(template.matchAll(PLACEHOLDER_PATTERN))
+    .map(match => match[1])
+    .filter(name => !(COMPLETION_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+
+  if (unknownPlaceholders.length > 0) {
+    return `Unknown placeholders: ${Array.from(new Set(unknownPlaceholders)).map(name => `{{${name}}}`).join(', ')}. ` +
+      `Available: ${COMPLETION_TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Replaces {{placeholder}} tokens. Lines whose placeholders are all empty are left out,
+ * so e.g. `- Pull request: {{prUrl}}` disappears when no PR was opened.
+ */
+export function renderCompletionTemplate(template: string, variables: CompletionTemplateVariables): string {
+  return template
+    .split('\n')
+    .flatMap(line => {
+      const names = Array.from(line.matchAll(PLACEHOLDER_PATTERN)).map(match => match[1]);
+      const known = names.filter((name): name is CompletionTemplatePlaceholder => name in variables);
+      if (known.length > 0 && known.every(name => !variables[name])) {
+        return [];
+      }
+      return [line.replace(PLACEHOLDER_PATTERN, (token, name: string) =>
+        name in variables ? variables[name as CompletionTemplatePlaceholder] : token
+      )];
+    })
+    .join('\n')
+    .trim();
+}
+
+// "4 files changed (+120 -8)", or empty when the stats aren't available
+export function formatChangeStats(stats: ChangeStats | null): string {
+  if (!stats) {
+    return '';
+  }
+  return `${stats.filesChanged} file${stats.filesChanged === 1 ? '' : 's'} changed (+${stats.additions} -${stats.deletions})`;
+}
+
+export function formatReplySubject(originalSubject: string | null | undefined): string {
+  const subject = originalSubject?.trim() || 'Your code request';
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+}
+
+// Builds the multipart reply: the rendered markdown is the text part and is converted for the HTML part
+export function buildCompletionEmail(
+  template: string,
+  variables: CompletionTemplateVariables
+): CompletionEmail {
+  const text = renderCompletionTemplate(template, variables);
+
+  return {
+    subject: formatReplySubject(variables.subject),
+    text,
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; line-height: 1.5;">\n${markdownToHtml(text)}\n</div>`
+  };
+}
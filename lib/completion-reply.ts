@@ -0,0 +1,253 @@
+import { InboundEmailClient, PostEmailReplyRequest } from '@inboundemail/sdk'
+import { db } from './db'
+import { emailAgent, cursorAgentMapping, agentRun } from './schema'
+import { eq, and, inArray, isNull } from 'drizzle-orm'
+import { normalizeMessageId } from './utils'
+import { getChangeStats } from './github'
+import { getLatestRunForCursorAgent, emitRunEvent } from './agent-runs'
+import { getReplyRecipients } from './reply-recipients'
+import {
+  DEFAULT_COMPLETION_TEMPLATE,
+  ERROR_REPLY_TEMPLATE,
+  buildCompletionEmail,
+  formatChangeStats,
+  type CompletionEmail,
+  type CompletionTemplateVariables,
+} from './completion-email'
+import type { CursorAgent } from './cursor-api'
+
+/**
+ * The reply the sender of an email gets once the agent it launched finished or failed.
+ * Cursor's webhook sends it, and so do the status checks that notice an agent finished
+ * when that webhook never came. The runs waiting for it are claimed before it goes out,
+ * so whichever of them gets there first replies - and only once.
+ */
+
+// What Cursor reports about a finished or failed agent, in the shape of its webhook
+export interface AgentCompletion {
+  id: string;
+  status: 'FINISHED' | 'ERROR';
+  timestamp: string;
+  source: {
+    repository: string;
+    ref: string;
+  };
+  target: {
+    url: string;
+    branchName: string;
+    prUrl?: string;
+  };
+  summary?: string;
+}
+
+export type CompletionReplyResult =
+  | { status: 'sent'; replyId: string | null }
+  | { status: 'skipped'; reason: string }
+  | { status: 'failed'; error: string; details?: unknown };
+
+// Renders the reply for a finished or failed agent
+async function generateReplyContent(
+  completion: AgentCompletion,
+  originalSubject: string | null,
+  completionTemplate: string | null
+): Promise<CompletionEmail> {
+  const { status, summary, source, target } = completion;
+
+  // Diff stats are only worth a GitHub round-trip when there's something to show them for
+  const stats = status === 'FINISHED'
+    ? await getChangeStats(source.repository, target, source.ref)
+    : null;
+
+  const variables: CompletionTemplateVariables = {
+    subject: originalSubject || '',
+    summary: summary || '',
+    repository: source.repository,
+    branch: target.branchName || '',
+    prUrl: target.prUrl || '',
+    agentUrl: target.url || '',
+    filesChanged: formatChangeStats(stats),
+    agentId: completion.id,
+    date: completion.timestamp
+  };
+
+  const template = status === 'FINISHED'
+    ? completionTemplate || DEFAULT_COMPLETION_TEMPLATE
+    : ERROR_REPLY_TEMPLATE;
+
+  return buildCompletionEmail(template, variables);
+}
+
+// Marks the finished email runs of an agent as replied to - nothing to claim means someone else replies
+async function claimRunsForReply(cursorAgentId: string): Promise<string[]> {
+  const runs = await db.update(agentRun)
+    .set({ replySentAt: new Date() })
+    .where(and(
+      eq(agentRun.cursorAgentId, cursorAgentId),
+      eq(agentRun.source, 'email'),
+      inArray(agentRun.status, ['finished', 'error']),
+      isNull(agentRun.replySentAt)
+    ))
+    .returning({ id: agentRun.id });
+
+  return runs.map(run => run.id);
+}
+
+// Lets the next webhook or status check try again
+async function releaseRunsForReply(runIds: string[]): Promise<void> {
+  try {
+    await db.update(agentRun)
+      .set({ replySentAt: null })
+      .where(inArray(agentRun.id, runIds));
+  } catch (error) {
+    console.error('❌ Failed to release runs after a failed reply:', error);
+  }
+}
+
+/**
+ * Replies to the email that launched an agent, once its runs have been moved to finished
+ * or error. Agents that weren't launched by email are skipped.
+ */
+export async function sendCompletionReply(completion: AgentCompletion): Promise<CompletionReplyResult> {
+  const [mapping] = await db
+    .select({
+      originalEmailId: cursorAgentMapping.originalEmailId,
+      emailAddress: cursorAgentMapping.emailAddress,
+      emailAgentId: cursorAgentMapping.emailAgentId,
+      originalSubject: cursorAgentMapping.originalSubject,
+      originalRecipients: cursorAgentMapping.originalRecipients,
+      completionTemplate: emailAgent.completionTemplate,
+      replyAll: emailAgent.replyAll,
+      replyCc: emailAgent.replyCc,
+      replyBcc: emailAgent.replyBcc,
+      replyAllowList: emailAgent.replyAllowList
+    })
+    .from(cursorAgentMapping)
+    .leftJoin(emailAgent, eq(cursorAgentMapping.emailAgentId, emailAgent.id))
+    .where(eq(cursorAgentMapping.cursorAgentId, completion.id))
+    .limit(1);
+
+  if (!mapping) {
+    return { status: 'skipped', reason: 'Agent was not launched by email' };
+  }
+
+  const inboundApiKey = process.env.INBOUND_API_KEY;
+  if (!inboundApiKey) {
+    console.error('❌ INBOUND_API_KEY not configured');
+    return { status: 'failed', error: 'Email service not configured' };
+  }
+
+  const claimedRunIds = await claimRunsForReply(completion.id);
+  if (claimedRunIds.length === 0) {
+    return { status: 'skipped', reason: 'Reply was already sent' };
+  }
+
+  try {
+    const inbound = new InboundEmailClient(inboundApiKey);
+
+    // Generate reply content
+    const reply = await generateReplyContent(completion, mapping.originalSubject, mapping.completionTemplate);
+
+    // Use the email address from the database mapping
+    const fromEmail = mapping.emailAddress;
+
+    console.log('🔍 From email:', fromEmail);
+
+    // The reply goes to the original sender - copy whoever else the agent's settings allow.
+    // One email can reach several agents, so the run has to be this agent's.
+    const [originalRun] = await db
+      .select({ senderEmail: agentRun.senderEmail })
+      .from(agentRun)
+      .where(and(
+        eq(agentRun.inboundEmailId, mapping.originalEmailId),
+        eq(agentRun.emailAgentId, mapping.emailAgentId)
+      ))
+      .limit(1);
+
+    const recipients = getReplyRecipients(
+      {
+        replyAll: mapping.replyAll ?? false,
+        replyCc: mapping.replyCc,
+        replyBcc: mapping.replyBcc,
+        replyAllowList: mapping.replyAllowList
+      },
+      mapping.originalRecipients ? JSON.parse(mapping.originalRecipients) : [],
+      originalRun?.senderEmail || '',
+      mapping.emailAddress
+    );
+
+    if (recipients.blocked.length > 0) {
+      console.warn('⚠️ Not copying reply recipients missing from the allow-list:', recipients.blocked.join(', '));
+    }
+
+    const replyPayload = {
+      from: "Inbound <" + fromEmail + ">" || 'Agent <agent@bg.inbound.new>',
+      text: reply.text,
+      html: reply.html,
+      subject: reply.subject,
+      ...(recipients.cc.length > 0 ? { cc: recipients.cc } : {}),
+      ...(recipients.bcc.length > 0 ? { bcc: recipients.bcc } : {})
+    };
+
+    console.log('📤 Sending reply to', mapping.originalEmailId, 'with payload:', JSON.stringify(replyPayload, null, 2));
+
+    const { data, error } = await inbound.email.sent.reply(mapping.originalEmailId, replyPayload as PostEmailReplyRequest);
+
+    if (error) {
+      console.error('❌ Failed to send reply via Inbound:', error);
+      await releaseRunsForReply(claimedRunIds);
+      return { status: 'failed', error: 'Failed to send email reply', details: error };
+    }
+
+    console.log('✅ Reply sent successfully:', data?.id);
+
+    // Remember the reply's Message-ID so answers to it continue this agent
+    if (data?.messageId) {
+      try {
+        await db.update(cursorAgentMapping)
+          .set({ replyMessageId: normalizeMessageId(data.messageId) })
+          .where(eq(cursorAgentMapping.cursorAgentId, completion.id));
+      } catch (error) {
+        console.error('❌ Failed to store reply Message-ID:', error);
+      }
+    }
+
+    const run = await getLatestRunForCursorAgent(completion.id);
+    if (run) {
+      await emitRunEvent(run, 'reply.sent', { reply: { id: data?.id || null, subject: reply.subject } });
+    }
+
+    return { status: 'sent', replyId: data?.id || null };
+  } catch (replyError) {
+    console.error('❌ Error sending reply:', replyError);
+    await releaseRunsForReply(claimedRunIds);
+    return {
+      status: 'failed',
+      error: 'Failed to send email reply',
+      details: replyError instanceof Error ? replyError.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * For status checks: replies to the email of an agent the Cursor API reports as finished
+ * or failed. Does nothing for agents that are still working.
+ */
+export async function sendCompletionReplyForAgent(agent: CursorAgent): Promise<CompletionReplyResult | null> {
+  if (agent.status !== 'FINISHED' && agent.status !== 'ERROR') {
+    return null;
+  }
+
+  try {
+    return await sendCompletionReply({
+      id: agent.id,
+      status: agent.status,
+      timestamp: new Date().toISOString(),
+      source: agent.source,
+      target: agent.target,
+      summary: agent.summary
+    });
+  } catch (error) {
+    console.error(`❌ Failed to reply for agent ${agent.id}:`, error);
+    return { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
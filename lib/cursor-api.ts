@@ -0,0 +1,199 @@
+import crypto from 'crypto'
+import type { CursorPromptImage } from './email-attachments'
+
+const CURSOR_API_BASE_URL = 'https://api.cursor.com/v0';
+
+export interface CursorAgent {
+  id: string;
+  name: string;
+  status: 'RUNNING' | 'FINISHED' | 'ERROR' | 'CREATING' | 'EXPIRED';
+  source: {
+    repository: string;
+    ref: string;
+  };
+  target: {
+    branchName: string;
+    url: string;
+    prUrl?: string;
+    autoCreatePr: boolean;
+  };
+  summary?: string;
+  createdAt: string;
+}
+
+export interface CursorAgentPage {
+  agents: CursorAgent[];
+  nextCursor?: string;
+}
+
+export interface CursorAgentLaunchRequest {
+  prompt: {
+    text: string;
+    images?: CursorPromptImage[];
+  };
+  model?: string;
+  source: {
+    repository: string;
+    ref?: string;
+  };
+  target?: {
+    autoCreatePr?: boolean;
+    branchName?: string;
+  };
+  webhook?: {
+    url: string;
+    secret?: string;
+  };
+}
+
+export interface CursorLaunchResult {
+  ok: boolean;
+  status: number; // 0 when Cursor didn't answer - it may still have received the request
+  agentId?: string;
+  error?: string;
+}
+
+export interface CursorFollowupResult {
+  ok: boolean;
+  status: number;
+  agentId?: string;
+  error?: string;
+}
+
+export interface CursorCallback {
+  url: string;
+  secret: string;
+}
+
+/**
+ * The webhook Cursor calls when an agent we launch finishes or fails, handled by
+ * /api/cursor-webhooks. Email launches use the email ID as key and keep the secret on
+ * their cursorAgentMapping, other launches use their source and keep it on their runs.
+ */
+export function createCursorCallback(key: string): CursorCallback {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BETTER_AUTH_URL || 'https://bg.inbound.new';
+  return {
+    url: `${baseUrl.startsWith('http') ? baseUrl : `https://${baseUrl}`}/api/cursor-webhooks/${key}`,
+    secret: crypto.randomBytes(32).toString('hex') // Cursor wants at least 32 characters
+  };
+}
+
+function cursorHeaders(apiKey: string): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json'
+  };
+}
+
+/**
+ * Fetches a single agent. Returns null when the agent doesn't exist (anymore).
+ * Throws on any other API error so callers can tell "gone" apart from "Cursor is down".
+ */
+export async function getCursorAgent(apiKey: string, agentId: string): Promise<CursorAgent | null> {
+  const response = await fetch(`${CURSOR_API_BASE_URL}/agents/${agentId}`, {
+    method: 'GET',
+    headers: cursorHeaders(apiKey)
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch agent: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetches one page of the agents visible to an API key, newest first.
+ * Pass the previous page's `nextCursor` to continue. Throws on API errors.
+ */
+export async function listCursorAgents(apiKey: string, cursor?: string, limit: number = 100): Promise<CursorAgentPage> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  const response = await fetch(`${CURSOR_API_BASE_URL}/agents?${params}`, {
+    method: 'GET',
+    headers: cursorHeaders(apiKey)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to list agents: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return { agents: data.agents || [], nextCursor: data.nextCursor || undefined };
+}
+
+// Cursor explains errors as {"error":{"message":...}} - anything else is passed on as it came
+function getCursorErrorMessage(errorText: string): string {
+  try {
+    const message = JSON.parse(errorText)?.error?.message;
+    if (typeof message === 'string' && message) {
+      return message;
+    }
+  } catch {
+    // Not JSON
+  }
+  return errorText;
+}
+
+// Launches a new agent - failures are returned, not thrown, so callers can record them
+export async function launchCursorAgent(apiKey: string, request: CursorAgentLaunchRequest): Promise<CursorLaunchResult> {
+  try {
+    const response = await fetch(`${CURSOR_API_BASE_URL}/agents`, {
+      method: 'POST',
+      headers: cursorHeaders(apiKey),
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Cursor API error:', response.status, errorText);
+      return {
+        ok: false,
+        status: response.status,
+        error: `${response.status} ${getCursorErrorMessage(errorText) || response.statusText}`
+      };
+    }
+
+    const result = await response.json();
+    return { ok: true, status: response.status, agentId: result.id };
+  } catch (error) {
+    return { ok: false, status: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Sends additional instructions to an existing agent
+export async function addCursorAgentFollowup(
+  apiKey: string,
+  agentId: string,
+  text: string,
+  images: CursorPromptImage[] = []
+): Promise<CursorFollowupResult> {
+  const prompt: { text: string; images?: CursorPromptImage[] } = { text };
+  if (images.length > 0) {
+    prompt.images = images;
+  }
+
+  const response = await fetch(`${CURSOR_API_BASE_URL}/agents/${agentId}/followup`, {
+    method: 'POST',
+    headers: cursorHeaders(apiKey),
+    body: JSON.stringify({ prompt })
+  });
+
+  if (!response.ok) {
+    return {
+      ok: false,
+      status: response.status,
+      error: `${response.status} ${response.statusText}`
+    };
+  }
+
+  const result = await response.json();
+  return { ok: true, status: response.status, agentId: result.id };
+}
@@ -0,0 +1,403 @@
+import { db } from './db'
+import { emailAgent, user, senderPolicyRule, agentLaunchLog, agentRun } from './schema'
+import { eq, and, desc, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { createEmailAgent, deleteEmailAgent, updateEmailAgentStatus } from './inbound-email'
+import { validatePromptTemplate } from './prompt-template'
+import { validateCompletionTemplate } from './completion-email'
+import { validateAllowedOverrides } from './subject-commands'
+import { generateInboundVerificationToken } from './inbound-verification'
+import { encryptSecret } from './secrets'
+import { validateApprovalTtlHours } from './approvals'
+import { validateReplyAddresses, validateReplyAllowList, validateFixedReplyRecipients } from './reply-recipients'
+import { validateSenderAuthenticationMode, type SenderAuthenticationMode } from './sender-authentication'
+import { validateSenderPolicyRules, senderRulesFromAllowLists, buildSenderPolicyRuleRows, type SenderPolicyRuleInput } from './sender-policy'
+
+/**
+ * Creating, updating and deleting email agents, shared by the REST routes and the MCP
+ * tools so both validate the same way and provision the same Inbound endpoint and address.
+ */
+
+export type EmailAgent = typeof emailAgent.$inferSelect;
+
+export interface EmailAgentInput {
+  name?: string;
+  githubRepository?: string;
+  githubRef?: string;
+  cursorApiKey?: string | null;
+  model?: string;
+  autoCreatePr?: boolean;
+  isActive?: boolean;
+  allowedDomains?: string[];
+  allowedEmails?: string[];
+  senderRules?: SenderPolicyRuleInput[];
+  allowedOverrides?: string[] | null;
+  promptTemplate?: string | null;
+  completionTemplate?: string | null;
+  senderAuthentication?: SenderAuthenticationMode;
+  requireApproval?: boolean;
+  approvalTtlHours?: number;
+  replyAll?: boolean;
+  replyCc?: string[] | null;
+  replyBcc?: string[] | null;
+  replyAllowList?: string[] | null;
+}
+
+const NAME_PATTERN = /^[a-zA-Z0-9-_]+$/;
+
+const GITHUB_URL_PATTERN = /^https:\/\/github\.com\/[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+
+// Sender rules can be given directly, or as plain allowedDomains / allowedEmails lists
+function getInitialSenderRules(input: EmailAgentInput): SenderPolicyRuleInput[] {
+  return input.senderRules !== undefined
+    ? input.senderRules
+    : senderRulesFromAllowLists(input.allowedDomains, input.allowedEmails);
+}
+
+function toJsonList(list: string[] | null | undefined): string | null {
+  return list && list.length > 0 ? JSON.stringify(list) : null;
+}
+
+function fromJsonList(json: string | null | undefined): string[] | null {
+  return json ? JSON.parse(json) : null;
+}
+
+/**
+ * Validates an agent to create, or the fields of one to update - pass the agent being
+ * updated, since reply recipients are checked together with what it already has. Sender
+ * rules are only checked on create - afterwards they have their own endpoint.
+ * @returns An error message, or null if the input is valid
+ */
+export function validateEmailAgentInput(
+  input: EmailAgentInput,
+  partial: boolean = false,
+  current: EmailAgent | null = null
+): string | null {
+  if (!partial) {
+    if (!input.name || !input.githubRepository) {
+      return 'Missing required fields: name, githubRepository';
+    }
+
+    // The name becomes the local part of the email address
+    if (!NAME_PATTERN.test(input.name)) {
+      return 'Name can only contain letters, numbers, hyphens, and underscores';
+    }
+  }
+
+  if (input.githubRepository && !GITHUB_URL_PATTERN.test(input.githubRepository)) {
+    return 'Invalid GitHub repository URL format';
+  }
+
+  // Blank templates mean the default
+  if (input.promptTemplate) {
+    const templateError = validatePromptTemplate(input.promptTemplate);
+    if (templateError) {
+      return templateError;
+    }
+  }
+  if (input.completionTemplate) {
+    const completionTemplateError = validateCompletionTemplate(input.completionTemplate);
+    if (completionTemplateError) {
+      return completionTemplateError;
+    }
+  }
+
+  // null clears the subject-line override allow-list
+  if (input.allowedOverrides) {
+    const overridesError = validateAllowedOverrides(input.allowedOverrides);
+    if (overridesError) {
+      return overridesError;
+    }
+  }
+
+  if (!partial) {
+    const senderRulesError = validateSenderPolicyRules(getInitialSenderRules(input));
+    if (senderRulesError) {
+      return senderRulesError;
+    }
+  }
+
+  if (input.senderAuthentication !== undefined) {
+    const authenticationError = validateSenderAuthenticationMode(input.senderAuthentication);
+    if (authenticationError) {
+      return authenticationError;
+    }
+  }
+
+  if (input.approvalTtlHours !== undefined) {
+    const ttlError = validateApprovalTtlHours(input.approvalTtlHours);
+    if (ttlError) {
+      return ttlError;
+    }
+  }
+
+  // null or empty clears a completion reply recipient list
+  if (input.replyCc) {
+    const ccError = validateReplyAddresses(input.replyCc, 'replyCc');
+    if (ccError) {
+      return ccError;
+    }
+  }
+  if (input.replyBcc) {
+    const bccError = validateReplyAddresses(input.replyBcc, 'replyBcc');
+    if (bccError) {
+      return bccError;
+    }
+  }
+  if (input.replyAllowList) {
+    const allowListError = validateReplyAllowList(input.replyAllowList);
+    if (allowListError) {
+      return allowListError;
+    }
+  }
+
+  // Fixed recipients the allow-list leaves out would silently never be copied
+  if (input.replyCc !== undefined || input.replyBcc !== undefined || input.replyAllowList !== undefined) {
+    const fixedRecipientsError = validateFixedReplyRecipients(
+      input.replyCc !== undefined ? input.replyCc : fromJsonList(current?.replyCc),
+      input.replyBcc !== undefined ? input.replyBcc : fromJsonList(current?.replyBcc),
+      input.replyAllowList !== undefined ? input.replyAllowList : fromJsonList(current?.replyAllowList)
+    );
+    if (fixedRecipientsError) {
+      return fixedRecipientsError;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The encrypted Cursor API key a new agent gets - the one given, or else the user's
+ * default, which is already stored encrypted and copied as it is.
+ */
+export async function resolveNewAgentCursorApiKey(userId: string, cursorApiKey?: string | null): Promise<string | null> {
+  if (cursorApiKey) {
+    return encryptSecret(cursorApiKey);
+  }
+
+  const [userData] = await db
+    .select({ defaultCursorApiKey: user.defaultCursorApiKey })
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+
+  return userData?.defaultCursorApiKey || null;
+}
+
+/**
+ * Creates the Inbound endpoint and email address of a validated agent and stores it with
+ * its initial sender rules. Throws if Inbound provisioning fails - nothing is stored then.
+ */
+export async function provisionEmailAgent(
+  userId: string,
+  input: EmailAgentInput & { name: string; githubRepository: string },
+  encryptedCursorApiKey: string,
+  baseUrl: string
+): Promise<EmailAgent> {
+  const agentId = nanoid();
+  const webhookUrl = `${baseUrl}/api/inbound/receive/${agentId}`;
+  const inboundVerificationToken = generateInboundVerificationToken();
+
+  let inboundResult;
+  try {
+    inboundResult = await createEmailAgent({
+      name: input.name,
+      webhookUrl,
+      agentId,
+      verificationToken: inboundVerificationToken
+    });
+  } catch (error) {
+    throw new Error(`Failed to create email address: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const [newAgent] = await db
+    .insert(emailAgent)
+    .values({
+      id: agentId,
+      userId,
+      name: input.name,
+      githubRepository: input.githubRepository,
+      githubRef: input.githubRef || 'main',
+      cursorApiKey: encryptedCursorApiKey,
+      model: input.model || 'claude-4-sonnet-thinking',
+      autoCreatePr: input.autoCreatePr || false,
+      promptTemplate: input.promptTemplate || null,
+      completionTemplate: input.completionTemplate || null,
+      isActive: true,
+      allowedOverrides: toJsonList(input.allowedOverrides),
+      senderAuthentication: input.senderAuthentication || 'relaxed',
+      requireApproval: input.requireApproval || false,
+      approvalTtlHours: input.approvalTtlHours || 24,
+      replyAll: input.replyAll || false,
+      replyCc: toJsonList(input.replyCc),
+      replyBcc: toJsonList(input.replyBcc),
+      replyAllowList: toJsonList(input.replyAllowList),
+      inboundEndpointId: inboundResult.endpointId,
+      inboundEmailAddressId: inboundResult.emailAddressId,
+      inboundVerificationToken,
+      emailAddress: inboundResult.emailAddress,
+    })
+    .returning();
+
+  const initialSenderRules = getInitialSenderRules(input);
+  if (initialSenderRules.length > 0) {
+    await db.insert(senderPolicyRule).values(buildSenderPolicyRuleRows(agentId, initialSenderRules));
+  }
+
+  console.log(`📬 Provisioned email agent ${input.name} at ${inboundResult.emailAddress}`);
+  return newAgent;
+}
+
+export async function getUserEmailAgent(userId: string, id: string): Promise<EmailAgent | null> {
+  const [agent] = await db
+    .select()
+    .from(emailAgent)
+    .where(and(
+      eq(emailAgent.id, id),
+      eq(emailAgent.userId, userId)
+    ))
+    .limit(1);
+
+  return agent || null;
+}
+
+// The agents of a user as listed in the dashboard, without keys or tokens
+export async function listEmailAgents(userId: string) {
+  return db
+    .select({
+      id: emailAgent.id,
+      name: emailAgent.name,
+      githubRepository: emailAgent.githubRepository,
+      githubRef: emailAgent.githubRef,
+      model: emailAgent.model,
+      autoCreatePr: emailAgent.autoCreatePr,
+      promptTemplate: emailAgent.promptTemplate,
+      completionTemplate: emailAgent.completionTemplate,
+      isActive: emailAgent.isActive,
+      emailAddress: emailAgent.emailAddress,
+      senderRuleCount: sql<number>`(select count(*) from ${senderPolicyRule} where ${senderPolicyRule.emailAgentId} = ${emailAgent.id})`.mapWith(Number),
+      allowedOverrides: emailAgent.allowedOverrides,
+      senderAuthentication: emailAgent.senderAuthentication,
+      requireApproval: emailAgent.requireApproval,
+      approvalTtlHours: emailAgent.approvalTtlHours,
+      replyAll: emailAgent.replyAll,
+      replyCc: emailAgent.replyCc,
+      replyBcc: emailAgent.replyBcc,
+      replyAllowList: emailAgent.replyAllowList,
+      createdAt: emailAgent.createdAt,
+      updatedAt: emailAgent.updatedAt,
+    })
+    .from(emailAgent)
+    .where(eq(emailAgent.userId, userId));
+}
+
+/**
+ * Applies a validated update, leaving out fields that weren't provided. Pausing or
+ * resuming also updates the Inbound address - if that fails the database still changes.
+ */
+export async function updateEmailAgentSettings(agent: EmailAgent, input: EmailAgentInput): Promise<EmailAgent> {
+  if (input.isActive !== undefined && input.isActive !== agent.isActive) {
+    try {
+      if (agent.inboundEmailAddressId) {
+        await updateEmailAgentStatus(agent.inboundEmailAddressId, input.isActive);
+      }
+    } catch (error) {
+      console.error('Failed to update InboundEmail status:', error);
+    }
+  }
+
+  const updateData: Partial<typeof emailAgent.$inferInsert> = {
+    updatedAt: new Date()
+  };
+
+  if (input.githubRepository !== undefined) updateData.githubRepository = input.githubRepository;
+  if (input.githubRef !== undefined) updateData.githubRef = input.githubRef;
+  if (input.cursorApiKey !== undefined) updateData.cursorApiKey = input.cursorApiKey ? encryptSecret(input.cursorApiKey) : null;
+  if (input.model !== undefined) updateData.model = input.model;
+  if (input.autoCreatePr !== undefined) updateData.autoCreatePr = input.autoCreatePr;
+  if (input.isActive !== undefined) updateData.isActive = input.isActive;
+  if (input.promptTemplate !== undefined) updateData.promptTemplate = input.promptTemplate || null;
+  if (input.completionTemplate !== undefined) updateData.completionTemplate = input.completionTemplate || null;
+  if (input.senderAuthentication !== undefined) updateData.senderAuthentication = input.senderAuthentication;
+  if (input.requireApproval !== undefined) updateData.requireApproval = input.requireApproval;
+  if (input.approvalTtlHours !== undefined) updateData.approvalTtlHours = input.approvalTtlHours;
+  if (input.allowedOverrides !== undefined) updateData.allowedOverrides = toJsonList(input.allowedOverrides);
+  if (input.replyAll !== undefined) updateData.replyAll = input.replyAll;
+  if (input.replyCc !== undefined) updateData.replyCc = toJsonList(input.replyCc);
+  if (input.replyBcc !== undefined) updateData.replyBcc = toJsonList(input.replyBcc);
+  if (input.replyAllowList !== undefined) updateData.replyAllowList = toJsonList(input.replyAllowList);
+
+  const [updatedAgent] = await db
+    .update(emailAgent)
+    .set(updateData)
+    .where(eq(emailAgent.id, agent.id))
+    .returning();
+
+  return updatedAgent;
+}
+
+/**
+ * Deletes an agent and its Inbound endpoint and address. Inbound cleanup failures are
+ * only logged so the agent is always gone from our database.
+ */
+export async function removeEmailAgent(agent: EmailAgent): Promise<void> {
+  if (agent.inboundEndpointId || agent.inboundEmailAddressId) {
+    try {
+      await deleteEmailAgent(
+        agent.inboundEndpointId || '',
+        agent.inboundEmailAddressId || ''
+      );
+    } catch (error) {
+      console.error('Failed to delete from InboundEmail:', error);
+    }
+  }
+
+  await db
+    .delete(emailAgent)
+    .where(eq(emailAgent.id, agent.id));
+
+  console.log(`🗑️ Deleted email agent ${agent.name}`);
+}
+
+// What the API returns - keys and tokens never leave the server
+export function toPublicEmailAgent(agent: EmailAgent) {
+  return {
+    ...agent,
+    cursorApiKey: undefined,
+    inboundVerificationToken: undefined,
+    inboundPreviousVerificationToken: undefined
+  };
+}
+
+// Launch logs of a user, newest first, with what the run of each launch did afterwards
+export async function getAgentLaunchLogs(userId: string, options: { emailAgentId?: string | null; limit?: number } = {}) {
+  return db
+    .select({
+      id: agentLaunchLog.id,
+      emailAgentId: agentLaunchLog.emailAgentId,
+      senderEmail: agentLaunchLog.senderEmail,
+      emailSubject: agentLaunchLog.emailSubject,
+      cursorAgentId: agentLaunchLog.cursorAgentId,
+      status: agentLaunchLog.status,
+      errorMessage: agentLaunchLog.errorMessage,
+      attachments: agentLaunchLog.attachments,
+      overrides: agentLaunchLog.overrides,
+      routing: agentLaunchLog.routing,
+      createdAt: agentLaunchLog.createdAt,
+      agentName: emailAgent.name,
+      runId: agentRun.id,
+      runStatus: agentRun.status,
+      runStatusMessage: agentRun.statusMessage,
+      prUrl: agentRun.prUrl,
+    })
+    .from(agentLaunchLog)
+    .leftJoin(emailAgent, eq(agentLaunchLog.emailAgentId, emailAgent.id))
+    // The launch log records the attempt, the run tracks what the agent did afterwards
+    .leftJoin(agentRun, eq(agentRun.launchLogId, agentLaunchLog.id))
+    .where(and(
+      eq(agentLaunchLog.userId, userId),
+      options.emailAgentId ? eq(agentLaunchLog.emailAgentId, options.emailAgentId) : undefined
+    ))
+    .orderBy(desc(agentLaunchLog.createdAt))
+    .limit(options.limit || 50);
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import type { InboundEmailAttachment } from '@inboundemail/sdk'
+import { getImageDimensions, processEmailAttachments } from './email-attachments'
+
+const KB = 1024;
+
+const originalFetch = globalThis.fetch;
+let requests: Array<{ url: string; authorization: string | null }> = [];
+let pulledChunks = 0;
+
+// Serves `chunks` chunks of `chunkSize` bytes, counting how many the reader asked for
+function streamBody(chunks: number, chunkSize: number, byte = 0x61): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent === chunks) {
+        controller.close();
+        return;
+      }
+      sent++;
+      pulledChunks++;
+      controller.enqueue(new Uint8Array(chunkSize).fill(byte));
+    },
+  });
+}
+
+function serve(body: () => BodyInit) {
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: input.toString(), authorization: new Headers(init?.headers).get('Authorization') });
+    return new Response(body());
+  }) as typeof fetch;
+}
+
+function attachment(overrides: Partial<InboundEmailAttachment> = {}): InboundEmailAttachment {
+  return {
+    filename: 'error.log',
+    contentType: 'text/plain',
+    size: 100,
+    contentId: undefined,
+    contentDisposition: 'attachment',
+    downloadUrl: 'https://inbound.new/api/v2/attachments/email-1/error.log',
+    ...overrides,
+  };
+}
+
+// A PNG header claiming 640x480
+function png(): Buffer {
+  const buffer = Buffer.alloc(24);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.writeUInt32BE(640, 16);
+  buffer.writeUInt32BE(480, 20);
+  return buffer;
+}
+
+beforeEach(() => {
+  requests = [];
+  pulledChunks = 0;
+  process.env.INBOUND_API_KEY = 'inbound-key';
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  delete process.env.INBOUND_API_KEY;
+});
+
+describe('processEmailAttachments', () => {
+  test('inlines text files and sends images with their dimensions', async () => {
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      requests.push({ url: input.toString(), authorization: new Headers(init?.headers).get('Authorization') });
+      return new Response(input.toString().endsWith('.png') ? new Uint8Array(png()) : 'TypeError: undefined is not a function');
+    }) as typeof fetch;
+
+    const result = await processEmailAttachments([
+      attachment(),
+      attachment({ filename: 'screenshot.png', contentType: 'image/png', downloadUrl: 'https://inbound.new/api/v2/attachments/email-1/screenshot.png' }),
+    ]);
+
+    expect(result.textSections).toEqual(['--- Attachment: error.log (text/plain) ---\nTypeError: undefined is not a function\n--- End of error.log ---']);
+    expect(result.images).toEqual([{ data: png().toString('base64'), dimension: { width: 640, height: 480 } }]);
+    expect(result.report.map(entry => entry.status)).toEqual(['included', 'included']);
+    expect(requests.every(request => request.authorization === 'Bearer inbound-key')).toBe(true);
+  });
+
+  test('keeps the head and tail of long text files', async () => {
+    serve(() => `${'a'.repeat(15000)}${'b'.repeat(15000)}`);
+
+    const result = await processEmailAttachments([attachment({ size: 30000 })]);
+
+    expect(result.report[0]).toMatchObject({ status: 'truncated', reason: 'Truncated from 30000 to 20000 characters' });
+    expect(result.textSections[0]).toContain(`${'a'.repeat(10000)}\n\n[... 10000 characters omitted ...]\n\n${'b'.repeat(10000)}`);
+  });
+
+  test('only downloads from Inbound, so the API key goes nowhere else', async () => {
+    serve(() => 'secret');
+
+    const result = await processEmailAttachments([
+      attachment({ downloadUrl: 'https://attacker.example/error.log' }),
+      attachment({ downloadUrl: 'https://inbound.new.attacker.example/error.log' }),
+      attachment({ downloadUrl: 'http://inbound.new/api/v2/attachments/email-1/error.log' }),
+      attachment({ downloadUrl: 'not a url' }),
+    ]);
+
+    expect(requests).toEqual([]);
+    expect(result.report.map(entry => entry.reason)).toEqual([
+      'Download URL is not on https://inbound.new',
+      'Download URL is not on https://inbound.new',
+      'Download URL is not on https://inbound.new',
+      'Invalid download URL',
+    ]);
+  });
+
+  test('stops reading a file that grows past the limit, whatever size was reported', async () => {
+    serve(() => streamBody(100, 64 * KB));
+
+    const result = await processEmailAttachments([attachment({ size: undefined })]);
+
+    expect(result.textSections).toEqual([]);
+    expect(result.report[0]).toMatchObject({ status: 'dropped', reason: 'Larger than 256KB' });
+    expect(pulledChunks).toBeLessThan(10);
+  });
+
+  test("doesn't download files reported as too large", async () => {
+    serve(() => 'unused');
+
+    const result = await processEmailAttachments([
+      attachment({ size: 300 * KB }),
+      attachment({ filename: 'huge.png', contentType: 'image/png', size: 6 * KB * KB }),
+    ]);
+
+    expect(requests).toEqual([]);
+    expect(result.report.map(entry => entry.reason)).toEqual(['File larger than 256KB', 'Image larger than 5MB']);
+  });
+
+  test('drops images past the limit and unsupported files', async () => {
+    serve(() => new Uint8Array(png()));
+
+    const images = Array.from({ length: 6 }, (_, index) => attachment({ filename: `${index}.png`, contentType: 'image/png' }));
+    const result = await processEmailAttachments([...images, attachment({ filename: 'build.zip', contentType: 'application/zip' })]);
+
+    expect(result.images).toHaveLength(5);
+    expect(result.report.slice(5).map(entry => entry.reason)).toEqual(['Image limit reached (max 5)', 'Unsupported attachment type']);
+  });
+
+  test('reports failed downloads', async () => {
+    globalThis.fetch = (async () => new Response('gone', { status: 404, statusText: 'Not Found' })) as unknown as typeof fetch;
+
+    const result = await processEmailAttachments([attachment()]);
+
+    expect(result.report[0]).toMatchObject({ status: 'dropped', reason: 'Download failed: 404 Not Found' });
+  });
+});
+
+describe('getImageDimensions', () => {
+  test('reads PNG and GIF headers and gives up on anything else', () => {
+    expect(getImageDimensions(png())).toEqual({ width: 640, height: 480 });
+    expect(getImageDimensions(Buffer.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x20, 0x00, 0x10, 0x00]))).toEqual({ width: 32, height: 16 });
+    expect(getImageDimensions(Buffer.from('not an image'))).toBeUndefined();
+  });
+});
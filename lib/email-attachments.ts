@@ -0,0 +1,241 @@
+import type { InboundEmailAttachment } from '@inboundemail/sdk'
+
+// Cursor accepts at most 5 images per prompt
+const MAX_IMAGES = 5;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5MB per image
+const MAX_TEXT_ATTACHMENT_BYTES = 256 * 1024; // Don't download text files larger than 256KB
+const MAX_TEXT_CHARS_PER_ATTACHMENT = 20000;
+const MAX_TOTAL_TEXT_CHARS = 50000;
+
+const TEXT_EXTENSIONS = ['.log', '.txt', '.patch', '.diff', '.csv', '.json', '.md', '.yaml', '.yml', '.xml'];
+const TEXT_CONTENT_TYPES = ['application/json', 'application/xml', 'application/x-patch', 'application/x-diff', 'application/csv'];
+
+export interface CursorPromptImage {
+  data: string;
+  dimension?: {
+    width: number;
+    height: number;
+  };
+}
+
+export interface AttachmentReportEntry {
+  filename: string;
+  contentType: string;
+  size: number | null;
+  status: 'included' | 'truncated' | 'dropped';
+  kind: 'image' | 'text' | 'other';
+  reason?: string;
+}
+
+export interface ProcessedAttachments {
+  images: CursorPromptImage[];
+  textSections: string[];
+  report: AttachmentReportEntry[];
+}
+
+function getExtension(filename: string): string {
+  const dotIndex = filename.lastIndexOf('.');
+  return dotIndex === -1 ? '' : filename.slice(dotIndex).toLowerCase();
+}
+
+function isImageAttachment(contentType: string): boolean {
+  return contentType.startsWith('image/');
+}
+
+function isTextAttachment(contentType: string, filename: string): boolean {
+  if (contentType.startsWith('text/')) return true;
+  if (TEXT_CONTENT_TYPES.includes(contentType)) return true;
+  return TEXT_EXTENSIONS.includes(getExtension(filename));
+}
+
+/**
+ * Reads width/height from the header of PNG, JPEG, GIF and WebP images.
+ * Returns undefined for formats we don't recognise - the dimension is optional for Cursor.
+ */
+export function getImageDimensions(buffer: Buffer): CursorPromptImage['dimension'] | undefined {
+  // PNG: IHDR chunk starts at byte 16
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen descriptor, little endian
+  if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+
+  // WebP: RIFF container with VP8/VP8L/VP8X chunk
+  if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = buffer.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    }
+    return undefined;
+  }
+
+  // JPEG: walk the segments until we hit a start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return undefined;
+      const marker = buffer[offset + 1];
+      const segmentLength = buffer.readUInt16BE(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + segmentLength;
+    }
+  }
+
+  return undefined;
+}
+
+// Attachments are only downloaded from Inbound - the API key goes along, so any other host could collect it
+const INBOUND_API_ORIGIN = 'https://inbound.new';
+
+// Reads a response body, giving up as soon as it grows past maxBytes instead of buffering all of it
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Larger than ${Math.round(maxBytes / 1024)}KB`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+async function downloadAttachment(attachment: InboundEmailAttachment, maxBytes: number): Promise<Buffer> {
+  let url: URL;
+  try {
+    url = new URL(attachment.downloadUrl);
+  } catch {
+    throw new Error('Invalid download URL');
+  }
+  if (url.origin !== INBOUND_API_ORIGIN) {
+    throw new Error(`Download URL is not on ${INBOUND_API_ORIGIN}`);
+  }
+
+  const response = await fetch(url, {
+    headers: process.env.INBOUND_API_KEY
+      ? { 'Authorization': `Bearer ${process.env.INBOUND_API_KEY}` }
+      : undefined,
+    signal: AbortSignal.timeout(15000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+
+  return readBodyWithLimit(response, maxBytes);
+}
+
+/**
+ * Converts email attachments into Cursor prompt inputs.
+ * Images become `prompt.images` entries and text-like files (logs, patches, csv, json...)
+ * are inlined as prompt sections. Everything that is skipped ends up in the report with a reason.
+ */
+export async function processEmailAttachments(attachments: InboundEmailAttachment[]): Promise<ProcessedAttachments> {
+  const result: ProcessedAttachments = { images: [], textSections: [], report: [] };
+  let totalTextChars = 0;
+
+  for (const attachment of attachments) {
+    const filename = attachment.filename || 'unnamed';
+    const contentType = (attachment.contentType || 'application/octet-stream').toLowerCase().split(';')[0].trim();
+    const size = attachment.size ?? null;
+    const entry: AttachmentReportEntry = { filename, contentType, size, status: 'dropped', kind: 'other' };
+    result.report.push(entry);
+
+    if (isImageAttachment(contentType)) {
+      entry.kind = 'image';
+
+      if (result.images.length >= MAX_IMAGES) {
+        entry.reason = `Image limit reached (max ${MAX_IMAGES})`;
+        continue;
+      }
+      if (size !== null && size > MAX_IMAGE_BYTES) {
+        entry.reason = `Image larger than ${MAX_IMAGE_BYTES / (1024 * 1024)}MB`;
+        continue;
+      }
+
+      try {
+        // Stops reading past the limit, whether or not the size was reported
+        const buffer = await downloadAttachment(attachment, MAX_IMAGE_BYTES);
+
+        const image: CursorPromptImage = { data: buffer.toString('base64') };
+        const dimension = getImageDimensions(buffer);
+        if (dimension) {
+          image.dimension = dimension;
+        }
+        result.images.push(image);
+        entry.status = 'included';
+      } catch (error) {
+        console.error(`Failed to download image attachment ${filename}:`, error);
+        entry.reason = error instanceof Error ? error.message : 'Download failed';
+      }
+      continue;
+    }
+
+    if (isTextAttachment(contentType, filename)) {
+      entry.kind = 'text';
+
+      if (size !== null && size > MAX_TEXT_ATTACHMENT_BYTES) {
+        entry.reason = `File larger than ${MAX_TEXT_ATTACHMENT_BYTES / 1024}KB`;
+        continue;
+      }
+      if (totalTextChars >= MAX_TOTAL_TEXT_CHARS) {
+        entry.reason = 'Total attachment text limit reached';
+        continue;
+      }
+
+      try {
+        const content = (await downloadAttachment(attachment, MAX_TEXT_ATTACHMENT_BYTES)).toString('utf8');
+        const limit = Math.min(MAX_TEXT_CHARS_PER_ATTACHMENT, MAX_TOTAL_TEXT_CHARS - totalTextChars);
+        let text = content;
+
+        if (content.length > limit) {
+          // Keep the head and tail - for logs the interesting part is usually at the end
+          const half = Math.floor(limit / 2);
+          const omitted = content.length - half * 2;
+          text = `${content.slice(0, half)}\n\n[... ${omitted} characters omitted ...]\n\n${content.slice(-half)}`;
+          entry.status = 'truncated';
+          entry.reason = `Truncated from ${content.length} to ${limit} characters`;
+        } else {
+          entry.status = 'included';
+        }
+
+        totalTextChars += Math.min(content.length, limit);
+        result.textSections.push(`--- Attachment: ${filename} (${contentType}) ---\n${text}\n--- End of ${filename} ---`);
+      } catch (error) {
+        console.error(`Failed to download text attachment ${filename}:`, error);
+        entry.reason = error instanceof Error ? error.message : 'Download failed';
+      }
+      continue;
+    }
+
+    entry.reason = 'Unsupported attachment type';
+  }
+
+  return result;
+}
@@ -0,0 +1,89 @@
+const GITHUB_API_BASE_URL = 'https://api.github.com';
+const GITHUB_REQUEST_TIMEOUT_MS = 5000;
+
+export interface ChangeStats {
+  filesChanged: number;
+  additions: number;
+  deletions: number;
+}
+
+// The parts of GitHub's pull request response we read
+interface GitHubPullRequest {
+  changed_files: number;
+  additions: number;
+  deletions: number;
+}
+
+// The parts of GitHub's compare response we read - `files` is missing when nothing changed
+interface GitHubComparison {
+  files?: Array<{ additions: number; deletions: number }>;
+}
+
+// Accepts https://github.com/owner/repo, github.com/owner/repo and owner/repo
+export function parseGitHubRepository(repository: string): { owner: string; repo: string } | null {
+  const match = repository.trim().match(/^(?:https?:\/\/)?(?:github\.com\/)?([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+async function githubRequest<T>(path: string): Promise<T> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github+json',
+    'User-Agent': 'bg-by-inbound'
+  };
+  // Without a token only public repositories can be read (and rate limits are low)
+  if (process.env.GITHUB_TOKEN) {
+    headers['Authorization'] = `Bearer ${process.env.GITHUB_TOKEN}`;
+  }
+
+  const response = await fetch(`${GITHUB_API_BASE_URL}${path}`, {
+    headers,
+    signal: AbortSignal.timeout(GITHUB_REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub API request failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Looks up how much an agent changed - from its pull request if it opened one,
+ * otherwise by comparing its branch with the ref it started from.
+ * @returns The stats, or null if GitHub couldn't tell us (private repo without a token, deleted branch, ...)
+ */
+export async function getChangeStats(
+  repository: string,
+  target: { prUrl?: string; branchName?: string },
+  baseRef: string
+): Promise<ChangeStats | null> {
+  const parsed = parseGitHubRepository(repository);
+  if (!parsed) {
+    return null;
+  }
+  const repoPath = `/repos/${parsed.owner}/${parsed.repo}`;
+
+  try {
+    const pullNumber = target.prUrl?.match(/\/pull\/(\d+)/)?.[1];
+    if (pullNumber) {
+      const pull = await githubRequest<GitHubPullRequest>(`${repoPath}/pulls/${pullNumber}`);
+      return { filesChanged: pull.changed_files, additions: pull.additions, deletions: pull.deletions };
+    }
+
+    if (target.branchName) {
+      const comparison = await githubRequest<GitHubComparison>(
+        `${repoPath}/compare/${encodeURIComponent(baseRef)}...${encodeURIComponent(target.branchName)}`
+      );
+      const files = comparison.files || [];
+      return {
+        filesChanged: files.length,
+        additions: files.reduce((sum, file) => sum + file.additions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0)
+      };
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not fetch change stats from GitHub:', error instanceof Error ? error.message : error);
+  }
+
+  return null;
+}
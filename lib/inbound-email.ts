@@ -1,4 +1,4 @@
-import { Inbound } from '@inboundemail/sdk'
+import { Inbound, type PostEmailsRequest, type PostEmailReplyRequest } from '@inboundemail/sdk'
 
 // Lazy initialize the Inbound client to avoid build-time errors
 let inbound: Inbound | null = null;
@@ -17,6 +17,7 @@ interface CreateEmailAgentParams {
   name: string;
   webhookUrl: string;
   agentId: string;
+  verificationToken: string;
 }
 
 interface EmailAgentResult {
@@ -37,6 +38,7 @@ export async function createEmailAgent(params: CreateEmailAgentParams): Promise<
           url: params.webhookUrl,
           timeout: 10,
           retryAttempts: 3,
+          verificationToken: params.verificationToken,
         }
       });
       console.log('Successfully created endpoint:', endpointData.data?.id);
@@ -83,6 +85,27 @@ export async function deleteEmailAgent(endpointId: string, emailAddressId: strin
   }
 }
 
+// Sets (or rotates) the verification token Inbound sends with each webhook delivery
+export async function updateEmailAgentVerificationToken(
+  endpointId: string,
+  webhookUrl: string,
+  verificationToken: string
+): Promise<void> {
+  try {
+    await getInboundClient().endpoints.update(endpointId, {
+      config: {
+        url: webhookUrl,
+        timeout: 10,
+        retryAttempts: 3,
+        verificationToken,
+      }
+    });
+  } catch (error) {
+    console.error('Error updating endpoint verification token:', error);
+    throw new Error(`Failed to update endpoint verification token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function updateEmailAgentStatus(emailAddressId: string, isActive: boolean): Promise<void> {
   try {
     if (emailAddressId) {
@@ -96,4 +119,19 @@ export async function updateEmailAgentStatus(emailAddressId: string, isActive: b
   }
 }
 
+export async function sendEmail(params: PostEmailsRequest): Promise<void> {
+  const { error } = await getInboundClient().email.send(params);
+  if (error) {
+    throw new Error(`Failed to send email: ${error}`);
+  }
+}
+
+// Replies in the thread of an email the agent received
+export async function replyToEmail(emailId: string, params: PostEmailReplyRequest): Promise<void> {
+  const { error } = await getInboundClient().email.sent.reply(emailId, params);
+  if (error) {
+    throw new Error(`Failed to send reply: ${error}`);
+  }
+}
+
 export { getInboundClient as inbound };
\ No newline at end of file
@@ -0,0 +1,625 @@
+import type { InboundWebhookPayload, InboundWebhookEmail } from '@inboundemail/sdk'
+import { db } from './db'
+import { emailAgent, user, agentLaunchLog, cursorAgentMapping, emailAgentTarget, emailAgentRoutingRule, senderPolicyRule } from './schema'
+import { eq, and, or, inArray, desc } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { extractEmailAddress, normalizeMessageId } from './utils'
+import { processEmailAttachments, type CursorPromptImage, type AttachmentReportEntry } from './email-attachments'
+import { renderPromptTemplate, buildPromptVariables, formatAttachmentsSection } from './prompt-template'
+import { parseSubjectCommands, resolveSubjectCommands, type SubjectCommandResult } from './subject-commands'
+import { selectRoutingTarget, type RoutingLogEntry } from './routing'
+import {
+  getCursorAgent,
+  addCursorAgentFollowup,
+  launchCursorAgent,
+  createCursorCallback,
+  type CursorAgentLaunchRequest,
+  type CursorCallback
+} from './cursor-api'
+import { parseAuthenticationResults, checkSenderAuthentication, type SenderAuthenticationMode } from './sender-authentication'
+import { evaluateSenderPolicy, checkRepositoryLimit } from './sender-policy'
+import { collectOriginalRecipients } from './reply-recipients'
+import { decryptSecret } from './secrets'
+import type { EmailAgent } from './email-agents'
+
+/**
+ * Turns a received email into a Cursor agent launch (or a follow-up on an existing agent).
+ * Runs from the inbound job queue: transient failures throw so the job is retried,
+ * permanent ones are logged and returned as a `failed` result.
+ */
+
+export interface InboundProcessResult {
+  status: 'created' | 'followup' | 'rejected' | 'failed' | 'pending_approval';
+  message: string;
+  emailAgentId: string;
+  cursorAgentId: string | null;
+  launchLogId: string | null;
+}
+
+// What an email launches its agent with: the email agent's settings, overridden by its routing target and subject commands
+type EmailLaunchConfig = Pick<EmailAgent, 'githubRepository' | 'githubRef' | 'model' | 'autoCreatePr' | 'branchName'>;
+
+// Optional extra information recorded with a launch log entry
+interface LaunchLogDetails {
+  inboundEmailId?: string;
+  attachments?: AttachmentReportEntry[];
+  overrides?: SubjectCommandResult;
+  routing?: RoutingLogEntry;
+}
+
+// Rate limits and server errors mean Cursor didn't take the request, so it's worth another
+// attempt. A network error (status 0) may have happened after Cursor took it - retrying could
+// launch twice, so the launch fails instead
+function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Cursor's answer to a failed request, or a reminder to check Cursor if there was none
+function describeCursorFailure(status: number, error?: string): string {
+  return status === 0
+    ? `${error} - Cursor may still have received the request, check it before resending the email`
+    : `${error}`;
+}
+
+function buildLaunchRequest(
+  config: EmailLaunchConfig,
+  prompt: string,
+  images: CursorPromptImage[],
+  callback: CursorCallback
+): CursorAgentLaunchRequest {
+  return {
+    prompt: images.length > 0 ? { text: prompt, images } : { text: prompt },
+    ...(config.model ? { model: config.model } : {}),
+    source: {
+      repository: config.githubRepository,
+      ref: config.githubRef || 'main'
+    },
+    target: {
+      autoCreatePr: config.autoCreatePr,
+      ...(config.branchName ? { branchName: config.branchName } : {})
+    },
+    webhook: callback
+  };
+}
+
+// Finds the agent this email continues, based on its In-Reply-To / References headers
+async function findThreadMapping(emailAgentId: string, email: InboundWebhookEmail) {
+  const referencedIds = [
+    email.parsedData?.inReplyTo,
+    ...(email.parsedData?.references || [])
+  ]
+    .filter((id): id is string => !!id)
+    .map(normalizeMessageId);
+
+  if (referencedIds.length === 0) {
+    return null;
+  }
+
+  const mappings = await db
+    .select()
+    .from(cursorAgentMapping)
+    .where(and(
+      eq(cursorAgentMapping.emailAgentId, emailAgentId),
+      or(
+        inArray(cursorAgentMapping.originalMessageId, referencedIds),
+        inArray(cursorAgentMapping.replyMessageId, referencedIds),
+        inArray(cursorAgentMapping.originalEmailId, referencedIds)
+      )
+    ))
+    .orderBy(desc(cursorAgentMapping.createdAt))
+    .limit(1);
+
+  return mappings[0] || null;
+}
+
+// Finds a launch or follow-up that was already made - or started - for this email
+async function findPreviousLaunch(emailAgentId: string, inboundEmailId: string) {
+  const launches = await db
+    .select({
+      id: agentLaunchLog.id,
+      cursorAgentId: agentLaunchLog.cursorAgentId,
+      status: agentLaunchLog.status
+    })
+    .from(agentLaunchLog)
+    .where(and(
+      eq(agentLaunchLog.emailAgentId, emailAgentId),
+      eq(agentLaunchLog.inboundEmailId, inboundEmailId),
+      inArray(agentLaunchLog.status, ['success', 'followup', 'launching'])
+    ))
+    .orderBy(desc(agentLaunchLog.createdAt))
+    .limit(1);
+
+  return launches[0] || null;
+}
+
+/**
+ * Records a launch attempt for the dashboard.
+ * @returns The ID of the log entry, or null if it couldn't be written
+ */
+export async function logAgentLaunch(
+  emailAgentId: string,
+  userId: string,
+  senderEmail: string,
+  emailSubject: string,
+  status: 'success' | 'followup' | 'failed' | 'rejected',
+  cursorAgentId?: string,
+  errorMessage?: string,
+  details: LaunchLogDetails = {}
+): Promise<string | null> {
+  try {
+    const id = nanoid();
+    await db.insert(agentLaunchLog).values({
+      id,
+      emailAgentId,
+      userId,
+      senderEmail,
+      emailSubject: emailSubject || null,
+      inboundEmailId: details.inboundEmailId || null,
+      cursorAgentId: cursorAgentId || null,
+      status,
+      errorMessage: errorMessage || null,
+      attachments: details.attachments && details.attachments.length > 0 ? JSON.stringify(details.attachments) : null,
+      overrides: details.overrides ? JSON.stringify(details.overrides) : null,
+      routing: details.routing ? JSON.stringify(details.routing) : null,
+    });
+    return id;
+  } catch (error) {
+    console.error('Failed to log agent launch:', error);
+    return null;
+  }
+}
+
+/**
+ * Records that an email is about to launch an agent or send a follow-up, before Cursor is
+ * called. A retried job finds it and doesn't call Cursor a second time, so failing to write
+ * it fails the job instead of going ahead.
+ * @returns The ID of the log entry, to finish with finishLaunch
+ */
+async function startLaunch(
+  emailAgentId: string,
+  userId: string,
+  senderEmail: string,
+  emailSubject: string,
+  cursorAgentId: string | null,
+  details: LaunchLogDetails
+): Promise<string> {
+  const id = nanoid();
+  await db.insert(agentLaunchLog).values({
+    id,
+    emailAgentId,
+    userId,
+    senderEmail,
+    emailSubject: emailSubject || null,
+    inboundEmailId: details.inboundEmailId || null,
+    cursorAgentId,
+    status: 'launching',
+    attachments: details.attachments && details.attachments.length > 0 ? JSON.stringify(details.attachments) : null,
+    overrides: details.overrides ? JSON.stringify(details.overrides) : null,
+    routing: details.routing ? JSON.stringify(details.routing) : null,
+  });
+  return id;
+}
+
+// Records how a started launch ended - throws if it can't, like startLaunch
+async function finishLaunch(
+  launchLogId: string,
+  status: 'success' | 'followup' | 'failed',
+  cursorAgentId: string | null,
+  errorMessage?: string,
+  executor: Pick<typeof db, 'update'> = db
+): Promise<void> {
+  await executor.update(agentLaunchLog)
+    .set({ status, cursorAgentId, errorMessage: errorMessage || null })
+    .where(eq(agentLaunchLog.id, launchLogId));
+}
+
+// Forgets a started launch that didn't reach Cursor, so the retry can make it
+async function abandonLaunch(launchLogId: string): Promise<void> {
+  await db.delete(agentLaunchLog).where(eq(agentLaunchLog.id, launchLogId));
+}
+
+export interface InboundProcessOptions {
+  approved?: boolean; // The owner already approved this email
+}
+
+export async function processInboundEmail(
+  configId: string,
+  payload: InboundWebhookPayload,
+  options: InboundProcessOptions = {}
+): Promise<InboundProcessResult> {
+  const { email } = payload
+
+  // Process and log the email
+  console.log('=== Processing Email ===')
+  console.log(`Config ID: ${configId}`)
+  console.log(`From: ${email.from?.text}`)
+  console.log(`To: ${email.to?.text}`)
+  console.log(`Subject: ${email.subject}`)
+  console.log(`Body: ${email.cleanedContent.text}`)
+  console.log('========================')
+
+  // Get the specific email agent by ID with user data for default key
+  const agentWithUser = await db
+    .select({
+      agent: emailAgent,
+      userDefaultKey: user.defaultCursorApiKey
+    })
+    .from(emailAgent)
+    .leftJoin(user, eq(emailAgent.userId, user.id))
+    .where(and(
+      eq(emailAgent.id, configId),
+      eq(emailAgent.isActive, true)
+    ))
+    .limit(1);
+
+  if (agentWithUser.length === 0) {
+    console.log(`No active email agent found for ID: ${configId}`);
+    return {
+      status: 'failed',
+      message: 'Email agent not found or inactive',
+      emailAgentId: configId,
+      cursorAgentId: null,
+      launchLogId: null
+    };
+  }
+
+  const emailAgentConfig = agentWithUser[0].agent;
+  const defaultCursorApiKey = agentWithUser[0].userDefaultKey;
+  const senderEmailText = email.from?.text || 'unknown@example.com';
+  const senderEmail = extractEmailAddress(senderEmailText);
+
+  const result = (
+    status: InboundProcessResult['status'],
+    message: string,
+    cursorAgentId: string | null,
+    launchLogId: string | null
+  ): InboundProcessResult => ({ status, message, emailAgentId: configId, cursorAgentId, launchLogId });
+
+  // A job can be picked up again after its worker died mid-way - never launch a second agent for the same email
+  const previousLaunch = await findPreviousLaunch(configId, email.id);
+  if (previousLaunch && previousLaunch.status !== 'launching') {
+    console.log(`Email ${email.id} already launched Cursor agent ${previousLaunch.cursorAgentId}, skipping`);
+    return result(
+      previousLaunch.status === 'followup' ? 'followup' : 'created',
+      'Email was already processed',
+      previousLaunch.cursorAgentId,
+      previousLaunch.id
+    );
+  }
+
+  // The worker may also have died between creating the agent and logging the launch
+  const previousMapping = await db
+    .select({ cursorAgentId: cursorAgentMapping.cursorAgentId })
+    .from(cursorAgentMapping)
+    .where(and(
+      eq(cursorAgentMapping.emailAgentId, configId),
+      eq(cursorAgentMapping.originalEmailId, email.id)
+    ))
+    .limit(1);
+
+  if (previousMapping.length > 0) {
+    const { cursorAgentId } = previousMapping[0];
+    console.log(`Email ${email.id} already launched Cursor agent ${cursorAgentId}, logging the launch`);
+
+    let launchLogId: string | null;
+    if (previousLaunch) {
+      await finishLaunch(previousLaunch.id, 'success', cursorAgentId);
+      launchLogId = previousLaunch.id;
+    } else {
+      launchLogId = await logAgentLaunch(
+        configId,
+        emailAgentConfig.userId,
+        senderEmail,
+        email.subject || '',
+        'success',
+        cursorAgentId,
+        undefined,
+        { inboundEmailId: email.id }
+      );
+    }
+
+    return result('created', 'Email was already processed', cursorAgentId, launchLogId);
+  }
+
+  // Cursor was called, but whether it launched an agent or took the follow-up is unknown -
+  // calling it again could do either twice, so the email is left for the owner to check
+  if (previousLaunch) {
+    const message = previousLaunch.cursorAgentId
+      ? `Interrupted while sending the follow-up to Cursor agent ${previousLaunch.cursorAgentId} - check whether it arrived`
+      : 'Interrupted while launching the Cursor agent - check Cursor for an agent started by this email';
+    console.error(`Email ${email.id}: ${message}`);
+
+    await finishLaunch(previousLaunch.id, 'failed', previousLaunch.cursorAgentId, message);
+    return result('failed', message, previousLaunch.cursorAgentId, previousLaunch.id);
+  }
+
+  // Check sender permissions
+  const senderRules = await db
+    .select()
+    .from(senderPolicyRule)
+    .where(eq(senderPolicyRule.emailAgentId, configId));
+  const senderPolicy = evaluateSenderPolicy(senderRules, senderEmail);
+
+  if (!senderPolicy.allowed) {
+    console.log(`Email from ${senderEmail} rejected for agent ${configId}: ${senderPolicy.reason}`);
+
+    const launchLogId = await logAgentLaunch(
+      configId,
+      emailAgentConfig.userId,
+      senderEmail,
+      email.subject || '',
+      'rejected',
+      undefined,
+      senderPolicy.reason,
+      { inboundEmailId: email.id }
+    );
+
+    return result('rejected', 'Email sender not authorized for this agent', null, launchLogId);
+  }
+
+  // The From header is easy to forge, so it has to be authenticated too - unless the agent turned that off
+  const authentication = checkSenderAuthentication(
+    parseAuthenticationResults(email.parsedData?.headers || email.cleanedContent.headers),
+    senderEmail,
+    emailAgentConfig.senderAuthentication as SenderAuthenticationMode
+  );
+
+  if (!authentication.ok) {
+    console.log(`Email from ${senderEmail} rejected - sender authentication failed for agent ${configId}: ${authentication.reason}`);
+
+    const launchLogId = await logAgentLaunch(
+      configId,
+      emailAgentConfig.userId,
+      senderEmail,
+      email.subject || '',
+      'rejected',
+      undefined,
+      `Sender authentication failed (possible spoofing): ${authentication.reason}`,
+      { inboundEmailId: email.id }
+    );
+
+    return result('rejected', 'Email sender failed SPF/DKIM/DMARC checks', null, launchLogId);
+  }
+
+  // Determine which Cursor API key to use
+  const cursorApiKey = decryptSecret(emailAgentConfig.cursorApiKey || defaultCursorApiKey);
+
+  if (!cursorApiKey) {
+    console.error(`No Cursor API key available for agent ID: ${configId}`);
+
+    const launchLogId = await logAgentLaunch(
+      configId,
+      emailAgentConfig.userId,
+      senderEmail,
+      email.subject || '',
+      'failed',
+      undefined,
+      'No Cursor API key configured',
+      { inboundEmailId: email.id }
+    );
+
+    return result('failed', 'No Cursor API key configured for this agent', null, launchLogId);
+  }
+
+  // Apply allow-listed subject-line overrides like [model:gpt-5] [ref:main] [pr] for this launch only
+  const { commands, subject: cleanSubject } = parseSubjectCommands(email.subject || '');
+  const allowedOverrides: string[] = emailAgentConfig.allowedOverrides ? JSON.parse(emailAgentConfig.allowedOverrides) : [];
+  const subjectCommands = resolveSubjectCommands(commands, allowedOverrides);
+
+  if (subjectCommands.rejected.length > 0) {
+    console.log('🚫 Rejected subject overrides:', subjectCommands.rejected);
+  }
+
+  // Pick the repository target from the agent's routing rules
+  const [targets, rules] = await Promise.all([
+    db.select().from(emailAgentTarget).where(eq(emailAgentTarget.emailAgentId, configId)),
+    db.select().from(emailAgentRoutingRule).where(eq(emailAgentRoutingRule.emailAgentId, configId))
+  ]);
+  const routing = selectRoutingTarget(targets, rules, {
+    senderEmail,
+    subject: cleanSubject,
+    body: email.cleanedContent.text || ''
+  });
+  const targetConfig = routing.target
+    ? {
+        githubRepository: routing.target.githubRepository,
+        githubRef: routing.target.githubRef,
+        model: routing.target.model || emailAgentConfig.model,
+        autoCreatePr: routing.target.autoCreatePr,
+        branchName: routing.target.branchName,
+      }
+    : {};
+
+  if (targets.length > 0) {
+    console.log(`🧭 Routed to ${routing.target?.name || 'agent repository'} (${routing.rule ? `rule: ${routing.rule.name}` : routing.reason})`);
+  }
+
+  // Subject overrides apply on top of the routed target
+  const launchConfig = { ...emailAgentConfig, ...targetConfig, ...subjectCommands.overrides };
+
+  // The matched sender rule can restrict which repositories the sender reaches and whether PRs are opened
+  const repositoryViolation = checkRepositoryLimit(senderPolicy.limits, launchConfig.githubRepository);
+  if (repositoryViolation) {
+    console.log(`Email from ${senderEmail} rejected for agent ${configId}: ${repositoryViolation}`);
+
+    const launchLogId = await logAgentLaunch(
+      configId,
+      emailAgentConfig.userId,
+      senderEmail,
+      email.subject || '',
+      'rejected',
+      undefined,
+      repositoryViolation,
+      { inboundEmailId: email.id, overrides: commands.length > 0 ? subjectCommands : undefined }
+    );
+
+    return result('rejected', 'Email sender may not target this repository', null, launchLogId);
+  }
+
+  if (!senderPolicy.limits.allowAutoPr && launchConfig.autoCreatePr) {
+    const prCommand = commands.find(command => command.name === 'pr');
+    if (subjectCommands.overrides.autoCreatePr && prCommand) {
+      subjectCommands.rejected.push({ tag: prCommand.raw, reason: 'Sender may not request auto-PR' });
+    }
+    launchConfig.autoCreatePr = false;
+  }
+
+  // Agents guarding production repos wait for the owner before launching or following up
+  if (emailAgentConfig.requireApproval && !options.approved) {
+    console.log(`⏸️ Email from ${senderEmail} needs approval for agent ${configId}`);
+    return result('pending_approval', 'Waiting for the agent owner to approve the launch', null, null);
+  }
+
+  // Convert attachments into prompt images and inlined text sections
+  const attachments = email.parsedData?.attachments?.length
+    ? email.parsedData.attachments
+    : email.cleanedContent.attachments || [];
+  const processedAttachments = await processEmailAttachments(attachments);
+
+  if (processedAttachments.report.length > 0) {
+    console.log('📎 Processed attachments:', processedAttachments.report);
+  }
+
+  const attachmentsSection = formatAttachmentsSection(processedAttachments.textSections);
+
+  const launchDetails: LaunchLogDetails = {
+    inboundEmailId: email.id,
+    attachments: processedAttachments.report,
+    overrides: commands.length > 0 ? subjectCommands : undefined,
+    routing: {
+      reason: routing.reason,
+      ruleId: routing.rule?.id,
+      ruleName: routing.rule?.name,
+      targetId: routing.target?.id,
+      targetName: routing.target?.name,
+      repository: launchConfig.githubRepository
+    }
+  };
+
+  // Replies to one of our emails are sent to the existing agent as a follow-up
+  const threadMapping = await findThreadMapping(configId, email);
+
+  if (threadMapping) {
+    // Lookup errors throw, so the job is retried rather than launching a duplicate agent
+    const existingAgent = await getCursorAgent(cursorApiKey, threadMapping.cursorAgentId);
+
+    if (existingAgent && existingAgent.status !== 'EXPIRED') {
+      const followupText = `
+Follow-up email from ${senderEmailText || 'Unknown sender'}:
+
+Subject: ${cleanSubject || 'No subject'}
+
+${email.cleanedContent.text || 'No content'}${attachmentsSection}
+      `.trim();
+
+      const followupLogId = await startLaunch(
+        configId,
+        emailAgentConfig.userId,
+        senderEmail,
+        email.subject || '',
+        existingAgent.id,
+        launchDetails
+      );
+
+      const followup = await addCursorAgentFollowup(
+        cursorApiKey,
+        existingAgent.id,
+        followupText,
+        processedAttachments.images
+      );
+
+      if (followup.ok) {
+        console.log(`Sent follow-up to Cursor agent ${existingAgent.id} for email agent ${emailAgentConfig.name}`);
+
+        await finishLaunch(followupLogId, 'followup', existingAgent.id);
+        return result('followup', 'Email sent as follow-up to existing Cursor agent', existingAgent.id, followupLogId);
+      }
+
+      if (isTransientStatus(followup.status)) {
+        await abandonLaunch(followupLogId);
+        throw new Error(`Cursor follow-up request failed: ${followup.error}`);
+      }
+
+      // 404/409 mean the agent is gone or archived - fall through and launch a new one
+      if (followup.status !== 404 && followup.status !== 409) {
+        console.error(`Failed to send follow-up to Cursor agent ${existingAgent.id}:`, followup.error);
+
+        await finishLaunch(
+          followupLogId,
+          'failed',
+          existingAgent.id,
+          `Cursor follow-up request failed: ${describeCursorFailure(followup.status, followup.error)}`
+        );
+        return result('failed', 'Failed to send follow-up to Cursor agent', existingAgent.id, followupLogId);
+      }
+
+      await abandonLaunch(followupLogId);
+    }
+
+    console.log(`Thread agent ${threadMapping.cursorAgentId} has expired, launching a new agent`);
+  }
+
+  // Create prompt for the specific email agent from its template (or the default one)
+  const prompt = renderPromptTemplate(emailAgentConfig.promptTemplate, {
+    ...buildPromptVariables(email, attachmentsSection),
+    subject: cleanSubject || 'No subject'
+  });
+
+  // Cursor reports back to /api/cursor-webhooks/<email ID> - the secret is kept on the agent's mapping
+  const callback = createCursorCallback(email.id);
+  const launchRequest = buildLaunchRequest(launchConfig, prompt, processedAttachments.images, callback);
+
+  // Don't dump base64 image data into the logs
+  console.log('Creating Cursor agent with request:', JSON.stringify({
+    ...launchRequest,
+    prompt: { ...launchRequest.prompt, images: launchRequest.prompt.images?.map(image => image.dimension || 'unknown dimension') },
+    webhook: { url: callback.url }
+  }, null, 2));
+
+  const launchLogId = await startLaunch(
+    configId,
+    emailAgentConfig.userId,
+    senderEmail,
+    email.subject || '',
+    null,
+    launchDetails
+  );
+
+  const launch = await launchCursorAgent(cursorApiKey, launchRequest);
+  const originalRecipients = collectOriginalRecipients(email.parsedData?.to || email.to, email.parsedData?.cc);
+
+  if (launch.ok && launch.agentId) {
+    const cursorAgentId = launch.agentId;
+    console.log(`Created Cursor agent ${cursorAgentId} for email agent ${emailAgentConfig.name}`);
+
+    // Replies and follow-ups find the agent through its mapping - without one the job fails,
+    // and the retry reports the launch as interrupted rather than launching again
+    await db.transaction(async (tx) => {
+      await tx.insert(cursorAgentMapping).values({
+        id: nanoid(),
+        cursorAgentId,
+        emailAgentId: configId,
+        originalEmailId: email.id,
+        originalMessageId: email.messageId ? normalizeMessageId(email.messageId) : null,
+        originalSubject: email.subject || null,
+        // Emails only arrive at an agent's own address - fall back to where this one was sent
+        emailAddress: emailAgentConfig.emailAddress || extractEmailAddress(email.to?.text || ''),
+        webhookSecret: callback.secret,
+        originalRecipients: originalRecipients.length > 0 ? JSON.stringify(originalRecipients) : null,
+      });
+      await finishLaunch(launchLogId, 'success', cursorAgentId, undefined, tx);
+    });
+
+    return result('created', 'Email processed and Cursor agent created', cursorAgentId, launchLogId);
+  }
+
+  if (isTransientStatus(launch.status)) {
+    await abandonLaunch(launchLogId);
+    throw new Error(`Cursor API request failed: ${launch.error}`);
+  }
+
+  console.error(`Failed to create Cursor agent for email agent ${emailAgentConfig.name}`);
+
+  await finishLaunch(launchLogId, 'failed', null, `Cursor API request failed: ${describeCursorFailure(launch.status, launch.error)}`);
+  return result('failed', 'Failed to create Cursor agent', null, launchLogId);
+}
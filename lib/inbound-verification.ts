@@ -0,0 +1,55 @@
+import crypto from 'crypto'
+
+/**
+ * Verifies that requests to the inbound receive route come from Inbound.
+ * Each email agent gets its own verification token, which Inbound sends back
+ * in the `X-Webhook-Verification-Token` header of every delivery.
+ *
+ * Inbound doesn't sign its deliveries, so there is no timestamp we could trust to
+ * reject replays - a replayed email is caught by the job queue deduping on its ID.
+ */
+
+export interface InboundVerificationTarget {
+  inboundVerificationToken: string | null;
+  inboundPreviousVerificationToken: string | null; // Set only while the token is being rotated
+  inboundEndpointId: string | null;
+}
+
+export type InboundVerificationResult =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+export function generateInboundVerificationToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+export function verifyInboundRequest(
+  headers: Headers,
+  agent: InboundVerificationTarget
+): InboundVerificationResult {
+  if (!agent.inboundVerificationToken) {
+    return { ok: false, reason: 'Webhook verification is not configured for this agent' };
+  }
+
+  // Inbound may still send the old token until a rotation has reached it
+  const acceptedTokens = [agent.inboundVerificationToken, agent.inboundPreviousVerificationToken]
+    .filter((accepted): accepted is string => !!accepted);
+
+  const token = headers.get('x-webhook-verification-token');
+  if (!token || !acceptedTokens.some(accepted => safeEqual(token, accepted))) {
+    return { ok: false, reason: 'Invalid webhook verification token' };
+  }
+
+  const endpointId = headers.get('x-endpoint-id');
+  if (agent.inboundEndpointId && endpointId !== agent.inboundEndpointId) {
+    return { ok: false, reason: 'Webhook endpoint ID does not match this agent' };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,278 @@
+import type { InboundWebhookPayload } from '@inboundemail/sdk'
+import { db } from './db'
+import { inboundJob } from './schema'
+import { eq, and, or, lte, lt, asc, inArray, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { extractEmailAddress } from './utils'
+import { processInboundEmail, logAgentLaunch, type InboundProcessResult } from './inbound-processor'
+import { requestLaunchApproval, expireApprovalRequests } from './approvals'
+import { processWebhookDeliveries } from './outbound-webhooks'
+import type { WebhookEventType } from './webhook-events'
+import { createAgentRun, transitionAgentRun, getRunForInboundJob, type AgentRunStatus, type AgentRunDetails } from './agent-runs'
+
+/**
+ * Postgres-backed queue between receiving an email and launching its Cursor agent.
+ * Workers claim jobs with `FOR UPDATE SKIP LOCKED`, so any number of them (the
+ * inbound route, the cron route, `bun run jobs:worker`) can run side by side.
+ */
+
+export type InboundJob = typeof inboundJob.$inferSelect;
+
+export const INBOUND_JOB_STATUSES = ['pending', 'processing', 'completed', 'dead_letter', 'pending_approval', 'rejected', 'expired'] as const;
+
+export type InboundJobStatus = typeof INBOUND_JOB_STATUSES[number];
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// A job still 'processing' after this long belongs to a worker that died
+const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Where a job's run goes once the email has been processed
+const RUN_STATUS_BY_RESULT: Record<InboundProcessResult['status'], AgentRunStatus> = {
+  created: 'running',
+  followup: 'running',
+  rejected: 'cancelled',
+  failed: 'error',
+  pending_approval: 'queued',
+};
+
+// Results that send a different webhook event than their run status would
+const EVENT_BY_RESULT: Partial<Record<InboundProcessResult['status'], WebhookEventType>> = {
+  created: 'agent.created',
+  rejected: 'email.rejected',
+};
+
+// 30s, 1m, 2m, 4m, ... capped at an hour
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Queues an email for processing. Inbound retries webhook deliveries, so an email
+ * that was already queued for this agent returns the existing job instead.
+ */
+export async function enqueueInboundJob(
+  emailAgentId: string,
+  userId: string,
+  payload: InboundWebhookPayload
+): Promise<{ job: InboundJob; duplicate: boolean }> {
+  const [created] = await db.insert(inboundJob).values({
+    id: nanoid(),
+    emailAgentId,
+    userId,
+    inboundEmailId: payload.email.id,
+    senderEmail: extractEmailAddress(payload.email.from?.text || 'unknown@example.com'),
+    emailSubject: payload.email.subject || null,
+    payload: JSON.stringify(payload),
+  })
+    .onConflictDoNothing({ target: [inboundJob.emailAgentId, inboundJob.inboundEmailId] })
+    .returning();
+
+  if (created) {
+    const run = await createAgentRun({
+      userId,
+      emailAgentId,
+      inboundJobId: created.id,
+      inboundEmailId: created.inboundEmailId,
+      senderEmail: created.senderEmail,
+      emailSubject: created.emailSubject,
+    }, 'received', 'webhook');
+
+    if (run) {
+      await transitionAgentRun(run.id, 'queued', 'webhook');
+    }
+
+    return { job: created, duplicate: false };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(inboundJob)
+    .where(and(
+      eq(inboundJob.emailAgentId, emailAgentId),
+      eq(inboundJob.inboundEmailId, payload.email.id)
+    ))
+    .limit(1);
+
+  return { job: existing, duplicate: true };
+}
+
+// Atomically takes the next due job, or a stale one left behind by a crashed worker
+async function claimNextJob(): Promise<InboundJob | null> {
+  const now = new Date();
+
+  const nextJob = db
+    .select({ id: inboundJob.id })
+    .from(inboundJob)
+    .where(or(
+      and(
+        eq(inboundJob.status, 'pending'),
+        lte(inboundJob.nextRunAt, now)
+      ),
+      and(
+        eq(inboundJob.status, 'processing'),
+        lt(inboundJob.lockedAt, new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS))
+      )
+    ))
+    .orderBy(asc(inboundJob.nextRunAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [job] = await db.update(inboundJob)
+    .set({
+      status: 'processing',
+      lockedAt: now,
+      attempts: sql`${inboundJob.attempts} + 1`,
+      updatedAt: now
+    })
+    .where(inArray(inboundJob.id, nextJob))
+    .returning();
+
+  return job || null;
+}
+
+async function runJob(job: InboundJob): Promise<void> {
+  const payload: InboundWebhookPayload = JSON.parse(job.payload);
+  const run = await getRunForInboundJob(job.id);
+  const updateRun = async (status: AgentRunStatus, details: AgentRunDetails = {}) => {
+    if (run) {
+      await transitionAgentRun(run.id, status, 'webhook', details);
+    }
+  };
+
+  try {
+    await updateRun('creating');
+
+    const result = await processInboundEmail(job.emailAgentId, payload, { approved: !!job.approvedAt });
+
+    await updateRun(RUN_STATUS_BY_RESULT[result.status], {
+      message: result.message,
+      cursorAgentId: result.cursorAgentId,
+      launchLogId: result.launchLogId,
+      event: EVENT_BY_RESULT[result.status]
+    });
+
+    if (result.status === 'pending_approval') {
+      await requestLaunchApproval(job, result);
+      return;
+    }
+
+    await db.update(inboundJob)
+      .set({
+        status: 'completed',
+        result: JSON.stringify(result),
+        lockedAt: null,
+        completedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(inboundJob.id, job.id));
+
+    console.log(`✅ Inbound job ${job.id} completed: ${result.status}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`💀 Inbound job ${job.id} moved to dead letter after ${job.attempts} attempts:`, errorMessage);
+
+      await db.update(inboundJob)
+        .set({
+          status: 'dead_letter',
+          lastError: errorMessage,
+          lockedAt: null,
+          updatedAt: new Date()
+        })
+        .where(eq(inboundJob.id, job.id));
+
+      const launchLogId = await logAgentLaunch(
+        job.emailAgentId,
+        job.userId,
+        job.senderEmail,
+        job.emailSubject || '',
+        'failed',
+        undefined,
+        `Gave up after ${job.attempts} attempts: ${errorMessage}`,
+        { inboundEmailId: job.inboundEmailId }
+      );
+
+      await updateRun('error', { message: `Gave up after ${job.attempts} attempts: ${errorMessage}`, launchLogId });
+      return;
+    }
+
+    const delay = getRetryDelay(job.attempts);
+    console.warn(`🔁 Inbound job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay / 1000}s:`, errorMessage);
+
+    await db.update(inboundJob)
+      .set({
+        status: 'pending',
+        lastError: errorMessage,
+        lockedAt: null,
+        nextRunAt: new Date(Date.now() + delay),
+        updatedAt: new Date()
+      })
+      .where(eq(inboundJob.id, job.id));
+
+    await updateRun('queued', { message: `Attempt ${job.attempts} failed, retrying: ${errorMessage}` });
+  }
+}
+
+/**
+ * Expires overdue approval requests and retries due webhook deliveries, then processes
+ * due jobs one after another until the queue is empty or `limit` is reached.
+ * @returns The number of jobs processed
+ */
+export async function processInboundJobs(limit: number = 10): Promise<number> {
+  let processed = 0;
+
+  try {
+    await expireApprovalRequests();
+  } catch (error) {
+    console.error('Error expiring approval requests:', error);
+  }
+
+  try {
+    await processWebhookDeliveries();
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+  }
+
+  while (processed < limit) {
+    const job = await claimNextJob();
+    if (!job) {
+      break;
+    }
+
+    await runJob(job);
+    processed++;
+  }
+
+  return processed;
+}
+
+/**
+ * Puts a dead-lettered job back in the queue with a fresh set of attempts.
+ * @returns The updated job, or null if the user has no dead-lettered job with this ID
+ */
+export async function retryDeadLetterJob(jobId: string, userId: string): Promise<InboundJob | null> {
+  const [job] = await db.update(inboundJob)
+    .set({
+      status: 'pending',
+      attempts: 0,
+      nextRunAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(inboundJob.id, jobId),
+      eq(inboundJob.userId, userId),
+      eq(inboundJob.status, 'dead_letter')
+    ))
+    .returning();
+
+  if (job) {
+    const run = await getRunForInboundJob(job.id);
+    if (run) {
+      await transitionAgentRun(run.id, 'queued', 'manual', { message: 'Retried from the dashboard' }, ['error']);
+    }
+  }
+
+  return job || null;
+}
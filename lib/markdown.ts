@@ -0,0 +1,109 @@
+import { escapeHtml } from './utils'
+
+/**
+ * Small markdown-to-HTML renderer for the summaries Cursor agents write and for reply
+ * templates. Covers headings, paragraphs, lists, fenced code, inline code, bold, italics
+ * and links - enough for email bodies. All input is escaped, so raw HTML is shown as text.
+ */
+
+const INLINE_CODE_STYLE = 'background-color: #f4f4f5; padding: 2px 4px; border-radius: 3px; font-family: monospace;';
+const CODE_BLOCK_STYLE = 'background-color: #f4f4f5; padding: 12px; border-radius: 4px; overflow-x: auto; font-family: monospace; white-space: pre-wrap;';
+
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+
+  // Pull code spans out first so their contents aren't formatted
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code style="${INLINE_CODE_STYLE}">${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  html = html
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/(^|[\s(])(https?:\/\/[^\s<)]+)/g, '$1<a href="$2">$2</a>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/__([^_]+)__/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+    .replace(/(^|[\s(])_([^_\s][^_]*)_(?=$|[\s).,!?])/g, '$1<em>$2</em>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[Number(index)]);
+}
+
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*```/.test(line)) {
+      flushParagraph();
+      flushList();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push(`<pre style="${CODE_BLOCK_STYLE}">${escapeHtml(code.join('\n'))}</pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      // Keep headings modest in an email - # becomes h2
+      const level = Math.min(heading[1].length + 1, 6);
+      blocks.push(`<h${level}>${renderInline(heading[2].trim())}</h${level}>`);
+      continue;
+    }
+
+    const listItem = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    if (listItem) {
+      flushParagraph();
+      const ordered = !!listItem[2];
+      if (list && list.ordered !== ordered) {
+        flushList();
+      }
+      list = list || { ordered, items: [] };
+      list.items.push(listItem[3]);
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    // Indented lines continue the previous list item
+    if (list && /^\s+/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  flushList();
+
+  return blocks.join('\n');
+}
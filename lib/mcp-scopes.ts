@@ -0,0 +1,149 @@
+import { db } from './db'
+import { oauthApplication, oauthConsent } from './schema'
+import { eq, and } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+
+/**
+ * OAuth scopes of MCP clients. A client asks for scopes when it authorizes, the user
+ * consents to (some of) them, and the access token it gets carries the granted ones. Every
+ * MCP tool needs one scope; calling a tool without it fails with an error naming the scope.
+ */
+
+export const MCP_SCOPES = ['agents:read', 'agents:write', 'agents:delete', 'email-agents:admin'] as const;
+
+export type McpScope = typeof MCP_SCOPES[number];
+
+// Shown on the consent screen
+export const MCP_SCOPE_DESCRIPTIONS: Record<McpScope, string> = {
+  'agents:read': 'See your background agents, their conversations, runs and batches, your repositories, models and Cursor API key info',
+  'agents:write': 'Launch background agents (alone or in batches) on your repositories and send them follow-up instructions',
+  'agents:delete': 'Stop and delete your background agents, losing any work in progress',
+  'email-agents:admin': 'List, create, change, pause and delete your email agents and read their launch logs',
+};
+
+// Scopes clients get when they don't ask for any - the user can still deselect them on the consent screen
+export const DEFAULT_MCP_SCOPES = ['openid', ...MCP_SCOPES];
+
+export const MCP_TOOL_SCOPES: Record<string, McpScope> = {
+  create_cursor_agent: 'agents:write',
+  list_cursor_agents: 'agents:read',
+  get_cursor_agent: 'agents:read',
+  delete_cursor_agent: 'agents:delete',
+  get_agent_conversation: 'agents:read',
+  add_agent_followup: 'agents:write',
+  wait_for_agent: 'agents:read',
+  get_api_key_info: 'agents:read',
+  list_available_models: 'agents:read',
+  list_github_repositories: 'agents:read',
+  launch_agent_batch: 'agents:write',
+  get_agent_batch: 'agents:read',
+  list_email_agents: 'email-agents:admin',
+  create_email_agent: 'email-agents:admin',
+  update_email_agent: 'email-agents:admin',
+  pause_email_agent: 'email-agents:admin',
+  delete_email_agent: 'email-agents:admin',
+  get_email_agent_logs: 'email-agents:admin',
+};
+
+// Agent run resources and subscriptions to them
+export const MCP_RESOURCE_SCOPE: McpScope = 'agents:read';
+
+export function isMcpScope(scope: string): scope is McpScope {
+  return (MCP_SCOPES as readonly string[]).includes(scope);
+}
+
+// Scopes are stored and requested space-separated
+export function parseScopes(scopes: string | null | undefined): string[] {
+  return (scopes || '').split(' ').filter(Boolean);
+}
+
+// What an authorization request asks for - the defaults if it names no scopes
+export function getRequestedScopes(scope: string | null | undefined): string[] {
+  return scope ? parseScopes(scope) : DEFAULT_MCP_SCOPES;
+}
+
+export function getMissingScopeMessage(grantedScopes: string[], scope: McpScope, action: string): string | null {
+  if (grantedScopes.includes(scope)) {
+    return null;
+  }
+  return `❌ Missing scope '${scope}': ${action} needs it, but this MCP connection was not granted it. ` +
+    `Reconnect the MCP server and allow "${MCP_SCOPE_DESCRIPTIONS[scope]}" on the consent screen.`;
+}
+
+/**
+ * Checks whether an MCP tool may be called with the scopes of an access token.
+ * @returns An error message, or null if the tool may be called
+ */
+export function getMissingToolScopeMessage(grantedScopes: string[], toolName: string): string | null {
+  const scope = MCP_TOOL_SCOPES[toolName];
+  if (!scope) {
+    return `❌ Tool '${toolName}' has no scope assigned`;
+  }
+  return getMissingScopeMessage(grantedScopes, scope, `'${toolName}'`);
+}
+
+export async function getOAuthClient(clientId: string) {
+  const [client] = await db
+    .select()
+    .from(oauthApplication)
+    .where(eq(oauthApplication.clientId, clientId))
+    .limit(1);
+
+  if (!client || client.disabled) {
+    return null;
+  }
+  return client;
+}
+
+export function isRegisteredRedirectUri(client: { redirectURLs: string | null }, redirectUri: string): boolean {
+  return (client.redirectURLs || '').split(',').includes(redirectUri);
+}
+
+/**
+ * Whether the user already consented to a client getting all of the given scopes.
+ * Only our own scopes need consent - the OpenID ones come with signing in.
+ */
+export async function hasMcpConsent(userId: string, clientId: string, scopes: string[]): Promise<boolean> {
+  const needed = scopes.filter(isMcpScope);
+  if (needed.length === 0) {
+    return true;
+  }
+
+  const [consent] = await db
+    .select({ scopes: oauthConsent.scopes })
+    .from(oauthConsent)
+    .where(and(
+      eq(oauthConsent.userId, userId),
+      eq(oauthConsent.clientId, clientId),
+      eq(oauthConsent.consentGiven, true)
+    ))
+    .limit(1);
+
+  if (!consent) {
+    return false;
+  }
+  const granted = parseScopes(consent.scopes);
+  return needed.every(scope => granted.includes(scope));
+}
+
+// Replaces what the user consented to for a client - tokens issued before keep their scopes
+export async function saveMcpConsent(userId: string, clientId: string, scopes: string[]): Promise<void> {
+  const now = new Date();
+
+  await db.delete(oauthConsent).where(and(
+    eq(oauthConsent.userId, userId),
+    eq(oauthConsent.clientId, clientId)
+  ));
+
+  await db.insert(oauthConsent).values({
+    id: nanoid(),
+    clientId,
+    userId,
+    scopes: scopes.join(' '),
+    consentGiven: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  console.log(`🔐 User ${userId} granted MCP client ${clientId}: ${scopes.join(', ') || 'no scopes'}`);
+}
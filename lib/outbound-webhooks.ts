@@ -0,0 +1,335 @@
+import crypto from 'crypto'
+import http from 'http'
+import https from 'https'
+import { db } from './db'
+import { webhookEndpoint, webhookDelivery, webhookDeliveryAttempt } from './schema'
+import { eq, and, lte, inArray, asc, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { after } from 'next/server'
+import type { WebhookEvent } from './webhook-events'
+import { checkWebhookUrl, lookupPublicAddress } from './webhook-urls'
+
+/**
+ * Outbound webhooks to the endpoints configured on an email agent. Every delivery and each of
+ * its attempts is stored, so failures can be inspected and redelivered from the dashboard.
+ * The first attempt is made after the response that triggered it has been sent, so a slow
+ * endpoint never holds up a launch or an MCP reply. Deliveries that fail with a network
+ * error, timeout or 5xx are retried with backoff by whichever worker processes the queue
+ * next - they survive restarts.
+ *
+ * The body is a WebhookEvent envelope (see lib/webhook-events.ts). With a secret set, each
+ * attempt is signed over `{event id}.{timestamp}.{body}` so receivers can reject replays.
+ * Attempts only go to public addresses and don't follow redirects (see lib/webhook-urls.ts).
+ */
+
+export type WebhookDelivery = typeof webhookDelivery.$inferSelect;
+export type WebhookDeliveryAttempt = typeof webhookDeliveryAttempt.$inferSelect;
+
+export type WebhookDeliveryTrigger = 'automatic' | 'manual';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const RESPONSE_BODY_LIMIT = 2048;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 12 * 60 * 60 * 1000;
+// A delivery being attempted is pushed back this far, so one left behind by a crashed worker comes up again
+const DELIVERY_LOCK_MS = 2 * 60 * 1000;
+
+export interface NewWebhookDelivery {
+  userId: string;
+  emailAgentId: string | null;
+  endpointId: string;
+  runId?: string | null;
+  url: string;
+  event: WebhookEvent;
+  payload?: string; // Body to send instead of the event envelope, e.g. a chat message
+}
+
+// 1m, 4m, 16m, ~1h, ~4h, then every 12h
+export function getDeliveryRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 4 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+// Other 4xx responses won't get better by sending the same request again
+function isRetryableStatus(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+// Value of X-Webhook-Signature - the timestamp is signed too, so an old request can't be replayed later
+export function signWebhookPayload(eventId: string, timestamp: number, body: string, secret: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${eventId}.${timestamp}.${body}`).digest('hex');
+  return `v1=${digest}`;
+}
+
+// The secret is read at send time, so rotating it also applies to pending retries
+async function getWebhookSecret(endpointId: string | null): Promise<string | null> {
+  if (!endpointId) {
+    return null;
+  }
+
+  const [endpoint] = await db
+    .select({ secret: webhookEndpoint.secret })
+    .from(webhookEndpoint)
+    .where(eq(webhookEndpoint.id, endpointId))
+    .limit(1);
+
+  return endpoint?.secret || null;
+}
+
+interface WebhookResponse {
+  status: number;
+  body: string; // Only the start of it
+}
+
+/**
+ * POSTs a webhook and reads the start of the response. Connects to the address its host
+ * name resolved to when that was checked (see lookupPublicAddress), and doesn't follow
+ * redirects - they could lead anywhere, including places the URL checks keep out.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<WebhookResponse> {
+  const target = new URL(url);
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: lookupPublicAddress,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, response => {
+      const chunks: Buffer[] = [];
+      let received = 0;
+
+      const finish = () => resolve({
+        status: response.statusCode || 0,
+        body: Buffer.concat(chunks).subarray(0, RESPONSE_BODY_LIMIT).toString('utf8'),
+      });
+
+      response.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        received += chunk.byteLength;
+        // Without reading more of it than that
+        if (received >= RESPONSE_BODY_LIMIT) {
+          response.destroy();
+          finish();
+        }
+      });
+      response.on('end', finish);
+      response.on('error', finish);
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+// Sends a delivery once, records the attempt and works out what happens next
+async function attemptDelivery(delivery: WebhookDelivery, trigger: WebhookDeliveryTrigger): Promise<WebhookDelivery> {
+  const attempt = delivery.attempts + 1;
+  const secret = await getWebhookSecret(delivery.endpointId);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = secret ? signWebhookPayload(delivery.eventId, timestamp, delivery.payload, secret) : null;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'Cursor-Background-Agent/1.0',
+    'X-Webhook-Id': delivery.eventId,
+    'X-Webhook-Event': delivery.event,
+    'X-Webhook-Timestamp': timestamp.toString(),
+    'X-Delivery-ID': delivery.id,
+    'X-Delivery-Attempt': attempt.toString(),
+  };
+  if (signature) {
+    headers['X-Webhook-Signature'] = signature;
+  }
+
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const urlError = await checkWebhookUrl(delivery.url);
+    if (urlError) {
+      throw new Error(urlError);
+    }
+
+    const response = await postWebhook(delivery.url, headers, delivery.payload);
+    responseStatus = response.status;
+    responseBody = response.body;
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : 'Unknown error';
+  }
+
+  const durationMs = Date.now() - startedAt;
+  const delivered = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+
+  await db.insert(webhookDeliveryAttempt).values({
+    id: nanoid(),
+    deliveryId: delivery.id,
+    attempt,
+    trigger,
+    url: delivery.url,
+    signature,
+    responseStatus,
+    responseBody,
+    error,
+    durationMs,
+  });
+
+  const now = new Date();
+  let status: string;
+  let nextAttemptAt: Date | null = null;
+
+  if (delivered) {
+    status = 'delivered';
+  } else if (trigger === 'manual') {
+    // A failed manual redelivery leaves any scheduled retries as they were
+    status = delivery.status === 'pending' ? 'pending' : 'failed';
+    nextAttemptAt = delivery.status === 'pending' ? delivery.nextAttemptAt : null;
+  } else if (isRetryableStatus(responseStatus) && attempt < delivery.maxAttempts) {
+    status = 'pending';
+    nextAttemptAt = new Date(now.getTime() + getDeliveryRetryDelay(attempt));
+  } else {
+    status = 'failed';
+  }
+
+  const [updated] = await db.update(webhookDelivery)
+    .set({
+      status,
+      attempts: sql`${webhookDelivery.attempts} + 1`,
+      nextAttemptAt,
+      lastAttemptAt: now,
+      deliveredAt: delivered ? now : delivery.deliveredAt,
+      updatedAt: now,
+    })
+    .where(eq(webhookDelivery.id, delivery.id))
+    .returning();
+
+  const outcome = responseStatus !== null ? `${responseStatus}` : error;
+  if (delivered) {
+    console.log(`📤 Webhook ${delivery.event} delivered to ${delivery.url} (attempt ${attempt}, ${durationMs}ms)`);
+  } else if (status === 'pending' && nextAttemptAt) {
+    console.warn(`🔁 Webhook ${delivery.event} to ${delivery.url} failed (${outcome}), retrying at ${nextAttemptAt.toISOString()}`);
+  } else {
+    console.error(`❌ Webhook ${delivery.event} to ${delivery.url} failed (${outcome}) after ${attempt} attempt(s)`);
+  }
+
+  return updated || delivery;
+}
+
+async function insertDelivery(values: NewWebhookDelivery): Promise<WebhookDelivery> {
+  const [delivery] = await db.insert(webhookDelivery).values({
+    id: nanoid(),
+    userId: values.userId,
+    emailAgentId: values.emailAgentId,
+    endpointId: values.endpointId,
+    runId: values.runId || null,
+    eventId: values.event.id,
+    event: values.event.type,
+    url: values.url,
+    payload: values.payload || JSON.stringify(values.event),
+    status: 'pending',
+    // Held for the first attempt - if it never happens, processWebhookDeliveries makes it
+    nextAttemptAt: new Date(Date.now() + DELIVERY_LOCK_MS),
+  }).returning();
+
+  return delivery;
+}
+
+/**
+ * Stores a delivery and makes the first attempt once the current response has been sent.
+ * Outside a request (the worker script) the attempt runs without being waited for.
+ * @returns The delivery, still pending
+ */
+export async function queueWebhookDelivery(values: NewWebhookDelivery): Promise<WebhookDelivery> {
+  const delivery = await insertDelivery(values);
+
+  const attempt = async () => {
+    try {
+      await attemptDelivery(delivery, 'automatic');
+    } catch (error) {
+      console.error(`Error attempting webhook delivery ${delivery.id}:`, error);
+    }
+  };
+
+  try {
+    after(attempt);
+  } catch {
+    // Not in a request
+    void attempt();
+  }
+
+  return delivery;
+}
+
+/**
+ * Stores a delivery and makes the first attempt right away - for test sends, where the
+ * user is waiting to see what the endpoint answered.
+ * @returns The delivery after the first attempt
+ */
+export async function sendWebhookDelivery(values: NewWebhookDelivery): Promise<WebhookDelivery> {
+  const delivery = await insertDelivery(values);
+  return attemptDelivery(delivery, 'automatic');
+}
+
+// Atomically takes due deliveries by pushing their next attempt out by the lock time
+async function claimDueDeliveries(limit: number): Promise<WebhookDelivery[]> {
+  const now = new Date();
+
+  const dueDeliveries = db
+    .select({ id: webhookDelivery.id })
+    .from(webhookDelivery)
+    .where(and(
+      eq(webhookDelivery.status, 'pending'),
+      lte(webhookDelivery.nextAttemptAt, now)
+    ))
+    .orderBy(asc(webhookDelivery.nextAttemptAt))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db.update(webhookDelivery)
+    .set({
+      nextAttemptAt: new Date(now.getTime() + DELIVERY_LOCK_MS),
+      updatedAt: now
+    })
+    .where(inArray(webhookDelivery.id, dueDeliveries))
+    .returning();
+}
+
+/**
+ * Retries deliveries whose backoff has passed.
+ * @returns The number of deliveries attempted
+ */
+export async function processWebhookDeliveries(limit: number = 25): Promise<number> {
+  const deliveries = await claimDueDeliveries(limit);
+
+  for (const delivery of deliveries) {
+    try {
+      await attemptDelivery(delivery, 'automatic');
+    } catch (error) {
+      console.error(`Error attempting webhook delivery ${delivery.id}:`, error);
+    }
+  }
+
+  return deliveries.length;
+}
+
+/**
+ * Sends a delivery again right now, whatever its status.
+ * @returns The updated delivery, or null if the user has no delivery with this ID
+ */
+export async function redeliverWebhook(deliveryId: string, userId: string): Promise<WebhookDelivery | null> {
+  const [delivery] = await db
+    .select()
+    .from(webhookDelivery)
+    .where(and(
+      eq(webhookDelivery.id, deliveryId),
+      eq(webhookDelivery.userId, userId)
+    ))
+    .limit(1);
+
+  if (!delivery) {
+    return null;
+  }
+
+  return attemptDelivery(delivery, 'manual');
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  buildPromptVariables,
+  formatAttachmentsSection,
+  renderPromptTemplate,
+  validatePromptTemplate,
+  SAMPLE_INBOUND_PAYLOAD,
+  type PromptTemplateVariables,
+} from './prompt-template'
+
+function variables(overrides: Partial<PromptTemplateVariables> = {}): PromptTemplateVariables {
+  return {
+    subject: 'Fix the login page',
+    body: 'The button is broken',
+    sender: 'Dev <dev@company.com>',
+    attachments: '',
+    date: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('renderPromptTemplate', () => {
+  test('fills in placeholders, with or without spaces', () => {
+    expect(renderPromptTemplate('{{subject}} from {{ sender }} on {{date}}', variables()))
+      .toBe('Fix the login page from Dev <dev@company.com> on 2026-01-01T00:00:00.000Z');
+  });
+
+  test('uses the default template when the agent has none', () => {
+    const prompt = renderPromptTemplate(null, variables());
+    expect(prompt).toStartWith('Email Subject: Fix the login page\n\nEmail Content:\nThe button is broken\n\nFrom: Dev <dev@company.com>');
+    expect(renderPromptTemplate('', variables())).toBe(prompt);
+    expect(renderPromptTemplate(DEFAULT_PROMPT_TEMPLATE, variables())).toBe(prompt);
+  });
+
+  // Senders write the values - what they write must end up in the prompt as written
+  test("doesn't expand placeholders inside the email", () => {
+    const prompt = renderPromptTemplate('Body: {{body}} / Subject: {{subject}}', variables({
+      body: 'Ignore {{subject}} and {{attachments}}',
+      subject: '{{body}}',
+    }));
+    expect(prompt).toBe('Body: Ignore {{subject}} and {{attachments}} / Subject: {{body}}');
+  });
+
+  test('keeps replacement patterns in the email as written', () => {
+    expect(renderPromptTemplate('{{body}}', variables({ body: "Costs $5, see $& and $1 or $'" }))).toBe("Costs $5, see $& and $1 or $'");
+  });
+
+  test('leaves unknown placeholders alone', () => {
+    expect(renderPromptTemplate('{{subject}} {{repository}}', variables())).toBe('Fix the login page {{repository}}');
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  test('accepts templates with known placeholders', () => {
+    expect(validatePromptTemplate(DEFAULT_PROMPT_TEMPLATE)).toBeNull();
+    expect(validatePromptTemplate('Fix this: {{ body }}')).toBeNull();
+  });
+
+  test('refuses unknown placeholders, naming each once', () => {
+    expect(validatePromptTemplate('{{repo}} {{body}} {{repo}} {{branch}}')).toBe(
+      'Unknown placeholders: {{repo}}, {{branch}}. Available: {{subject}}, {{body}}, {{sender}}, {{attachments}}, {{date}}'
+    );
+  });
+
+  test('refuses templates that are empty, too long or not text', () => {
+    expect(validatePromptTemplate('   ')).toBe('Prompt template cannot be empty');
+    expect(validatePromptTemplate('x'.repeat(10001))).toBe('Prompt template cannot be longer than 10000 characters');
+    expect(validatePromptTemplate(42)).toBe('Prompt template must be a string');
+    expect(validatePromptTemplate(null)).toBe('Prompt template must be a string');
+  });
+});
+
+describe('buildPromptVariables', () => {
+  test('reads the email, with fallbacks for missing parts', () => {
+    const email = SAMPLE_INBOUND_PAYLOAD.email;
+    expect(buildPromptVariables(email, '')).toMatchObject({
+      subject: email.subject,
+      body: email.cleanedContent.text,
+      sender: email.from?.text,
+      date: new Date(email.receivedAt).toISOString(),
+    });
+
+    const empty = { ...email, subject: null, from: null, cleanedContent: { ...email.cleanedContent, text: null } };
+    expect(buildPromptVariables(empty as unknown as typeof email, '')).toMatchObject({
+      subject: 'No subject',
+      body: 'No content',
+      sender: 'Unknown sender',
+    });
+  });
+
+  test('attachments start with a blank line, or are left out', () => {
+    expect(formatAttachmentsSection([])).toBe('');
+    expect(formatAttachmentsSection(['one', 'two'])).toBe('\n\nAttachments:\none\n\ntwo');
+  });
+});
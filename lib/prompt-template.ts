@@ -0,0 +1,148 @@
+import type { InboundWebhookPayload } from '@inboundemail/sdk'
+
+export const PROMPT_TEMPLATE_PLACEHOLDERS = ['subject', 'body', 'sender', 'attachments', 'date'] as const;
+
+export type PromptTemplatePlaceholder = typeof PROMPT_TEMPLATE_PLACEHOLDERS[number];
+
+export type PromptTemplateVariables = Record<PromptTemplatePlaceholder, string>;
+
+const MAX_PROMPT_TEMPLATE_LENGTH = 10000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Used when an email agent has no custom template - this is the original hard-coded prompt
+export const DEFAULT_PROMPT_TEMPLATE = `
+Email Subject: {{subject}}
+
+Email Content:
+{{body}}{{attachments}}
+
+From: {{sender}}
+
+Please analyze this email and create appropriate code changes, documentation updates, or other relevant actions based on the content. If this appears to be a bug report, create a fix. If it's a feature request, implement the feature. If it's a question, create documentation or examples to help answer similar questions in the future.
+`.trim();
+
+/**
+ * Checks a template for unknown placeholders and size limits.
+ * @returns An error message, or null if the template is valid
+ */
+export function validatePromptTemplate(template: unknown): string | null {
+  if (typeof template !== 'string') {
+    return 'Prompt template must be a string';
+  }
+
+  if (template.trim().length === 0) {
+    return 'Prompt template cannot be empty';
+  }
+
+  if (template.length > MAX_PROMPT_TEMPLATE_LENGTH) {
+    return `Prompt template cannot be longer than ${MAX_PROMPT_TEMPLATE_LENGTH} characters`;
+  }
+
+  const unknownPlaceholders = Array.from(template.matchAll(PLACEHOLDER_PATTERN))
+    .map(match => match[1])
+    .filter(name => !(PROMPT_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+
+  if (unknownPlaceholders.length > 0) {
+    return `Unknown placeholders: ${Array.from(new Set(unknownPlaceholders)).map(name => `{{${name}}}`).join(', ')}. ` +
+      `Available: ${PROMPT_TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`;
+  }
+
+  return null;
+}
+
+// Replaces {{placeholder}} tokens; unknown placeholders are left untouched
+export function renderPromptTemplate(template: string | null | undefined, variables: PromptTemplateVariables): string {
+  return (template || DEFAULT_PROMPT_TEMPLATE)
+    .replace(PLACEHOLDER_PATTERN, (token, name: string) =>
+      name in variables ? variables[name as PromptTemplatePlaceholder] : token
+    )
+    .trim();
+}
+
+/**
+ * Formats inlined attachment sections for the {{attachments}} placeholder.
+ * Starts with a blank line so the default template reads naturally when there are none.
+ */
+export function formatAttachmentsSection(textSections: string[]): string {
+  return textSections.length > 0
+    ? `\n\nAttachments:\n${textSections.join('\n\n')}`
+    : '';
+}
+
+export function buildPromptVariables(
+  email: InboundWebhookPayload['email'],
+  attachmentsSection: string
+): PromptTemplateVariables {
+  return {
+    subject: email.subject || 'No subject',
+    body: email.cleanedContent.text || 'No content',
+    sender: email.from?.text || 'Unknown sender',
+    attachments: attachmentsSection,
+    date: new Date(email.receivedAt).toISOString(),
+  };
+}
+
+// Sample payload used to preview templates from the dashboard
+export const SAMPLE_INBOUND_PAYLOAD: InboundWebhookPayload = {
+  event: 'email.received',
+  timestamp: '2025-01-15T10:30:00.000Z',
+  email: {
+    id: 'inbnd_sample123',
+    messageId: '<sample-message-id@mail.example.com>',
+    from: {
+      text: 'Jane Doe <jane@example.com>',
+      addresses: [{ name: 'Jane Doe', address: 'jane@example.com' }],
+    },
+    to: {
+      text: 'support-bot@bg.inbound.new',
+      addresses: [{ name: null, address: 'support-bot@bg.inbound.new' }],
+    },
+    recipient: 'support-bot@bg.inbound.new',
+    subject: 'Login redirect loops after password reset',
+    receivedAt: '2025-01-15T10:30:00.000Z',
+    threadId: null,
+    threadPosition: null,
+    parsedData: {
+      messageId: '<sample-message-id@mail.example.com>',
+      date: new Date('2025-01-15T10:30:00.000Z'),
+      subject: 'Login redirect loops after password reset',
+      from: {
+        text: 'Jane Doe <jane@example.com>',
+        addresses: [{ name: 'Jane Doe', address: 'jane@example.com' }],
+      },
+      to: {
+        text: 'support-bot@bg.inbound.new',
+        addresses: [{ name: null, address: 'support-bot@bg.inbound.new' }],
+      },
+      cc: null,
+      bcc: null,
+      replyTo: null,
+      inReplyTo: undefined,
+      references: undefined,
+      textBody: 'After resetting my password I get redirected back to /login forever. Console log attached.',
+      htmlBody: undefined,
+      attachments: [],
+      headers: {},
+      priority: undefined,
+    },
+    cleanedContent: {
+      html: null,
+      text: 'After resetting my password I get redirected back to /login forever. Console log attached.',
+      hasHtml: false,
+      hasText: true,
+      attachments: [],
+      headers: {},
+    },
+  },
+  endpoint: {
+    id: 'endp_sample123',
+    name: 'Email Agent: support-bot',
+    type: 'webhook',
+  },
+};
+
+// Attachment section used for previews - attachments are not downloaded
+export const SAMPLE_ATTACHMENTS_SECTION = formatAttachmentsSection([
+  '--- Attachment: console.log (text/plain) ---\n[auth] redirecting to /login (session missing)\n[auth] redirecting to /login (session missing)\n--- End of console.log ---'
+]);
@@ -0,0 +1,141 @@
+import { db } from './db'
+import { agentRun, emailAgent, user } from './schema'
+import { eq, and, inArray, isNotNull } from 'drizzle-orm'
+import { decryptSecret } from './secrets'
+import { listCursorAgents, getCursorAgent, type CursorAgent } from './cursor-api'
+import { transitionCursorAgentRuns, getCursorAgentRunUpdate } from './agent-runs'
+import { sendCompletionReplyForAgent } from './completion-reply'
+
+/**
+ * Brings runs in line with what Cursor reports, for when a Cursor webhook never arrived.
+ * Every creating/running run is checked against the agents its API key can see, and the
+ * senders of runs it finishes get the same reply the webhook would have sent. Runs change
+ * through conditional updates, so notifications still go out exactly once even when a
+ * Cursor webhook or another reconciler gets there at the same time.
+ */
+
+// Upper bound on listing pages per key - agents not found by then are looked up one by one
+const MAX_PAGES_PER_KEY = 50;
+
+export interface ReconcileSummary {
+  keys: number;
+  checked: number;
+  updated: number;
+  expired: number;
+  failedKeys: number;
+}
+
+// Groups the cursor agent IDs of active runs by the (decrypted) API key that launched them
+async function getTrackedAgentsByKey(): Promise<Map<string, Set<string>>> {
+  const runs = await db
+    .select({
+      cursorAgentId: agentRun.cursorAgentId,
+      agentApiKey: emailAgent.cursorApiKey,
+      userDefaultKey: user.defaultCursorApiKey
+    })
+    .from(agentRun)
+    .innerJoin(user, eq(agentRun.userId, user.id))
+    .leftJoin(emailAgent, eq(agentRun.emailAgentId, emailAgent.id))
+    .where(and(
+      inArray(agentRun.status, ['creating', 'running']),
+      isNotNull(agentRun.cursorAgentId)
+    ));
+
+  const agentsByKey = new Map<string, Set<string>>();
+
+  for (const run of runs) {
+    let apiKey: string | null;
+    try {
+      apiKey = decryptSecret(run.agentApiKey || run.userDefaultKey);
+    } catch (error) {
+      console.error(`❌ Could not decrypt the API key for agent ${run.cursorAgentId}:`, error);
+      continue;
+    }
+
+    if (!apiKey) {
+      console.warn(`⚠️ No Cursor API key left for agent ${run.cursorAgentId}, skipping`);
+      continue;
+    }
+
+    const agentIds = agentsByKey.get(apiKey) || new Set<string>();
+    agentIds.add(run.cursorAgentId!);
+    agentsByKey.set(apiKey, agentIds);
+  }
+
+  return agentsByKey;
+}
+
+// Applies what Cursor reported at `readAt` to the agent's runs, and replies to the email if that finished it
+async function applyCursorAgent(agent: CursorAgent, readAt: Date): Promise<number> {
+  const { status, details } = getCursorAgentRunUpdate(agent);
+  const transitions = await transitionCursorAgentRuns(agent.id, status, 'poll', details, readAt);
+
+  if (transitions.length > 0) {
+    await sendCompletionReplyForAgent(agent);
+  }
+  return transitions.length;
+}
+
+// Pages through the agents of one API key and updates the runs of tracked ones
+async function reconcileKey(apiKey: string, agentIds: Set<string>, summary: ReconcileSummary): Promise<void> {
+  const remaining = new Set(agentIds);
+  let cursor: string | undefined;
+  let pages = 0;
+
+  do {
+    const readAt = new Date();
+    const page = await listCursorAgents(apiKey, cursor);
+    pages++;
+
+    for (const agent of page.agents) {
+      if (!remaining.delete(agent.id)) {
+        continue;
+      }
+
+      summary.checked++;
+      summary.updated += await applyCursorAgent(agent, readAt);
+    }
+
+    cursor = page.nextCursor;
+  } while (cursor && remaining.size > 0 && pages < MAX_PAGES_PER_KEY);
+
+  // Missing from the listing - look each one up before calling it gone
+  for (const agentId of remaining) {
+    summary.checked++;
+    const readAt = new Date();
+    const agent = await getCursorAgent(apiKey, agentId);
+
+    if (agent) {
+      summary.updated += await applyCursorAgent(agent, readAt);
+      continue;
+    }
+
+    const transitions = await transitionCursorAgentRuns(agentId, 'expired', 'poll', {
+      message: 'Agent no longer exists in Cursor'
+    }, readAt);
+    summary.updated += transitions.length;
+    summary.expired += transitions.length;
+  }
+}
+
+/**
+ * Checks every tracked run against Cursor once. A key that fails (revoked, rate limited,
+ * Cursor down) is logged and skipped, its runs are picked up again on the next pass.
+ */
+export async function reconcileAgentRuns(): Promise<ReconcileSummary> {
+  const agentsByKey = await getTrackedAgentsByKey();
+  const summary: ReconcileSummary = { keys: agentsByKey.size, checked: 0, updated: 0, expired: 0, failedKeys: 0 };
+
+  for (const [apiKey, agentIds] of agentsByKey) {
+    try {
+      await reconcileKey(apiKey, agentIds, summary);
+    } catch (error) {
+      summary.failedKeys++;
+      console.error('❌ Failed to reconcile agents for an API key:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`🔄 Reconciled agent runs: ${summary.checked} checked, ${summary.updated} updated, ${summary.expired} expired`);
+
+  return summary;
+}
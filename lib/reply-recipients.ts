@@ -0,0 +1,152 @@
+import type { InboundEmailAddress } from '@inboundemail/sdk'
+import { matchesSenderPattern, isValidAddressPattern } from './sender-policy'
+
+/**
+ * Who gets copied on completion replies besides the original sender. An agent can reply
+ * to everyone on the original To/CC lines and copy fixed CC/BCC addresses (a team lead,
+ * a QA inbox). Every extra recipient must match the agent's outbound allow-list, which
+ * takes the same patterns as sender rules - with no allow-list nobody else is copied, so
+ * a sender can't use the agent to mail arbitrary addresses.
+ */
+
+export interface ReplyRecipientSettings {
+  replyAll: boolean;
+  replyCc: string | null; // JSON array of addresses
+  replyBcc: string | null; // JSON array of addresses
+  replyAllowList: string | null; // JSON array of patterns
+}
+
+export interface ReplyRecipients {
+  cc: string[];
+  bcc: string[];
+  blocked: string[]; // Left out because they aren't on the allow-list
+}
+
+const MAX_EXTRA_RECIPIENTS = 20;
+
+const ADDRESS_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+function parseList(json: string | null): string[] {
+  return json ? JSON.parse(json) : [];
+}
+
+function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase();
+}
+
+// The To and CC addresses of an inbound email, as stored on its agent mapping
+export function collectOriginalRecipients(
+  to: InboundEmailAddress | null | undefined,
+  cc: InboundEmailAddress | null | undefined
+): string[] {
+  const addresses = [...(to?.addresses || []), ...(cc?.addresses || [])]
+    .map(entry => entry.address)
+    .filter((address): address is string => !!address)
+    .map(normalizeAddress);
+
+  return [...new Set(addresses)];
+}
+
+export function isAllowedRecipient(allowList: string[], address: string): boolean {
+  return allowList.some(pattern => matchesSenderPattern(pattern, address));
+}
+
+/**
+ * Works out the CC and BCC lines of a completion reply. The sender is already the To of
+ * a reply and the agent's own address never gets a copy.
+ */
+export function getReplyRecipients(
+  settings: ReplyRecipientSettings,
+  originalRecipients: string[],
+  senderEmail: string,
+  agentEmailAddress: string | null
+): ReplyRecipients {
+  const allowList = parseList(settings.replyAllowList);
+  const excluded = new Set([senderEmail, agentEmailAddress || ''].map(normalizeAddress));
+  const blocked = new Set<string>();
+
+  const pick = (addresses: string[]) => {
+    const picked: string[] = [];
+    for (const address of addresses.map(normalizeAddress)) {
+      if (excluded.has(address)) {
+        continue;
+      }
+      if (!isAllowedRecipient(allowList, address)) {
+        blocked.add(address);
+        continue;
+      }
+      excluded.add(address); // Nobody gets two copies
+      picked.push(address);
+    }
+    return picked;
+  };
+
+  const cc = pick([...(settings.replyAll ? originalRecipients : []), ...parseList(settings.replyCc)]);
+  const bcc = pick(parseList(settings.replyBcc));
+
+  return { cc, bcc, blocked: [...blocked] };
+}
+
+/**
+ * Validates a list of fixed CC or BCC addresses.
+ * @returns An error message, or null if the list is valid
+ */
+export function validateReplyAddresses(addresses: unknown, field: string): string | null {
+  if (!Array.isArray(addresses)) {
+    return `${field} must be an array of email addresses`;
+  }
+  if (addresses.length > MAX_EXTRA_RECIPIENTS) {
+    return `${field} can have at most ${MAX_EXTRA_RECIPIENTS} addresses`;
+  }
+
+  const invalid = addresses.filter(address => typeof address !== 'string' || !ADDRESS_PATTERN.test(address.trim()));
+  if (invalid.length > 0) {
+    return `Invalid ${field} addresses: ${invalid.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validates an outbound recipient allow-list.
+ * @returns An error message, or null if the list is valid
+ */
+export function validateReplyAllowList(patterns: unknown): string | null {
+  if (!Array.isArray(patterns)) {
+    return 'replyAllowList must be an array of patterns';
+  }
+
+  const invalid = patterns.filter(pattern => typeof pattern !== 'string' || !isValidAddressPattern(pattern));
+  if (invalid.length > 0) {
+    return `Invalid replyAllowList patterns: ${invalid.join(', ')}. Use user@company.com, company.com, *.company.com or *`;
+  }
+
+  return null;
+}
+
+/**
+ * Checks that the fixed CC and BCC addresses of an agent would actually be copied - each
+ * has to match the allow-list, so with no allow-list there can't be any.
+ * @returns An error message, or null if every fixed address is allowed
+ */
+export function validateFixedReplyRecipients(
+  replyCc: string[] | null,
+  replyBcc: string[] | null,
+  replyAllowList: string[] | null
+): string | null {
+  const fixed = [...(replyCc || []), ...(replyBcc || [])].map(normalizeAddress);
+  if (fixed.length === 0) {
+    return null;
+  }
+
+  if (!replyAllowList || replyAllowList.length === 0) {
+    return 'replyCc and replyBcc addresses must match replyAllowList - without an allow-list nobody but the sender gets the reply';
+  }
+
+  const notAllowed = fixed.filter(address => !isAllowedRecipient(replyAllowList, address));
+  if (notAllowed.length > 0) {
+    return `replyCc and replyBcc addresses must match replyAllowList, these don't: ${notAllowed.join(', ')}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test'
+import { compileBodyPattern, ruleMatches, validateRoutingConfig, type RoutableEmail } from './routing'
+
+function email(overrides: Partial<RoutableEmail> = {}): RoutableEmail {
+  return { senderEmail: 'dev@company.com', subject: 'Fix the login page', body: 'The button is broken', ...overrides };
+}
+
+function bodyRule(pattern: string) {
+  return { matchType: 'body', pattern };
+}
+
+function validateBodyPattern(pattern: string): string | null {
+  return validateRoutingConfig(
+    [{ name: 'app', githubRepository: 'https://github.com/company/app' }],
+    [{ name: 'rule', target: 'app', matchType: 'body', pattern }]
+  );
+}
+
+describe('body patterns', () => {
+  test('accepts regular expressions RE2 can run', () => {
+    for (const pattern of ['button', 'urgent|bug', '^the', 'error \\d{3}', '(foo|bar)+', 'a*a*a*a*a*b', '(a+)+$']) {
+      expect(validateBodyPattern(pattern)).toBeNull();
+    }
+  });
+
+  test('rejects backreferences, lookarounds and invalid expressions', () => {
+    for (const pattern of ['(a)\\1', '(?=a)b', '(?<!a)b', '(unclosed', '*']) {
+      expect(validateBodyPattern(pattern)).toContain('has an invalid regular expression');
+    }
+  });
+
+  test('match case-insensitively', () => {
+    expect(ruleMatches(bodyRule('BUTTON'), email())).toBe(true);
+    expect(ruleMatches(bodyRule('checkout'), email())).toBe(false);
+  });
+
+  test('skip patterns saved before they were checked', () => {
+    expect(compileBodyPattern('(a)\\1')).toBeNull();
+    expect(ruleMatches(bodyRule('(a)\\1'), email({ body: 'aa' }))).toBe(false);
+  });
+
+  test('only look at the start of the body', () => {
+    expect(ruleMatches(bodyRule('deploy'), email({ body: `${'x'.repeat(5000)} deploy` }))).toBe(false);
+  });
+
+  // Backtracking engines take minutes on these - RE2 takes time linear in the body
+  test('run in linear time on crafted bodies', () => {
+    const body = 'a'.repeat(20000);
+    for (const pattern of ['a*a*a*a*a*b', '(a+)+b', '(a|aa)*b', '(.*a){12}b']) {
+      expect(ruleMatches(bodyRule(pattern), email({ body }))).toBe(false);
+    }
+  }, 1000);
+});
+
+describe('sender and subject patterns', () => {
+  test('senders match exact addresses and domains', () => {
+    expect(ruleMatches({ matchType: 'sender', pattern: '@company.com' }, email())).toBe(true);
+    expect(ruleMatches({ matchType: 'sender', pattern: '@company.com' }, email({ senderEmail: 'dev@evilcompany.com' }))).toBe(false);
+    expect(ruleMatches({ matchType: 'sender', pattern: 'ops@company.com, DEV@company.com' }, email())).toBe(true);
+  });
+
+  test('subjects match any keyword', () => {
+    expect(ruleMatches({ matchType: 'subject', pattern: 'billing, login' }, email())).toBe(true);
+    expect(ruleMatches({ matchType: 'subject', pattern: 'billing' }, email())).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import { RE2 } from 're2-wasm'
+import { emailAgentTarget, emailAgentRoutingRule } from './schema'
+
+export type EmailAgentTarget = typeof emailAgentTarget.$inferSelect;
+export type EmailAgentRoutingRule = typeof emailAgentRoutingRule.$inferSelect;
+
+export const ROUTING_MATCH_TYPES = ['sender', 'subject', 'body'] as const;
+
+export type RoutingMatchType = typeof ROUTING_MATCH_TYPES[number];
+
+export interface RoutableEmail {
+  senderEmail: string;
+  subject: string;
+  body: string;
+}
+
+export interface RoutingDecision {
+  target: EmailAgentTarget | null; // null means use the email agent's own repository settings
+  rule: EmailAgentRoutingRule | null;
+  reason: 'rule' | 'default' | 'agent';
+}
+
+// What gets stored in the launch log
+export interface RoutingLogEntry {
+  reason: RoutingDecision['reason'];
+  ruleId?: string;
+  ruleName?: string;
+  targetId?: string;
+  targetName?: string;
+  repository: string;
+}
+
+const MAX_PATTERN_LENGTH = 500;
+const GITHUB_URL_PATTERN = /^https:\/\/github\.com\/[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+
+function splitPattern(pattern: string): string[] {
+  return pattern.split(',').map(part => part.trim().toLowerCase()).filter(part => part.length > 0);
+}
+
+/**
+ * Sender patterns are comma-separated exact emails or `@domain` entries.
+ * Domains must match exactly - `@company.com` does not match `@evilcompany.com`.
+ */
+function matchesSender(pattern: string, senderEmail: string): boolean {
+  const sender = senderEmail.toLowerCase();
+  const senderDomain = '@' + sender.split('@')[1];
+
+  return splitPattern(pattern).some(entry =>
+    entry.startsWith('@') ? entry === senderDomain : entry === sender
+  );
+}
+
+// Subject patterns are comma-separated keywords, any of which may appear
+function matchesSubject(pattern: string, subject: string): boolean {
+  const lowerSubject = subject.toLowerCase();
+  return splitPattern(pattern).some(keyword => lowerSubject.includes(keyword));
+}
+
+// Body rules look at the start of the email - enough to route on, and little to scan
+const MAX_BODY_MATCH_CHARS = 2000;
+
+// Compiled RE2 patterns live in WASM memory the garbage collector can't free, so each is compiled once
+const MAX_COMPILED_BODY_PATTERNS = 1000;
+const compiledBodyPatterns = new Map<string, RE2 | null>();
+
+/**
+ * Compiles a body pattern with RE2, which matches in time linear in the body - a crafted
+ * email can't stall the worker every tenant's emails go through, whatever the pattern.
+ * RE2 has no backreferences or lookarounds, so patterns using them don't compile.
+ * @returns The compiled pattern, or null if RE2 can't run it
+ */
+export function compileBodyPattern(pattern: string): RE2 | null {
+  const cached = compiledBodyPatterns.get(pattern);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let compiled: RE2 | null;
+  try {
+    compiled = new RE2(pattern, 'iu');
+  } catch {
+    compiled = null;
+  }
+
+  if (compiledBodyPatterns.size < MAX_COMPILED_BODY_PATTERNS) {
+    compiledBodyPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+function matchesBody(pattern: string, body: string): boolean {
+  // Rules saved before patterns were checked are skipped rather than run
+  const compiled = compileBodyPattern(pattern);
+  return compiled ? compiled.test(body.slice(0, MAX_BODY_MATCH_CHARS)) : false;
+}
+
+export function ruleMatches(rule: Pick<EmailAgentRoutingRule, 'matchType' | 'pattern'>, email: RoutableEmail): boolean {
+  switch (rule.matchType) {
+    case 'sender':
+      return matchesSender(rule.pattern, email.senderEmail);
+    case 'subject':
+      return matchesSubject(rule.pattern, email.subject);
+    case 'body':
+      return matchesBody(rule.pattern, email.body);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Picks the repository target for an email. Rules are evaluated by priority,
+ * the first match wins; otherwise the default target is used. Agents without
+ * targets keep using their own repository settings.
+ */
+export function selectRoutingTarget(
+  targets: EmailAgentTarget[],
+  rules: EmailAgentRoutingRule[],
+  email: RoutableEmail
+): RoutingDecision {
+  const sortedRules = [...rules].sort((a, b) => a.priority - b.priority);
+
+  for (const rule of sortedRules) {
+    const target = targets.find(t => t.id === rule.targetId);
+    if (target && ruleMatches(rule, email)) {
+      return { target, rule, reason: 'rule' };
+    }
+  }
+
+  const defaultTarget = targets.find(t => t.isDefault);
+  if (defaultTarget) {
+    return { target: defaultTarget, rule: null, reason: 'default' };
+  }
+
+  return { target: null, rule: null, reason: 'agent' };
+}
+
+export interface RoutingTargetInput {
+  name: string;
+  githubRepository: string;
+  githubRef?: string;
+  model?: string | null;
+  autoCreatePr?: boolean;
+  branchName?: string | null;
+  isDefault?: boolean;
+}
+
+export interface RoutingRuleInput {
+  name: string;
+  target: string; // Name of the target this rule routes to
+  priority?: number;
+  matchType: RoutingMatchType;
+  pattern: string;
+}
+
+/**
+ * Validates a full routing configuration submitted through the API.
+ * @returns An error message, or null if the configuration is valid
+ */
+export function validateRoutingConfig(targets: unknown, rules: unknown): string | null {
+  if (!Array.isArray(targets) || !Array.isArray(rules)) {
+    return 'targets and rules must be arrays';
+  }
+
+  const targetNames = new Set<string>();
+  for (const target of targets as RoutingTargetInput[]) {
+    if (!target || typeof target.name !== 'string' || !target.name.trim()) {
+      return 'Every target needs a name';
+    }
+    if (targetNames.has(target.name)) {
+      return `Duplicate target name: ${target.name}`;
+    }
+    targetNames.add(target.name);
+
+    if (typeof target.githubRepository !== 'string' || !GITHUB_URL_PATTERN.test(target.githubRepository)) {
+      return `Invalid GitHub repository URL format for target ${target.name}`;
+    }
+  }
+
+  if ((targets as RoutingTargetInput[]).filter(t => t.isDefault).length > 1) {
+    return 'Only one target can be the default';
+  }
+
+  for (const rule of rules as RoutingRuleInput[]) {
+    if (!rule || typeof rule.name !== 'string' || !rule.name.trim()) {
+      return 'Every routing rule needs a name';
+    }
+    if (!targetNames.has(rule.target)) {
+      return `Routing rule ${rule.name} points to unknown target: ${rule.target}`;
+    }
+    if (!(ROUTING_MATCH_TYPES as readonly string[]).includes(rule.matchType)) {
+      return `Routing rule ${rule.name} has invalid matchType. Available: ${ROUTING_MATCH_TYPES.join(', ')}`;
+    }
+    if (typeof rule.pattern !== 'string' || !rule.pattern.trim() || rule.pattern.length > MAX_PATTERN_LENGTH) {
+      return `Routing rule ${rule.name} needs a pattern of at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    if (rule.matchType === 'body' && !compileBodyPattern(rule.pattern)) {
+      return `Routing rule ${rule.name} has an invalid regular expression - backreferences and lookarounds aren't supported`;
+    }
+    if (rule.priority !== undefined && !Number.isInteger(rule.priority)) {
+      return `Routing rule ${rule.name} priority must be an integer`;
+    }
+  }
+
+  return null;
+}
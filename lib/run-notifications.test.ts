@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test'
+import { subscribeToRun, publishRunChange } from './run-notifications'
+
+// Without Redis, changes reach subscribers in the same process
+delete process.env.REDIS_URL;
+
+describe('run notifications', () => {
+  test('subscribers hear about their run until they unsubscribe', async () => {
+    const heard: string[] = [];
+    const unsubscribe = await subscribeToRun('run-1', async runId => {
+      heard.push(runId);
+    });
+
+    await publishRunChange('run-1');
+    await publishRunChange('run-2');
+    unsubscribe();
+    await publishRunChange('run-1');
+
+    expect(heard).toEqual(['run-1']);
+  });
+
+  test('a failing subscriber neither stops the others nor the change', async () => {
+    const heard: string[] = [];
+    const unsubscribeFailing = await subscribeToRun('run-3', async () => {
+      throw new Error('Not connected');
+    });
+    const unsubscribe = await subscribeToRun('run-3', async runId => {
+      heard.push(runId);
+    });
+
+    await publishRunChange('run-3');
+    unsubscribeFailing();
+    unsubscribe();
+
+    expect(heard).toEqual(['run-3']);
+  });
+});
@@ -0,0 +1,107 @@
+import { createClient } from 'redis'
+
+/**
+ * Tells MCP clients subscribed to an agent run that it changed. A run changes wherever its
+ * webhook, status check or user request is handled - usually not the instance holding the
+ * subscriber's connection - so changes are published through the Redis the MCP adapter
+ * already needs (`REDIS_URL`). Without it, only subscribers in the same process hear them.
+ */
+
+export type RunChangeListener = (runId: string) => Promise<void>;
+
+type RedisClient = ReturnType<typeof createClient>;
+
+const RUN_CHANGES_CHANNEL = 'agent-run-changes';
+
+const listeners = new Map<string, Set<RunChangeListener>>();
+
+let publisher: Promise<RedisClient> | null = null;
+let subscriber: Promise<RedisClient> | null = null;
+
+async function connectRedis(url: string): Promise<RedisClient> {
+  const client = createClient({ url });
+  client.on('error', error => console.error('❌ Redis error in agent run notifications:', error));
+  await client.connect();
+  return client;
+}
+
+async function notifyListeners(runId: string): Promise<void> {
+  const runListeners = listeners.get(runId);
+  if (!runListeners) {
+    return;
+  }
+
+  await Promise.all([...runListeners].map(async listener => {
+    try {
+      await listener(runId);
+    } catch (error) {
+      console.error(`❌ Failed to notify a subscriber of agent run ${runId}:`, error);
+    }
+  }));
+}
+
+// One subscription per process, shared by every MCP connection it holds
+function getSubscriber(url: string): Promise<RedisClient> {
+  if (!subscriber) {
+    subscriber = connectRedis(url)
+      .then(async client => {
+        await client.subscribe(RUN_CHANGES_CHANNEL, runId => {
+          void notifyListeners(runId);
+        });
+        return client;
+      })
+      .catch(error => {
+        subscriber = null;
+        throw error;
+      });
+  }
+  return subscriber;
+}
+
+function getPublisher(url: string): Promise<RedisClient> {
+  if (!publisher) {
+    publisher = connectRedis(url).catch(error => {
+      publisher = null;
+      throw error;
+    });
+  }
+  return publisher;
+}
+
+/**
+ * Calls `listener` whenever the run changes status, until the returned function is called.
+ * Throws if Redis is configured but can't be reached.
+ */
+export async function subscribeToRun(runId: string, listener: RunChangeListener): Promise<() => void> {
+  const redisUrl = process.env.REDIS_URL;
+  if (redisUrl) {
+    await getSubscriber(redisUrl);
+  }
+
+  const runListeners = listeners.get(runId) || new Set<RunChangeListener>();
+  runListeners.add(listener);
+  listeners.set(runId, runListeners);
+
+  return () => {
+    runListeners.delete(listener);
+    if (runListeners.size === 0 && listeners.get(runId) === runListeners) {
+      listeners.delete(runId);
+    }
+  };
+}
+
+// Announces that a run changed status - failing to is logged, never thrown
+export async function publishRunChange(runId: string): Promise<void> {
+  const redisUrl = process.env.REDIS_URL;
+
+  try {
+    if (redisUrl) {
+      const client = await getPublisher(redisUrl);
+      await client.publish(RUN_CHANGES_CHANNEL, runId);
+    } else {
+      await notifyListeners(runId);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to announce the change of agent run ${runId}:`, error);
+  }
+}
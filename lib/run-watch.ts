@@ -0,0 +1,90 @@
+import { getCursorAgent, type CursorAgent } from './cursor-api'
+import { transitionCursorAgentRuns, getCursorAgentRunUpdate } from './agent-runs'
+import { sendCompletionReplyForAgent } from './completion-reply'
+
+/**
+ * Following agents live over MCP. `waitForCursorAgent` polls Cursor until an agent is done,
+ * recording what it sees on the agent's runs (and replying to their email) the way the reconciler does.
+ * Runs are also MCP resources clients can read and subscribe to, at `agent-run://<runId>` -
+ * lib/run-notifications.ts tells subscribers when one changes.
+ */
+
+export const TERMINAL_AGENT_STATUSES: readonly CursorAgent['status'][] = ['FINISHED', 'ERROR', 'EXPIRED'];
+
+const WAIT_POLL_INTERVAL_MS = 5 * 1000;
+
+const RUN_RESOURCE_PREFIX = 'agent-run://';
+
+export interface AgentWaitResult {
+  agent: CursorAgent | null; // null if the agent no longer exists
+  timedOut: boolean;
+}
+
+export function getRunResourceUri(runId: string): string {
+  return `${RUN_RESOURCE_PREFIX}${runId}`;
+}
+
+export function parseRunResourceUri(uri: string): string | null {
+  return uri.startsWith(RUN_RESOURCE_PREFIX) && uri.length > RUN_RESOURCE_PREFIX.length
+    ? uri.slice(RUN_RESOURCE_PREFIX.length)
+    : null;
+}
+
+// Resolves early when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Polls an agent until it finishes, fails or expires, or the timeout passes. `onPoll` gets
+ * the agent after every check. Throws if the Cursor API fails.
+ */
+export async function waitForCursorAgent(
+  apiKey: string,
+  agentId: string,
+  options: {
+    timeoutMs: number;
+    signal?: AbortSignal;
+    onPoll?: (agent: CursorAgent, elapsedMs: number) => Promise<void>;
+  }
+): Promise<AgentWaitResult> {
+  const startedAt = Date.now();
+
+  while (true) {
+    const readAt = new Date();
+    const agent = await getCursorAgent(apiKey, agentId);
+    if (!agent) {
+      await transitionCursorAgentRuns(agentId, 'expired', 'poll', {
+        message: 'Agent no longer exists in Cursor'
+      }, readAt);
+      return { agent: null, timedOut: false };
+    }
+
+    // Same status as before is a no-op, so only changes are recorded and notified
+    const { status, details } = getCursorAgentRunUpdate(agent);
+    const transitions = await transitionCursorAgentRuns(agent.id, status, 'poll', details, readAt);
+    if (transitions.length > 0) {
+      await sendCompletionReplyForAgent(agent);
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    await options.onPoll?.(agent, elapsedMs);
+
+    if (TERMINAL_AGENT_STATUSES.includes(agent.status)) {
+      return { agent, timedOut: false };
+    }
+
+    const remainingMs = options.timeoutMs - elapsedMs;
+    if (remainingMs <= 0 || options.signal?.aborted) {
+      return { agent, timedOut: true };
+    }
+
+    await sleep(Math.min(WAIT_POLL_INTERVAL_MS, remainingMs), options.signal);
+  }
+}
@@ -4,6 +4,8 @@ import {
   timestamp,
   boolean,
   integer,
+  uniqueIndex,
+  index,
 } from "drizzle-orm/pg-core";
 
 
@@ -81,15 +83,24 @@ export const emailAgent = pgTable("email_agent", {
   model: text("model").$default(() => "claude-3.5-sonnet"),
   autoCreatePr: boolean("auto_create_pr").$default(() => false).notNull(),
   branchName: text("branch_name"), // Optional custom branch name pattern
-  webhookUrl: text("webhook_url"), // Optional webhook URL for status updates
-  webhookSecret: text("webhook_secret"), // Optional webhook secret for verification
+  promptTemplate: text("prompt_template"), // Optional prompt template with {{subject}}, {{body}}, ... placeholders
+  completionTemplate: text("completion_template"), // Optional markdown template for the reply sent when an agent finishes
+  // Outbound webhooks live in webhookEndpoint
   isActive: boolean("is_active").$default(() => true).notNull(),
-  // Sender permissions
-  allowedDomains: text("allowed_domains"), // JSON array of allowed domains (e.g., ["@company.com", "@gmail.com"])
-  allowedEmails: text("allowed_emails"), // JSON array of specific allowed emails
+  // Sender permissions live in senderPolicyRule
+  senderAuthentication: text("sender_authentication").notNull().default("relaxed"), // 'off', 'relaxed', 'strict' SPF/DKIM/DMARC checks of every sender
+  allowedOverrides: text("allowed_overrides"), // JSON array of subject-line overrides senders may use (e.g., ["model", "ref:main", "pr"])
+  requireApproval: boolean("require_approval").notNull().default(false), // Owner must approve each email before an agent is launched
+  approvalTtlHours: integer("approval_ttl_hours").notNull().default(24), // Unapproved emails expire after this long
+  replyAll: boolean("reply_all").notNull().default(false), // Copy the original To/CC recipients on completion replies
+  replyCc: text("reply_cc"), // JSON array of addresses always CC'd on completion replies
+  replyBcc: text("reply_bcc"), // JSON array of addresses always BCC'd on completion replies
+  replyAllowList: text("reply_allow_list"), // JSON array of patterns extra reply recipients must match, null allows nobody
   // InboundEmail integration fields
   inboundEndpointId: text("inbound_endpoint_id"), // InboundEmail endpoint ID
   inboundEmailAddressId: text("inbound_email_address_id"), // InboundEmail address ID
+  inboundVerificationToken: text("inbound_verification_token"), // Sent by Inbound with every webhook delivery
+  inboundPreviousVerificationToken: text("inbound_previous_verification_token"), // Still accepted while a token rotation is underway
   emailAddress: text("email_address"), // Generated email like name@bg.inbound.new
   createdAt: timestamp("created_at").$defaultFn(
     () => /* @__PURE__ */ new Date(),
@@ -99,6 +110,58 @@ export const emailAgent = pgTable("email_agent", {
   ).notNull(),
 });
 
+export const emailAgentTarget = pgTable("email_agent_target", {
+  id: text("id").primaryKey(),
+  emailAgentId: text("email_agent_id")
+    .notNull()
+    .references(() => emailAgent.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Label used by routing rules and logs (e.g., "frontend")
+  githubRepository: text("github_repository").notNull(),
+  githubRef: text("github_ref").notNull().$default(() => "main"),
+  model: text("model"), // Falls back to the email agent's model
+  autoCreatePr: boolean("auto_create_pr").$default(() => false).notNull(),
+  branchName: text("branch_name"),
+  isDefault: boolean("is_default").$default(() => false).notNull(), // Used when no routing rule matches
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  updatedAt: timestamp("updated_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+});
+
+export const emailAgentRoutingRule = pgTable("email_agent_routing_rule", {
+  id: text("id").primaryKey(),
+  emailAgentId: text("email_agent_id")
+    .notNull()
+    .references(() => emailAgent.id, { onDelete: "cascade" }),
+  targetId: text("target_id")
+    .notNull()
+    .references(() => emailAgentTarget.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  priority: integer("priority").notNull().$default(() => 0), // Lower runs first
+  matchType: text("match_type").notNull(), // 'sender', 'subject', 'body'
+  pattern: text("pattern").notNull(), // Sender email/@domain, comma-separated subject keywords, or body regex
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+});
+
+export const senderPolicyRule = pgTable("sender_policy_rule", {
+  id: text("id").primaryKey(),
+  emailAgentId: text("email_agent_id")
+    .notNull()
+    .references(() => emailAgent.id, { onDelete: "cascade" }),
+  effect: text("effect").notNull(), // 'allow', 'deny'
+  pattern: text("pattern").notNull(), // user@company.com, company.com, *.company.com or *
+  priority: integer("priority").notNull().$default(() => 0), // Lower runs first
+  allowedRepositories: text("allowed_repositories"), // JSON array of repository URLs matching senders may target, null for any
+  allowAutoPr: boolean("allow_auto_pr").$default(() => true).notNull(), // Whether matching senders may launch with auto-PR
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+});
+
 export const agentLaunchLog = pgTable("agent_launch_log", {
   id: text("id").primaryKey(),
   emailAgentId: text("email_agent_id")
@@ -109,14 +172,54 @@ export const agentLaunchLog = pgTable("agent_launch_log", {
     .references(() => user.id, { onDelete: "cascade" }),
   senderEmail: text("sender_email").notNull(),
   emailSubject: text("email_subject"),
+  inboundEmailId: text("inbound_email_id"), // Inbound email ID the launch was triggered by
   cursorAgentId: text("cursor_agent_id"), // Null if failed
-  status: text("status").notNull(), // 'success', 'failed', 'rejected'
+  status: text("status").notNull(), // 'launching' (Cursor is being called), 'success', 'followup', 'failed', 'rejected'
   errorMessage: text("error_message"), // Error details if failed/rejected
+  attachments: text("attachments"), // JSON array of attachments included in or dropped from the prompt
+  overrides: text("overrides"), // JSON of subject-line overrides applied or rejected for this launch
+  routing: text("routing"), // JSON of the routing rule that matched and the selected repository target
   createdAt: timestamp("created_at").$defaultFn(
     () => /* @__PURE__ */ new Date(),
   ).notNull(),
 });
 
+export const inboundJob = pgTable("inbound_job", {
+  id: text("id").primaryKey(),
+  emailAgentId: text("email_agent_id")
+    .notNull()
+    .references(() => emailAgent.id, { onDelete: "cascade" }),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  inboundEmailId: text("inbound_email_id").notNull(), // Inbound email ID from the webhook payload
+  senderEmail: text("sender_email").notNull(),
+  emailSubject: text("email_subject"),
+  payload: text("payload").notNull(), // JSON of the full Inbound webhook payload
+  status: text("status").notNull().$default(() => "pending"), // 'pending', 'processing', 'completed', 'dead_letter', 'pending_approval', 'rejected', 'expired'
+  attempts: integer("attempts").notNull().$default(() => 0),
+  maxAttempts: integer("max_attempts").notNull().$default(() => 5),
+  nextRunAt: timestamp("next_run_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(), // Earliest time a worker may pick the job up
+  lockedAt: timestamp("locked_at"), // Set while a worker is processing the job
+  lastError: text("last_error"),
+  result: text("result"), // JSON of the processing result once completed
+  approvalToken: text("approval_token").unique(), // Secret for the approve/reject links emailed to the owner
+  approvalExpiresAt: timestamp("approval_expires_at"),
+  approvedAt: timestamp("approved_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  updatedAt: timestamp("updated_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+}, (table) => [
+  // Inbound retries webhooks, so each email is only queued once per agent
+  uniqueIndex("inbound_job_email_agent_id_inbound_email_id_idx").on(table.emailAgentId, table.inboundEmailId),
+]);
+
 export const cursorAgentMapping = pgTable("cursor_agent_mapping", {
   id: text("id").primaryKey(),
   cursorAgentId: text("cursor_agent_id").notNull().unique(), // The ID from Cursor API
@@ -124,13 +227,178 @@ export const cursorAgentMapping = pgTable("cursor_agent_mapping", {
     .notNull()
     .references(() => emailAgent.id, { onDelete: "cascade" }),
   originalEmailId: text("original_email_id").notNull(), // Inbound email ID for replies
+  originalMessageId: text("original_message_id"), // Message-ID header of the triggering email, used for thread matching
+  originalSubject: text("original_subject"), // Subject of the triggering email, replies use "Re: <subject>"
+  replyMessageId: text("reply_message_id"), // Message-ID of our latest reply, used for thread matching
+  originalRecipients: text("original_recipients"), // JSON array of the triggering email's To/CC addresses, for reply-all
   emailAddress: text("email_address").notNull(), // Email address to send response from
-  webhookSecret: text("webhook_secret"), // Webhook secret for verification
+  webhookSecret: text("webhook_secret"), // Secret Cursor signs its callbacks for this agent with
   createdAt: timestamp("created_at").$defaultFn(
     () => /* @__PURE__ */ new Date(),
   ).notNull(),
 });
 
+// Agents launched together on one repository, each on its own branch and limited to its own paths
+export const agentBatch = pgTable("agent_batch", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  name: text("name"),
+  source: text("source").notNull(), // Where the batch was launched from: 'mcp', 'api'
+  repository: text("repository").notNull(),
+  ref: text("ref").notNull(),
+  status: text("status").notNull(), // 'running', then 'finished' if every run finished or 'failed'
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  updatedAt: timestamp("updated_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  finishedAt: timestamp("finished_at"), // Set once the last run of the batch is done
+}, (table) => [
+  index("agent_batch_user_id_idx").on(table.userId),
+]);
+
+export const agentRun = pgTable("agent_run", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  emailAgentId: text("email_agent_id")
+    .references(() => emailAgent.id, { onDelete: "cascade" }), // Null for runs launched without an email agent
+  source: text("source").notNull().default("email"), // Where the run was launched from: 'email', 'mcp', 'api', 'dashboard'
+  inboundJobId: text("inbound_job_id")
+    .unique()
+    .references(() => inboundJob.id, { onDelete: "set null" }), // Queue job the run was created for
+  inboundEmailId: text("inbound_email_id"), // Inbound email ID the run was triggered by
+  launchLogId: text("launch_log_id")
+    .references(() => agentLaunchLog.id, { onDelete: "set null" }), // Launch attempt that ended the queued phase
+  cursorAgentId: text("cursor_agent_id"), // Set once the agent exists - follow-ups share their agent's ID
+  batchId: text("batch_id")
+    .references(() => agentBatch.id, { onDelete: "set null" }), // Batch the run was launched in
+  pathScopes: text("path_scopes"), // JSON array of the paths a batch run may change
+  senderEmail: text("sender_email").notNull(),
+  emailSubject: text("email_subject"),
+  status: text("status").notNull(), // 'received', 'queued', 'creating', 'running', 'finished', 'error', 'expired', 'cancelled'
+  statusMessage: text("status_message"), // Why the run is in its current status
+  repository: text("repository"),
+  branchName: text("branch_name"),
+  prUrl: text("pr_url"),
+  summary: text("summary"), // The agent's summary once it finished
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  updatedAt: timestamp("updated_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  finishedAt: timestamp("finished_at"), // Set when the run reaches a terminal status
+  replySentAt: timestamp("reply_sent_at"), // Set when the completion reply to the run's email is sent
+  cursorWebhookSecret: text("cursor_webhook_secret"), // Secret Cursor signs its callbacks for this run's agent with - email runs keep theirs on the cursorAgentMapping
+}, (table) => [
+  index("agent_run_cursor_agent_id_idx").on(table.cursorAgentId),
+  index("agent_run_user_id_status_idx").on(table.userId, table.status),
+  index("agent_run_batch_id_idx").on(table.batchId),
+]);
+
+export const agentRunEvent = pgTable("agent_run_event", {
+  id: text("id").primaryKey(),
+  runId: text("run_id")
+    .notNull()
+    .references(() => agentRun.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"), // Null for the event that created the run
+  toStatus: text("to_status").notNull(),
+  source: text("source").notNull(), // 'webhook', 'poll', 'manual'
+  message: text("message"),
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+}, (table) => [
+  index("agent_run_event_run_id_idx").on(table.runId),
+]);
+
+export const webhookEndpoint = pgTable("webhook_endpoint", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  // An endpoint gets the events of every run of an email agent, of a single run, or of a batch
+  emailAgentId: text("email_agent_id")
+    .references(() => emailAgent.id, { onDelete: "cascade" }),
+  runId: text("run_id")
+    .references(() => agentRun.id, { onDelete: "cascade" }),
+  batchId: text("batch_id")
+    .references(() => agentBatch.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().default("webhook"), // 'webhook' (JSON events), 'slack', 'discord'
+  url: text("url").notNull(),
+  secret: text("secret"), // Signs every delivery, null sends them unsigned
+  events: text("events"), // JSON array of event types the endpoint is subscribed to, null for all
+  description: text("description"),
+  isActive: boolean("is_active").$default(() => true).notNull(),
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  updatedAt: timestamp("updated_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+}, (table) => [
+  index("webhook_endpoint_email_agent_id_idx").on(table.emailAgentId),
+  index("webhook_endpoint_run_id_idx").on(table.runId),
+  index("webhook_endpoint_batch_id_idx").on(table.batchId),
+]);
+
+export const webhookDelivery = pgTable("webhook_delivery", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  emailAgentId: text("email_agent_id")
+    .references(() => emailAgent.id, { onDelete: "cascade" }),
+  endpointId: text("endpoint_id")
+    .references(() => webhookEndpoint.id, { onDelete: "cascade" }), // null for deliveries made before endpoints existed
+  runId: text("run_id")
+    .references(() => agentRun.id, { onDelete: "set null" }),
+  eventId: text("event_id").notNull(), // ID from the event envelope, the same for every endpoint it goes to
+  event: text("event").notNull(), // Event type from lib/webhook-events.ts
+  url: text("url").notNull(),
+  payload: text("payload").notNull(), // JSON event envelope (or chat message), sent unchanged on every attempt
+  status: text("status").notNull().$default(() => "pending"), // 'pending', 'delivered', 'failed'
+  attempts: integer("attempts").notNull().$default(() => 0),
+  maxAttempts: integer("max_attempts").notNull().$default(() => 8),
+  nextAttemptAt: timestamp("next_attempt_at"), // When a pending delivery is retried
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+  updatedAt: timestamp("updated_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+}, (table) => [
+  index("webhook_delivery_email_agent_id_idx").on(table.emailAgentId),
+  index("webhook_delivery_status_next_attempt_at_idx").on(table.status, table.nextAttemptAt),
+]);
+
+export const webhookDeliveryAttempt = pgTable("webhook_delivery_attempt", {
+  id: text("id").primaryKey(),
+  deliveryId: text("delivery_id")
+    .notNull()
+    .references(() => webhookDelivery.id, { onDelete: "cascade" }),
+  attempt: integer("attempt").notNull(), // 1-based, counts manual redeliveries too
+  trigger: text("trigger").notNull(), // 'automatic', 'manual'
+  url: text("url").notNull(),
+  signature: text("signature"), // X-Webhook-Signature header, null when the agent has no secret
+  responseStatus: integer("response_status"), // Null when no response came back
+  responseBody: text("response_body"), // First 2KB of the response
+  error: text("error"), // Network error or timeout
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: timestamp("created_at").$defaultFn(
+    () => /* @__PURE__ */ new Date(),
+  ).notNull(),
+}, (table) => [
+  index("webhook_delivery_attempt_delivery_id_idx").on(table.deliveryId),
+]);
+
 export const oauthApplication = pgTable("oauth_application", {
   id: text("id").primaryKey(),
   name: text("name"),
@@ -0,0 +1,152 @@
+import crypto from 'crypto'
+
+/**
+ * Envelope encryption for secrets stored in the database (Cursor API keys).
+ *
+ * Every secret is encrypted with its own random data key (AES-256-GCM), and the data key
+ * is encrypted ("wrapped") with a master key from the environment. Rotating the master key
+ * only re-wraps the data keys, so the secrets themselves never have to be re-encrypted.
+ *
+ * Master keys are configured as `ENCRYPTION_MASTER_KEYS="<id>:<base64 32 bytes>,..."`.
+ * The first key encrypts new secrets; the others can still decrypt until `bun run secrets:rekey`
+ * has moved every secret over to the first key.
+ */
+
+const ENCRYPTED_PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let masterKeys: MasterKey[] | null = null;
+
+function getMasterKeys(): MasterKey[] {
+  if (masterKeys) {
+    return masterKeys;
+  }
+
+  const configured = process.env.ENCRYPTION_MASTER_KEYS;
+  if (!configured) {
+    throw new Error('ENCRYPTION_MASTER_KEYS environment variable is required');
+  }
+
+  masterKeys = configured.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [id, encodedKey] = entry.split(':');
+    const key = Buffer.from(encodedKey || '', 'base64');
+    if (!id || key.length !== 32) {
+      throw new Error(`Invalid master key "${id}": expected <id>:<base64 encoded 32 byte key>`);
+    }
+    return { id, key };
+  });
+
+  if (masterKeys.length === 0) {
+    throw new Error('ENCRYPTION_MASTER_KEYS does not contain any keys');
+  }
+
+  return masterKeys;
+}
+
+function findMasterKey(id: string): MasterKey {
+  const masterKey = getMasterKeys().find(candidate => candidate.id === id);
+  if (!masterKey) {
+    throw new Error(`Secret was encrypted with unknown master key "${id}"`);
+  }
+  return masterKey;
+}
+
+// iv + auth tag + ciphertext, base64 encoded
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+interface EncryptedSecret {
+  keyId: string;
+  wrappedKey: string;
+  ciphertext: string;
+}
+
+// Format: enc:v1:<master key id>:<wrapped data key>:<ciphertext>
+function parseEncryptedSecret(value: string): EncryptedSecret {
+  const parts = value.split(':');
+  if (parts.length !== 5 || `${parts[0]}:${parts[1]}` !== ENCRYPTED_PREFIX) {
+    throw new Error('Malformed encrypted secret');
+  }
+  return { keyId: parts[2], wrappedKey: parts[3], ciphertext: parts[4] };
+}
+
+function formatEncryptedSecret({ keyId, wrappedKey, ciphertext }: EncryptedSecret): string {
+  return `${ENCRYPTED_PREFIX}:${keyId}:${wrappedKey}:${ciphertext}`;
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${ENCRYPTED_PREFIX}:`);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const [activeKey] = getMasterKeys();
+  const dataKey = crypto.randomBytes(32);
+
+  return formatEncryptedSecret({
+    keyId: activeKey.id,
+    wrappedKey: seal(activeKey.key, dataKey),
+    ciphertext: seal(dataKey, Buffer.from(plaintext, 'utf8')),
+  });
+}
+
+/**
+ * The one place stored secrets are decrypted. Values that haven't been encrypted yet
+ * (rows written before `bun run db:migrate` encrypted them) are returned as they are,
+ * with a warning until they are.
+ */
+export function decryptSecret(value: string): string;
+export function decryptSecret(value: string | null | undefined): string | null;
+export function decryptSecret(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  if (!isEncryptedSecret(value)) {
+    console.warn('⚠️ Read a secret that is still stored as plaintext - run `bun run secrets:encrypt` to encrypt it');
+    return value;
+  }
+
+  const { keyId, wrappedKey, ciphertext } = parseEncryptedSecret(value);
+  const dataKey = open(findMasterKey(keyId).key, wrappedKey);
+  return open(dataKey, ciphertext).toString('utf8');
+}
+
+/**
+ * Re-wraps a secret's data key with the active master key, or encrypts it if it's still plaintext.
+ * The secret's own ciphertext is left untouched.
+ */
+export function rekeySecret(value: string): string {
+  if (!isEncryptedSecret(value)) {
+    return encryptSecret(value);
+  }
+
+  const secret = parseEncryptedSecret(value);
+  const [activeKey] = getMasterKeys();
+  if (secret.keyId === activeKey.id) {
+    return value;
+  }
+
+  const dataKey = open(findMasterKey(secret.keyId).key, secret.wrappedKey);
+  return formatEncryptedSecret({
+    keyId: activeKey.id,
+    wrappedKey: seal(activeKey.key, dataKey),
+    ciphertext: secret.ciphertext,
+  });
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from 'bun:test'
+import type { InboundEmailHeaders } from '@inboundemail/sdk'
+import { checkSenderAuthentication, parseAuthenticationResults } from './sender-authentication'
+
+const SES_PASS = 'amazonses.com; spf=pass (spfCheck: domain of company.com designates 1.2.3.4 as permitted sender) smtp.mailfrom=bounce@mail.company.com; dkim=pass header.i=@company.com; dmarc=pass header.from=company.com;';
+
+function headers(values: Record<string, string | string[]>): InboundEmailHeaders {
+  return values as unknown as InboundEmailHeaders;
+}
+
+function check(authenticationResults: string | string[], senderEmail: string, mode: 'relaxed' | 'strict') {
+  const results = parseAuthenticationResults(headers({ 'authentication-results': authenticationResults }), ['amazonses.com']);
+  return checkSenderAuthentication(results, senderEmail, mode);
+}
+
+describe('parseAuthenticationResults', () => {
+  test('reads the verdicts of the trusted mail server', () => {
+    expect(parseAuthenticationResults(headers({ 'authentication-results': SES_PASS }), ['amazonses.com'])).toEqual({
+      spf: { result: 'pass', domain: 'mail.company.com' },
+      dkim: [{ result: 'pass', domain: 'company.com' }],
+      dmarc: { result: 'pass', domain: 'company.com' },
+    });
+  });
+
+  test('ignores headers from other servers, even above the trusted one', () => {
+    const forged = 'mx.attacker.com; spf=pass smtp.mailfrom=ceo@company.com; dkim=pass header.d=company.com; dmarc=pass header.from=company.com';
+    const trusted = 'amazonses.com; spf=fail smtp.mailfrom=ceo@company.com; dkim=none; dmarc=fail header.from=company.com';
+
+    const results = parseAuthenticationResults(headers({ 'authentication-results': [forged, trusted] }), ['amazonses.com']);
+    expect(results.spf).toEqual({ result: 'fail', domain: 'company.com' });
+    expect(results.dmarc).toEqual({ result: 'fail', domain: 'company.com' });
+  });
+
+  // The trusted server adds its header on top - one below it came with the mail
+  test('reads only the topmost trusted header, not a spoofed one below it', () => {
+    const trusted = 'amazonses.com; spf=fail smtp.mailfrom=ceo@company.com; dmarc=fail header.from=company.com';
+    const spoofed = 'amazonses.com; spf=pass smtp.mailfrom=ceo@company.com; dkim=pass header.d=company.com; dmarc=pass header.from=company.com';
+
+    const results = parseAuthenticationResults(headers({ 'authentication-results': [trusted, spoofed] }), ['amazonses.com']);
+    expect(results).toEqual({ spf: { result: 'fail', domain: 'company.com' }, dkim: [], dmarc: { result: 'fail', domain: 'company.com' } });
+    expect(check([trusted, spoofed], 'ceo@company.com', 'relaxed')).toEqual({ ok: false, reason: 'DMARC fail for company.com' });
+  });
+
+  test('falls back to Received-SPF', () => {
+    const results = parseAuthenticationResults(headers({
+      'authentication-results': 'amazonses.com; dkim=none',
+      'received-spf': 'Pass (mailfrom) client-ip=1.2.3.4; envelope-from="bounce@company.com"; helo=mail.company.com;',
+    }), ['amazonses.com']);
+    expect(results.spf).toEqual({ result: 'pass', domain: 'company.com' });
+  });
+
+  test('finds no verdicts in malformed or missing headers', () => {
+    const empty = { spf: null, dkim: [], dmarc: null };
+    for (const value of ['', ';;;', 'amazonses.com', 'amazonses.com; spf', 'amazonses.com; (spf=pass smtp.mailfrom=company.com)', 'garbage without separators']) {
+      expect(parseAuthenticationResults(headers({ 'authentication-results': value }), ['amazonses.com'])).toEqual(empty);
+    }
+    expect(parseAuthenticationResults(undefined, ['amazonses.com'])).toEqual(empty);
+    expect(parseAuthenticationResults(headers({ 'authentication-results': 42 as unknown as string }), ['amazonses.com'])).toEqual(empty);
+  });
+});
+
+describe('checkSenderAuthentication', () => {
+  test('lets authenticated senders through in both modes', () => {
+    const header = 'amazonses.com; spf=pass smtp.mailfrom=bounce@company.com; dkim=pass header.d=company.com; dmarc=pass header.from=company.com';
+    expect(check(header, 'dev@company.com', 'relaxed')).toEqual({ ok: true });
+    expect(check(header, 'dev@company.com', 'strict')).toEqual({ ok: true });
+  });
+
+  test('relaxed accepts verdicts for a subdomain, strict only for the From domain', () => {
+    expect(check(SES_PASS, 'dev@company.com', 'relaxed')).toEqual({ ok: true });
+    expect(check(SES_PASS, 'dev@company.com', 'strict')).toEqual({ ok: false, reason: 'SPF passed for mail.company.com, not company.com' });
+  });
+
+  test('refuses verdicts that passed for another domain', () => {
+    const header = 'amazonses.com; spf=pass smtp.mailfrom=bounce@evilcompany.com; dkim=pass header.d=evilcompany.com; dmarc=none';
+    expect(check(header, 'dev@company.com', 'relaxed')).toEqual({ ok: false, reason: 'Neither SPF nor DKIM passed for company.com' });
+  });
+
+  test('strict needs DMARC to pass, relaxed only needs it not to fail', () => {
+    const header = 'amazonses.com; spf=pass smtp.mailfrom=bounce@company.com; dkim=pass header.d=company.com';
+    expect(check(header, 'dev@company.com', 'relaxed')).toEqual({ ok: true });
+    expect(check(header, 'dev@company.com', 'strict')).toEqual({ ok: false, reason: 'DMARC none for company.com' });
+  });
+
+  test('refuses senders without verdicts or a domain, unless checks are off', () => {
+    const none = parseAuthenticationResults(undefined, ['amazonses.com']);
+    expect(checkSenderAuthentication(none, 'dev@company.com', 'relaxed')).toEqual({ ok: false, reason: 'Neither SPF nor DKIM passed for company.com' });
+    expect(checkSenderAuthentication(none, '', 'relaxed')).toEqual({ ok: false, reason: 'Sender address has no domain' });
+    expect(checkSenderAuthentication(none, 'dev@company.com', 'off')).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,201 @@
+import type { InboundEmailHeaders } from '@inboundemail/sdk'
+
+/**
+ * Checks the SPF, DKIM and DMARC verdicts the receiving mail server recorded in the
+ * `Authentication-Results` / `Received-SPF` headers, so a spoofed `From` header
+ * can't get past an agent's sender allow-list.
+ *
+ * - `off`: verdicts are ignored
+ * - `relaxed`: DMARC must not fail, and SPF or DKIM must pass for the From domain or one of its subdomains
+ * - `strict`: DMARC, SPF and DKIM must all pass for exactly the From domain
+ *
+ * Anyone can put an `Authentication-Results` header into the mail they send, so only the
+ * topmost one written by Inbound's mail server - identified by its authserv-id - is read.
+ */
+
+// Inbound receives mail through Amazon SES. Override with a comma-separated list for other mail servers.
+const DEFAULT_TRUSTED_AUTHSERV_IDS = ['amazonses.com'];
+
+export const SENDER_AUTHENTICATION_MODES = ['off', 'relaxed', 'strict'] as const;
+
+export type SenderAuthenticationMode = typeof SENDER_AUTHENTICATION_MODES[number];
+
+export interface AuthenticationVerdict {
+  result: string; // pass, fail, softfail, neutral, none, temperror, permerror, ...
+  domain: string | null;
+}
+
+export interface AuthenticationResults {
+  spf: AuthenticationVerdict | null;
+  dkim: AuthenticationVerdict[];
+  dmarc: AuthenticationVerdict | null;
+}
+
+export type SenderAuthenticationCheck =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+function headerValues(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === 'string');
+  }
+  return [];
+}
+
+function domainOf(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const domain = value.includes('@') ? value.split('@').pop()! : value;
+  return domain.trim().replace(/[<>]/g, '').toLowerCase() || null;
+}
+
+function getTrustedAuthservIds(): string[] {
+  const configured = process.env.TRUSTED_AUTHSERV_IDS;
+  if (!configured) {
+    return DEFAULT_TRUSTED_AUTHSERV_IDS;
+  }
+  return configured.split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+}
+
+function parseProperties(segment: string): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(segment.matchAll(/([a-z][a-z.-]*)\s*=\s*("[^"]*"|[^\s;]+)/gi))
+      .map(([, key, value]) => [key.toLowerCase(), value.replace(/"/g, '')])
+  );
+}
+
+/**
+ * Parses the `Authentication-Results` header (RFC 8601) of Inbound's mail server.
+ * Headers are listed topmost first, so the first one with a trusted authserv-id was
+ * added on receipt - every other one could come from the sender and is ignored.
+ * When several verdicts are present for SPF or DMARC, the first one wins.
+ */
+export function parseAuthenticationResults(
+  headers: InboundEmailHeaders | undefined,
+  trustedAuthservIds: string[] = getTrustedAuthservIds()
+): AuthenticationResults {
+  const results: AuthenticationResults = { spf: null, dkim: [], dmarc: null };
+
+  // Drop comments, then split off the authserv-id before the first ';'
+  const header = headerValues(headers?.['authentication-results'])
+    .map(value => value.replace(/\([^)]*\)/g, '').split(';'))
+    .find(([authservId]) => trustedAuthservIds.includes(authservId.trim().split(/\s+/)[0].toLowerCase()));
+
+  if (!header) {
+    return results;
+  }
+
+  const entries: Array<{ method: string; result: string; properties: Record<string, string> }> = [];
+
+  for (const segment of header.slice(1)) {
+    const match = segment.trim().match(/^(spf|dkim|dmarc)\s*=\s*([a-z]+)/i);
+    if (match) {
+      entries.push({ method: match[1].toLowerCase(), result: match[2].toLowerCase(), properties: parseProperties(segment) });
+    } else if (entries.length > 0) {
+      // Some servers (e.g. SES) put properties like envelope-from in their own ';' segment
+      Object.assign(entries[entries.length - 1].properties, parseProperties(segment));
+    }
+  }
+
+  for (const { method, result, properties } of entries) {
+    if (method === 'spf' && !results.spf) {
+      const mailFrom = properties['smtp.mailfrom'] || properties['envelope-from'] || properties['smtp.helo'] || properties['helo'];
+      results.spf = { result, domain: domainOf(mailFrom) };
+    } else if (method === 'dkim') {
+      results.dkim.push({ result, domain: domainOf(properties['header.d'] || properties['header.i']) });
+    } else if (method === 'dmarc' && !results.dmarc) {
+      results.dmarc = { result, domain: domainOf(properties['header.from']) };
+    }
+  }
+
+  // Fall back to the topmost Received-SPF, written by the same server:
+  // "Pass (...) client-ip=...; envelope-from=bounce@example.com; ..."
+  if (!results.spf) {
+    const [receivedSpf] = headerValues(headers?.['received-spf']);
+    const result = receivedSpf?.trim().match(/^([a-z]+)/i)?.[1];
+    if (result) {
+      const envelopeFrom = receivedSpf.match(/envelope-from=("?)([^\s;"]+)\1/i)?.[2];
+      results.spf = { result: result.toLowerCase(), domain: domainOf(envelopeFrom) };
+    }
+  }
+
+  return results;
+}
+
+function describeFailure(name: string, verdicts: AuthenticationVerdict[], fromDomain: string): string {
+  const passed = verdicts.find(verdict => verdict.result === 'pass');
+  if (passed) {
+    return `${name} passed for ${passed.domain || 'an unknown domain'}, not ${fromDomain}`;
+  }
+  return `${name} ${verdicts[0]?.result || 'none'} for ${fromDomain}`;
+}
+
+function isAligned(domain: string | null, fromDomain: string, mode: SenderAuthenticationMode): boolean {
+  if (!domain) {
+    return false;
+  }
+  if (mode === 'strict') {
+    return domain === fromDomain;
+  }
+  return domain === fromDomain || domain.endsWith(`.${fromDomain}`) || fromDomain.endsWith(`.${domain}`);
+}
+
+/**
+ * Checks the parsed verdicts against the domain of the sender's From address.
+ * The reason explains which check failed, for the launch log.
+ */
+export function checkSenderAuthentication(
+  results: AuthenticationResults,
+  senderEmail: string,
+  mode: SenderAuthenticationMode
+): SenderAuthenticationCheck {
+  if (mode === 'off') {
+    return { ok: true };
+  }
+
+  const fromDomain = domainOf(senderEmail);
+  if (!fromDomain) {
+    return { ok: false, reason: 'Sender address has no domain' };
+  }
+
+  const spfPass = results.spf?.result === 'pass' && isAligned(results.spf.domain, fromDomain, mode);
+  const dkimPass = results.dkim.some(dkim => dkim.result === 'pass' && isAligned(dkim.domain, fromDomain, mode));
+  const dmarcResult = results.dmarc?.result || 'none';
+
+  if (mode === 'strict') {
+    if (dmarcResult !== 'pass') {
+      return { ok: false, reason: `DMARC ${dmarcResult} for ${fromDomain}` };
+    }
+    if (!spfPass) {
+      return { ok: false, reason: describeFailure('SPF', results.spf ? [results.spf] : [], fromDomain) };
+    }
+    if (!dkimPass) {
+      return { ok: false, reason: describeFailure('DKIM', results.dkim, fromDomain) };
+    }
+    return { ok: true };
+  }
+
+  if (dmarcResult === 'fail') {
+    return { ok: false, reason: `DMARC fail for ${fromDomain}` };
+  }
+  if (!spfPass && !dkimPass) {
+    return { ok: false, reason: `Neither SPF nor DKIM passed for ${fromDomain}` };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Validates a strictness setting submitted through the API.
+ * @returns An error message, or null if the setting is valid
+ */
+export function validateSenderAuthenticationMode(mode: unknown): string | null {
+  if (!(SENDER_AUTHENTICATION_MODES as readonly unknown[]).includes(mode)) {
+    return `Invalid senderAuthentication. Available: ${SENDER_AUTHENTICATION_MODES.join(', ')}`;
+  }
+  return null;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  evaluateSenderPolicy,
+  matchesSenderPattern,
+  checkRepositoryLimit,
+  type EvaluableSenderRule
+} from './sender-policy'
+
+function rule(effect: 'allow' | 'deny', pattern: string, overrides: Partial<EvaluableSenderRule> = {}): EvaluableSenderRule {
+  return { effect, pattern, priority: 0, allowedRepositories: null, allowAutoPr: true, ...overrides };
+}
+
+describe('matchesSenderPattern', () => {
+  test('a domain matches exactly that domain', () => {
+    expect(matchesSenderPattern('company.com', 'dev@company.com')).toBe(true);
+    expect(matchesSenderPattern('@company.com', 'dev@company.com')).toBe(true);
+    expect(matchesSenderPattern('company.com', 'dev@eu.company.com')).toBe(false);
+    expect(matchesSenderPattern('company.com', 'dev@evilcompany.com')).toBe(false);
+  });
+
+  test('*.domain matches subdomains only', () => {
+    expect(matchesSenderPattern('*.company.com', 'dev@eu.company.com')).toBe(true);
+    expect(matchesSenderPattern('*.company.com', 'dev@a.b.company.com')).toBe(true);
+    expect(matchesSenderPattern('*.company.com', 'dev@company.com')).toBe(false);
+    expect(matchesSenderPattern('*.company.com', 'dev@evilcompany.com')).toBe(false);
+  });
+
+  test('addresses match exactly and case-insensitively', () => {
+    expect(matchesSenderPattern('Dev@Company.com', 'dev@company.com')).toBe(true);
+    expect(matchesSenderPattern('dev@company.com', 'other@company.com')).toBe(false);
+    expect(matchesSenderPattern('*', 'anyone@anywhere.org')).toBe(true);
+  });
+});
+
+describe('evaluateSenderPolicy', () => {
+  test('allows everyone without rules', () => {
+    expect(evaluateSenderPolicy([], 'anyone@anywhere.org').allowed).toBe(true);
+  });
+
+  test('rejects senders that match no allow rule', () => {
+    const decision = evaluateSenderPolicy([rule('allow', 'company.com')], 'dev@eu.company.com');
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule).toBeNull();
+  });
+
+  test('allows senders that match no rule when there are only deny rules', () => {
+    expect(evaluateSenderPolicy([rule('deny', 'spam.com')], 'dev@company.com').allowed).toBe(true);
+  });
+
+  test('the rule with the lowest priority wins', () => {
+    const rules = [
+      rule('allow', 'company.com', { priority: 2 }),
+      rule('deny', 'intern@company.com', { priority: 1 }),
+    ];
+    expect(evaluateSenderPolicy(rules, 'intern@company.com').allowed).toBe(false);
+    expect(evaluateSenderPolicy(rules, 'dev@company.com').allowed).toBe(true);
+
+    const reversed = [
+      rule('allow', 'company.com', { priority: 1 }),
+      rule('deny', 'intern@company.com', { priority: 2 }),
+    ];
+    expect(evaluateSenderPolicy(reversed, 'intern@company.com').allowed).toBe(true);
+  });
+
+  test('deny rules go first on equal priority', () => {
+    const rules = [rule('allow', 'company.com'), rule('deny', 'company.com')];
+    const decision = evaluateSenderPolicy(rules, 'dev@company.com');
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule?.effect).toBe('deny');
+  });
+
+  test('returns the limits of the matched allow rule', () => {
+    const repository = 'https://github.com/company/app';
+    const rules = [
+      rule('allow', 'contractor@partner.com', {
+        priority: 1,
+        allowedRepositories: JSON.stringify([repository]),
+        allowAutoPr: false
+      }),
+      rule('allow', 'company.com', { priority: 2 }),
+    ];
+
+    const limited = evaluateSenderPolicy(rules, 'contractor@partner.com');
+    expect(limited.limits).toEqual({ repositories: [repository], allowAutoPr: false });
+
+    const unlimited = evaluateSenderPolicy(rules, 'dev@company.com');
+    expect(unlimited.limits).toEqual({ repositories: null, allowAutoPr: true });
+  });
+
+  test('an empty repository list means any repository', () => {
+    const decision = evaluateSenderPolicy([rule('allow', '*', { allowedRepositories: '[]' })], 'dev@company.com');
+    expect(decision.limits.repositories).toBeNull();
+  });
+});
+
+describe('checkRepositoryLimit', () => {
+  const repository = 'https://github.com/company/app';
+
+  test('allows the listed repositories only', () => {
+    const limits = { repositories: [repository], allowAutoPr: true };
+    expect(checkRepositoryLimit(limits, repository)).toBeNull();
+    expect(checkRepositoryLimit(limits, 'https://github.com/company/other')).toBe('Sender may not target https://github.com/company/other');
+  });
+
+  test('allows any repository without a list', () => {
+    expect(checkRepositoryLimit({ repositories: null, allowAutoPr: true }, repository)).toBeNull();
+  });
+});
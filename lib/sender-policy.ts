@@ -0,0 +1,186 @@
+import { nanoid } from 'nanoid'
+import { senderPolicyRule } from './schema'
+
+/**
+ * Sender policies decide who may email an agent and what they may ask it to do.
+ *
+ * Rule patterns are matched exactly (case-insensitive):
+ * - `user@company.com` matches that address only
+ * - `company.com` (or `@company.com`) matches addresses at that domain, not `evilcompany.com` or subdomains
+ * - `*.company.com` matches addresses at any subdomain of company.com, not company.com itself
+ * - `*` matches everyone
+ *
+ * Rules are evaluated by priority and the first match wins; on equal priority deny rules
+ * go first. Senders that match no rule are allowed only if the agent has no allow rules.
+ */
+
+export type SenderPolicyRule = typeof senderPolicyRule.$inferSelect;
+
+export const SENDER_POLICY_EFFECTS = ['allow', 'deny'] as const;
+
+export type SenderPolicyEffect = typeof SENDER_POLICY_EFFECTS[number];
+
+export type EvaluableSenderRule = Pick<SenderPolicyRule, 'effect' | 'pattern' | 'priority' | 'allowedRepositories' | 'allowAutoPr'>;
+
+export interface SenderLimits {
+  repositories: string[] | null; // null means any repository
+  allowAutoPr: boolean;
+}
+
+export interface SenderPolicyDecision<Rule extends EvaluableSenderRule = EvaluableSenderRule> {
+  allowed: boolean;
+  rule: Rule | null;
+  reason: string;
+  limits: SenderLimits;
+}
+
+export interface SenderPolicyRuleInput {
+  effect: SenderPolicyEffect;
+  pattern: string;
+  priority?: number;
+  allowedRepositories?: string[] | null;
+  allowAutoPr?: boolean;
+}
+
+const NO_LIMITS: SenderLimits = { repositories: null, allowAutoPr: true };
+
+const EMAIL_PATTERN = /^[^@\s]+@[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const GITHUB_URL_PATTERN = /^https:\/\/github\.com\/[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+
+export function normalizeSenderPattern(pattern: string): string {
+  return pattern.trim().toLowerCase().replace(/^@/, '');
+}
+
+export function matchesSenderPattern(pattern: string, senderEmail: string): boolean {
+  const normalized = normalizeSenderPattern(pattern);
+  const sender = senderEmail.trim().toLowerCase();
+  const senderDomain = sender.split('@')[1] || '';
+
+  if (normalized === '*') {
+    return true;
+  }
+  if (normalized.includes('@')) {
+    return normalized === sender;
+  }
+  if (normalized.startsWith('*.')) {
+    return senderDomain.endsWith(normalized.slice(1));
+  }
+  return normalized === senderDomain;
+}
+
+// Whether a pattern is one of the forms above - also used for outbound recipient allow-lists
+export function isValidAddressPattern(pattern: string): boolean {
+  const normalized = normalizeSenderPattern(pattern);
+  return normalized === '*' || EMAIL_PATTERN.test(normalized) || DOMAIN_PATTERN.test(normalized);
+}
+
+function ruleLimits(rule: EvaluableSenderRule): SenderLimits {
+  const repositories: string[] | null = rule.allowedRepositories ? JSON.parse(rule.allowedRepositories) : null;
+  return {
+    repositories: repositories && repositories.length > 0 ? repositories : null,
+    allowAutoPr: rule.allowAutoPr
+  };
+}
+
+export function evaluateSenderPolicy<Rule extends EvaluableSenderRule>(
+  rules: Rule[],
+  senderEmail: string
+): SenderPolicyDecision<Rule> {
+  if (rules.length === 0) {
+    return { allowed: true, rule: null, reason: 'No sender rules configured', limits: NO_LIMITS };
+  }
+
+  const sortedRules = [...rules].sort((a, b) =>
+    a.priority - b.priority || (a.effect === 'deny' ? -1 : 0) - (b.effect === 'deny' ? -1 : 0)
+  );
+
+  for (const rule of sortedRules) {
+    if (!matchesSenderPattern(rule.pattern, senderEmail)) {
+      continue;
+    }
+
+    if (rule.effect === 'deny') {
+      return { allowed: false, rule, reason: `Sender denied by rule ${rule.pattern}`, limits: NO_LIMITS };
+    }
+    return { allowed: true, rule, reason: `Sender allowed by rule ${rule.pattern}`, limits: ruleLimits(rule) };
+  }
+
+  if (rules.some(rule => rule.effect === 'allow')) {
+    return { allowed: false, rule: null, reason: 'Sender does not match any allow rule', limits: NO_LIMITS };
+  }
+
+  return { allowed: true, rule: null, reason: 'Sender does not match any deny rule', limits: NO_LIMITS };
+}
+
+/**
+ * Checks the repository a launch would target against the matched rule's limits.
+ * Auto-PR isn't checked here - launches for senders without it just run without a PR.
+ * @returns Why the launch isn't allowed, or null if it is
+ */
+export function checkRepositoryLimit(limits: SenderLimits, githubRepository: string): string | null {
+  if (limits.repositories && !limits.repositories.includes(githubRepository)) {
+    return `Sender may not target ${githubRepository}`;
+  }
+  return null;
+}
+
+// Converts the old allowedDomains / allowedEmails lists into allow rules
+export function senderRulesFromAllowLists(allowedDomains: string[] = [], allowedEmails: string[] = []): SenderPolicyRuleInput[] {
+  return [...allowedEmails, ...allowedDomains]
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(pattern => ({ effect: 'allow', pattern }));
+}
+
+// Turns validated API input into rows for the sender_policy_rule table
+export function buildSenderPolicyRuleRows(
+  emailAgentId: string,
+  rules: SenderPolicyRuleInput[]
+): (typeof senderPolicyRule.$inferInsert)[] {
+  return rules.map((rule, index) => ({
+    id: nanoid(),
+    emailAgentId,
+    effect: rule.effect,
+    pattern: normalizeSenderPattern(rule.pattern),
+    priority: rule.priority ?? index,
+    allowedRepositories: rule.allowedRepositories && rule.allowedRepositories.length > 0 ? JSON.stringify(rule.allowedRepositories) : null,
+    allowAutoPr: rule.allowAutoPr ?? true,
+  }));
+}
+
+/**
+ * Validates sender rules submitted through the API.
+ * @returns An error message, or null if the rules are valid
+ */
+export function validateSenderPolicyRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) {
+    return 'rules must be an array';
+  }
+
+  for (const rule of rules as SenderPolicyRuleInput[]) {
+    if (!rule || !(SENDER_POLICY_EFFECTS as readonly string[]).includes(rule.effect)) {
+      return `Every sender rule needs an effect. Available: ${SENDER_POLICY_EFFECTS.join(', ')}`;
+    }
+    if (typeof rule.pattern !== 'string') {
+      return 'Every sender rule needs a pattern';
+    }
+
+    if (!isValidAddressPattern(rule.pattern)) {
+      return `Invalid sender pattern: ${rule.pattern}. Use user@company.com, company.com, *.company.com or *`;
+    }
+    if (rule.priority !== undefined && !Number.isInteger(rule.priority)) {
+      return `Sender rule ${rule.pattern} priority must be an integer`;
+    }
+    if (rule.allowedRepositories !== undefined && rule.allowedRepositories !== null) {
+      if (!Array.isArray(rule.allowedRepositories) || rule.allowedRepositories.some(repo => typeof repo !== 'string' || !GITHUB_URL_PATTERN.test(repo))) {
+        return `Sender rule ${rule.pattern} allowedRepositories must be GitHub repository URLs`;
+      }
+    }
+    if (rule.allowAutoPr !== undefined && typeof rule.allowAutoPr !== 'boolean') {
+      return `Sender rule ${rule.pattern} allowAutoPr must be a boolean`;
+    }
+  }
+
+  return null;
+}
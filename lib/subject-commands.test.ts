@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test'
+import { parseSubjectCommands, resolveSubjectCommands, validateAllowedOverrides } from './subject-commands'
+
+function resolve(subject: string, allowList: string[]) {
+  return resolveSubjectCommands(parseSubjectCommands(subject).commands, allowList);
+}
+
+describe('parseSubjectCommands', () => {
+  test('takes command tags out of the subject', () => {
+    expect(parseSubjectCommands('[model:gpt-5] [ref: release/2.1 ] [PR] Fix login redirect')).toEqual({
+      commands: [
+        { name: 'model', value: 'gpt-5', raw: '[model:gpt-5]' },
+        { name: 'ref', value: 'release/2.1', raw: '[ref: release/2.1 ]' },
+        { name: 'pr', value: undefined, raw: '[PR]' },
+      ],
+      subject: 'Fix login redirect',
+    });
+  });
+
+  test('keeps tags that are not commands', () => {
+    expect(parseSubjectCommands('[WIP] Fix [nopr] the [JIRA-123] login')).toEqual({
+      commands: [{ name: 'nopr', value: undefined, raw: '[nopr]' }],
+      subject: '[WIP] Fix the [JIRA-123] login',
+    });
+  });
+
+  test('leaves subjects without tags as they are', () => {
+    expect(parseSubjectCommands('Fix login')).toEqual({ commands: [], subject: 'Fix login' });
+    expect(parseSubjectCommands('Fix [model login')).toEqual({ commands: [], subject: 'Fix [model login' });
+  });
+});
+
+describe('resolveSubjectCommands', () => {
+  test('turns allowed commands into overrides', () => {
+    expect(resolve('[model:gpt-5] [ref:release/2.1] [branch:fix/login] [nopr] Fix', ['model', 'ref', 'branch', 'pr'])).toEqual({
+      overrides: { model: 'gpt-5', githubRef: 'release/2.1', branchName: 'fix/login', autoCreatePr: false },
+      rejected: [],
+    });
+  });
+
+  test('later tags win', () => {
+    expect(resolve('[pr] [nopr] [model:a] [model:b] Fix', ['pr', 'model']).overrides).toEqual({ autoCreatePr: false, model: 'b' });
+  });
+
+  test('allow-list entries with a value allow only that value', () => {
+    expect(resolve('[model:gpt-5] [model:o3] Fix', ['model:gpt-5'])).toEqual({
+      overrides: { model: 'gpt-5' },
+      rejected: [{ tag: '[model:o3]', reason: 'Override not allowed for this agent' }],
+    });
+  });
+
+  test('rejects commands that are not allowed', () => {
+    expect(resolve('[branch:main] [pr] Fix', [])).toEqual({
+      overrides: {},
+      rejected: [
+        { tag: '[branch:main]', reason: 'Override not allowed for this agent' },
+        { tag: '[pr]', reason: 'Override not allowed for this agent' },
+      ],
+    });
+  });
+
+  test('rejects missing, unexpected and invalid values', () => {
+    const { overrides, rejected } = resolve('[model] [pr:yes] [model:gpt 5] [ref:../etc] [branch:fix/] [ref:/main] Fix', ['model', 'pr', 'ref', 'branch']);
+    expect(overrides).toEqual({});
+    expect(rejected).toEqual([
+      { tag: '[model]', reason: '[model] requires a value, e.g. [model:value]' },
+      { tag: '[pr:yes]', reason: '[pr] does not take a value' },
+      { tag: '[model:gpt 5]', reason: 'Invalid model name' },
+      { tag: '[ref:../etc]', reason: 'Invalid git ref' },
+      { tag: '[branch:fix/]', reason: 'Invalid git ref' },
+      { tag: '[ref:/main]', reason: 'Invalid git ref' },
+    ]);
+  });
+});
+
+describe('validateAllowedOverrides', () => {
+  test('accepts known commands, with or without a value', () => {
+    expect(validateAllowedOverrides([])).toBeNull();
+    expect(validateAllowedOverrides(['model', 'model:gpt-5', 'ref', 'branch', 'PR'])).toBeNull();
+  });
+
+  test('refuses unknown commands and anything but a list of strings', () => {
+    expect(validateAllowedOverrides(['nopr', 'repo'])).toBe('Unknown overrides: nopr, repo. Available: model, ref, branch, pr');
+    expect(validateAllowedOverrides('model')).toBe('allowedOverrides must be an array of strings');
+    expect(validateAllowedOverrides(['model', 3])).toBe('allowedOverrides must be an array of strings');
+  });
+});
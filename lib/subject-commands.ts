@@ -0,0 +1,169 @@
+/**
+ * Subject-line commands let senders steer a single launch, e.g.
+ * `[model:gpt-5] [ref:release/2.1] [pr] Fix login redirect`.
+ *
+ * Only tags with a known command name are treated as commands, so subjects like
+ * `[WIP] Fix login` keep their tags. Every command must be on the agent's allow-list.
+ */
+
+export const SUBJECT_COMMANDS = ['model', 'ref', 'branch', 'pr', 'nopr'] as const;
+
+export type SubjectCommandName = typeof SUBJECT_COMMANDS[number];
+
+export interface SubjectCommand {
+  name: SubjectCommandName;
+  value?: string;
+  raw: string;
+}
+
+export interface LaunchOverrides {
+  model?: string;
+  githubRef?: string;
+  branchName?: string;
+  autoCreatePr?: boolean;
+}
+
+export interface RejectedOverride {
+  tag: string;
+  reason: string;
+}
+
+export interface SubjectCommandResult {
+  overrides: LaunchOverrides;
+  rejected: RejectedOverride[];
+}
+
+const TAG_PATTERN = /\[\s*([a-zA-Z]+)\s*(?::\s*([^\]]*?)\s*)?\]/g;
+const GIT_REF_PATTERN = /^(?!.*\.\.)(?!\/)(?!.*\/$)[A-Za-z0-9._\/-]+$/;
+const MODEL_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// Commands that take a value and those that are plain flags
+const VALUE_COMMANDS: SubjectCommandName[] = ['model', 'ref', 'branch'];
+
+function isSubjectCommand(name: string): name is SubjectCommandName {
+  return (SUBJECT_COMMANDS as readonly string[]).includes(name);
+}
+
+/**
+ * Extracts command tags from a subject.
+ * @returns The commands in order and the subject with the command tags removed
+ */
+export function parseSubjectCommands(subject: string): { commands: SubjectCommand[]; subject: string } {
+  const commands: SubjectCommand[] = [];
+
+  const stripped = subject.replace(TAG_PATTERN, (raw, name: string, value: string | undefined) => {
+    const commandName = name.toLowerCase();
+    if (!isSubjectCommand(commandName)) {
+      return raw;
+    }
+
+    commands.push({ name: commandName, value: value || undefined, raw });
+    return '';
+  });
+
+  return {
+    commands,
+    subject: stripped.replace(/\s{2,}/g, ' ').trim()
+  };
+}
+
+/**
+ * Checks whether a command is permitted by an allow-list entry.
+ * `model` allows any model, `model:gpt-5` allows only that value.
+ * `pr` also covers `nopr`, since both toggle auto PR creation.
+ */
+function isCommandAllowed(command: SubjectCommand, allowList: string[]): boolean {
+  const name = command.name === 'nopr' ? 'pr' : command.name;
+
+  return allowList.some(entry => {
+    const [allowedName, ...rest] = entry.split(':');
+    if (allowedName.trim().toLowerCase() !== name) {
+      return false;
+    }
+
+    const allowedValue = rest.join(':').trim();
+    return !allowedValue || allowedValue === command.value;
+  });
+}
+
+function validateCommandValue(command: SubjectCommand): string | null {
+  const takesValue = VALUE_COMMANDS.includes(command.name);
+
+  if (takesValue && !command.value) {
+    return `[${command.name}] requires a value, e.g. [${command.name}:value]`;
+  }
+  if (!takesValue && command.value) {
+    return `[${command.name}] does not take a value`;
+  }
+  if (command.name === 'model' && !MODEL_PATTERN.test(command.value!)) {
+    return 'Invalid model name';
+  }
+  if ((command.name === 'ref' || command.name === 'branch') && !GIT_REF_PATTERN.test(command.value!)) {
+    return 'Invalid git ref';
+  }
+
+  return null;
+}
+
+/**
+ * Turns parsed commands into launch overrides, rejecting commands that aren't allow-listed
+ * or have invalid values. Later tags win over earlier ones.
+ */
+export function resolveSubjectCommands(commands: SubjectCommand[], allowList: string[]): SubjectCommandResult {
+  const result: SubjectCommandResult = { overrides: {}, rejected: [] };
+
+  for (const command of commands) {
+    if (!isCommandAllowed(command, allowList)) {
+      result.rejected.push({ tag: command.raw, reason: 'Override not allowed for this agent' });
+      continue;
+    }
+
+    const valueError = validateCommandValue(command);
+    if (valueError) {
+      result.rejected.push({ tag: command.raw, reason: valueError });
+      continue;
+    }
+
+    switch (command.name) {
+      case 'model':
+        result.overrides.model = command.value;
+        break;
+      case 'ref':
+        result.overrides.githubRef = command.value;
+        break;
+      case 'branch':
+        result.overrides.branchName = command.value;
+        break;
+      case 'pr':
+        result.overrides.autoCreatePr = true;
+        break;
+      case 'nopr':
+        result.overrides.autoCreatePr = false;
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validates an allow-list submitted through the API.
+ * @returns An error message, or null if the list is valid
+ */
+export function validateAllowedOverrides(allowedOverrides: unknown): string | null {
+  if (!Array.isArray(allowedOverrides) || allowedOverrides.some(entry => typeof entry !== 'string')) {
+    return 'allowedOverrides must be an array of strings';
+  }
+
+  const allowedNames = SUBJECT_COMMANDS.filter(name => name !== 'nopr');
+  const invalid = allowedOverrides.filter((entry: string) => {
+    const name = entry.split(':')[0].trim().toLowerCase();
+    return !(allowedNames as string[]).includes(name);
+  });
+
+  if (invalid.length > 0) {
+    return `Unknown overrides: ${invalid.join(', ')}. Available: ${allowedNames.join(', ')}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,14 @@
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { migrate } from 'drizzle-orm/pglite/migrator'
+
+/**
+ * An in-memory Postgres with every migration applied, for tests of code that relies on
+ * conditional updates. Stand it in for ./db with `mock.module('./db', () => ({ db }))`
+ * before importing the module under test.
+ */
+export async function createTestDb() {
+  const db = drizzle(new PGlite());
+  await migrate(db, { migrationsFolder: 'drizzle' });
+  return db;
+}
@@ -32,3 +32,30 @@ export function extractEmailAddress(emailText: string): string {
   // If no angle brackets, assume the whole string is the email
   return emailText.trim();
 }
+
+
+/**
+ * Normalizes a Message-ID header value so IDs from In-Reply-To / References
+ * can be compared with stored ones.
+ *
+ * @example
+ * normalizeMessageId('<CAF=abc@mail.gmail.com>') // returns "caf=abc@mail.gmail.com"
+ */
+export function normalizeMessageId(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, '').toLowerCase();
+}
+
+/**
+ * Escapes text for use in HTML emails and pages.
+ *
+ * @example
+ * escapeHtml('<b>"Hi"</b>') // returns "&lt;b&gt;&quot;Hi&quot;&lt;/b&gt;"
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
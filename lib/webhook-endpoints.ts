@@ -0,0 +1,189 @@
+import crypto from 'crypto'
+import { db } from './db'
+import { webhookEndpoint } from './schema'
+import { eq, and, or } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { isSubscribedToEvent, validateWebhookEvents, type WebhookEventType } from './webhook-events'
+import { WEBHOOK_ENDPOINT_KINDS, type WebhookEndpointKind } from './chat-notifications'
+import { checkWebhookHost } from './webhook-urls'
+
+/**
+ * User-defined URLs that receive an email agent's webhook events. An agent can have any
+ * number of endpoints, each with its own secret and event subscriptions, and each either a
+ * JSON webhook or a Slack/Discord webhook that gets chat messages. Agents launched over MCP
+ * or the API without an email agent get endpoints of their run instead, and batches of agents
+ * get endpoints of the batch, which only hear about the batch as a whole. None of these are
+ * the callback URL we give Cursor (see createCursorCallback) - its secret is kept on the
+ * cursorAgentMapping for email launches and on the run (cursorWebhookSecret) for MCP and
+ * batch launches.
+ */
+
+export type WebhookEndpoint = typeof webhookEndpoint.$inferSelect;
+
+// What an endpoint belongs to - an email agent, a run that has none, or a batch of runs
+export type WebhookEndpointOwner =
+  | { emailAgentId: string; runId?: never; batchId?: never }
+  | { runId: string; emailAgentId?: never; batchId?: never }
+  | { batchId: string; emailAgentId?: never; runId?: never };
+
+export interface WebhookEndpointInput {
+  kind?: WebhookEndpointKind;
+  url?: string;
+  secret?: string | null;
+  events?: string[] | null;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export function generateEndpointSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Validates an endpoint to create, or the fields of one to update.
+ * @returns An error message, or null if the input is valid
+ */
+export function validateWebhookEndpoint(input: WebhookEndpointInput, partial: boolean = false): string | null {
+  if (input.kind !== undefined && !(WEBHOOK_ENDPOINT_KINDS as readonly string[]).includes(input.kind)) {
+    return `Invalid endpoint kind. Available: ${WEBHOOK_ENDPOINT_KINDS.join(', ')}`;
+  }
+
+  if (input.url !== undefined || !partial) {
+    if (typeof input.url !== 'string' || !input.url) {
+      return 'url is required';
+    }
+
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      return 'Invalid webhook URL format';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return 'Webhook URL must use http or https';
+    }
+
+    const hostError = checkWebhookHost(url);
+    if (hostError) {
+      return hostError;
+    }
+  }
+
+  if (input.secret !== undefined && input.secret !== null && typeof input.secret !== 'string') {
+    return 'secret must be a string';
+  }
+
+  // null or an empty list subscribes to every event
+  if (input.events) {
+    const eventsError = validateWebhookEvents(input.events);
+    if (eventsError) {
+      return eventsError;
+    }
+  }
+
+  if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+    return 'isActive must be a boolean';
+  }
+
+  return null;
+}
+
+// Column values for the given input, leaving out fields that weren't provided
+export function buildWebhookEndpointValues(input: WebhookEndpointInput) {
+  return {
+    ...(input.kind !== undefined ? { kind: input.kind } : {}),
+    ...(input.url !== undefined ? { url: input.url } : {}),
+    ...(input.secret !== undefined ? { secret: input.secret || null } : {}),
+    ...(input.events !== undefined ? { events: input.events && input.events.length > 0 ? JSON.stringify(input.events) : null } : {}),
+    ...(input.description !== undefined ? { description: input.description || null } : {}),
+    ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+  };
+}
+
+// What the API returns - the secret itself is only shown when it's created
+export function toPublicWebhookEndpoint(endpoint: WebhookEndpoint) {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, hasSecret: !!secret };
+}
+
+export async function getWebhookEndpoints(emailAgentId: string): Promise<WebhookEndpoint[]> {
+  return db
+    .select()
+    .from(webhookEndpoint)
+    .where(eq(webhookEndpoint.emailAgentId, emailAgentId))
+    .orderBy(webhookEndpoint.createdAt);
+}
+
+// Active endpoints of a run's email agent and of the run itself that want this event
+export async function getSubscribedEndpoints(
+  run: { id: string; emailAgentId: string | null },
+  type: WebhookEventType
+): Promise<WebhookEndpoint[]> {
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoint)
+    .where(and(
+      or(
+        run.emailAgentId ? eq(webhookEndpoint.emailAgentId, run.emailAgentId) : undefined,
+        eq(webhookEndpoint.runId, run.id)
+      ),
+      eq(webhookEndpoint.isActive, true)
+    ));
+
+  return endpoints.filter(endpoint => isSubscribedToEvent(endpoint.events, type));
+}
+
+// Active endpoints of a batch that want this event - its runs have none of their own
+export async function getSubscribedBatchEndpoints(batchId: string, type: WebhookEventType): Promise<WebhookEndpoint[]> {
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoint)
+    .where(and(
+      eq(webhookEndpoint.batchId, batchId),
+      eq(webhookEndpoint.isActive, true)
+    ));
+
+  return endpoints.filter(endpoint => isSubscribedToEvent(endpoint.events, type));
+}
+
+/**
+ * Adds an endpoint for a URL, or updates the owner's existing endpoint for it - used where
+ * a webhook URL is registered alongside something else (MCP launches, agent monitoring, batches).
+ */
+export async function upsertWebhookEndpoint(
+  userId: string,
+  owner: WebhookEndpointOwner,
+  input: WebhookEndpointInput & { url: string }
+): Promise<WebhookEndpoint> {
+  const [existing] = await db
+    .select()
+    .from(webhookEndpoint)
+    .where(and(
+      owner.emailAgentId
+        ? eq(webhookEndpoint.emailAgentId, owner.emailAgentId)
+        : owner.runId
+          ? eq(webhookEndpoint.runId, owner.runId)
+          : eq(webhookEndpoint.batchId, owner.batchId!),
+      eq(webhookEndpoint.url, input.url)
+    ))
+    .limit(1);
+
+  if (existing) {
+    const [updated] = await db.update(webhookEndpoint)
+      .set({ ...buildWebhookEndpointValues(input), updatedAt: new Date() })
+      .where(eq(webhookEndpoint.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await db.insert(webhookEndpoint).values({
+    id: nanoid(),
+    userId,
+    emailAgentId: owner.emailAgentId || null,
+    runId: owner.runId || null,
+    batchId: owner.batchId || null,
+    url: input.url,
+    ...buildWebhookEndpointValues(input),
+  }).returning();
+  return created;
+}
@@ -0,0 +1,129 @@
+import { nanoid } from 'nanoid'
+
+/**
+ * Catalogue of the events sent to outbound webhooks. Every event uses the same envelope:
+ *
+ *   { id, type, version, createdAt, data }
+ *
+ * `version` is bumped for an event type whenever its `data` changes incompatibly, so
+ * receivers can tell payload shapes apart. Endpoints subscribe to a subset of types.
+ */
+
+export const WEBHOOK_EVENTS = {
+  'email.received': { version: 1, description: 'An email arrived and was queued for processing' },
+  'email.rejected': { version: 1, description: 'An email was turned down: sender rules, authentication, repository limits or a declined/expired approval' },
+  'agent.created': { version: 1, description: 'A Cursor agent was launched for an email' },
+  'agent.running': { version: 1, description: 'A Cursor agent is working, including after a follow-up email' },
+  'agent.completed': { version: 1, description: 'A Cursor agent finished' },
+  'agent.failed': { version: 1, description: 'Launching or running a Cursor agent failed' },
+  'agent.expired': { version: 1, description: 'A Cursor agent expired or no longer exists' },
+  'reply.sent': { version: 1, description: 'The completion reply was emailed to the sender' },
+  'batch.completed': { version: 1, description: 'Every agent of a launch batch is done - sent once for the whole batch' },
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+// `data` of every event - fields that don't apply to an event yet are null
+export interface WebhookEventData {
+  runId: string | null;
+  emailAgentId: string | null; // Null for runs launched without an email agent
+  source: string; // Where the run was launched from: 'email', 'mcp', 'api', 'dashboard'
+  status: string; // The agent run's status
+  message: string | null; // Why the run is in this status, e.g. the rejection reason
+  email: {
+    id: string | null; // Inbound email ID
+    from: string;
+    subject: string | null;
+  };
+  agent: {
+    id: string;
+    repository: string | null;
+    branchName: string | null;
+    prUrl: string | null;
+    summary: string | null;
+  } | null;
+  reply?: {
+    id: string | null;
+    subject: string;
+  };
+  batch?: {
+    id: string;
+    name: string | null;
+    repository: string;
+    runs: Array<{
+      runId: string;
+      task: string | null;
+      paths: string[];
+      status: string;
+      agentId: string | null;
+      branchName: string | null;
+      prUrl: string | null;
+    }>;
+  };
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  version: number;
+  createdAt: string;
+  data: WebhookEventData;
+}
+
+// Sample data for test deliveries
+export const SAMPLE_WEBHOOK_EVENT_DATA: WebhookEventData = {
+  runId: null,
+  emailAgentId: 'email_agent_sample',
+  source: 'email',
+  status: 'finished',
+  message: 'Agent finished',
+  email: {
+    id: null,
+    from: 'jane@example.com',
+    subject: 'Add dark mode to settings',
+  },
+  agent: {
+    id: 'bc_sample123',
+    repository: 'https://github.com/acme/web',
+    branchName: 'cursor/add-dark-mode',
+    prUrl: 'https://github.com/acme/web/pull/42',
+    summary: 'Added a dark mode toggle to the settings page and persisted the choice per user.',
+  },
+};
+
+export function buildWebhookEvent(type: WebhookEventType, data: WebhookEventData): WebhookEvent {
+  return {
+    id: `evt_${nanoid()}`,
+    type,
+    version: WEBHOOK_EVENTS[type].version,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+}
+
+// Subscriptions are stored as a JSON array, null means every event
+export function isSubscribedToEvent(subscribedEvents: string | null, type: WebhookEventType): boolean {
+  if (!subscribedEvents) {
+    return true;
+  }
+  return (JSON.parse(subscribedEvents) as string[]).includes(type);
+}
+
+/**
+ * Validates a list of event types to subscribe to.
+ * @returns An error message, or null if the list is valid
+ */
+export function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'webhookEvents must be a non-empty array of event types';
+  }
+
+  const unknownEvents = events.filter(event => !(WEBHOOK_EVENT_TYPES as string[]).includes(event));
+  if (unknownEvents.length > 0) {
+    return `Unknown webhook events: ${unknownEvents.join(', ')}. Available: ${WEBHOOK_EVENT_TYPES.join(', ')}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test'
+import http from 'http'
+import { checkWebhookHost, checkWebhookUrl, isPrivateAddress, lookupPublicAddress } from './webhook-urls'
+
+describe('isPrivateAddress', () => {
+  test('private, loopback and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  test('IPv4 addresses behind IPv6 forms - mapped, translated or through NAT64', () => {
+    for (const address of ['::ffff:7f00:1', '::ffff:8.8.8.8', '::ffff:0:a00:1', '64:ff9b::a9fe:a9fe', '64:ff9b::8.8.8.8', '64:ff9b:1::a00:1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  test('public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('checkWebhookHost', () => {
+  test('refuses internal hosts, however the address is written', () => {
+    for (const url of ['http://localhost:3000', 'http://2130706433/', 'http://0x7f.1/', 'http://[::ffff:127.0.0.1]/', 'http://metadata.google.internal/', 'http://printer.local/']) {
+      expect(checkWebhookHost(new URL(url))).not.toBeNull();
+    }
+  });
+
+  test('allows public hosts', () => {
+    expect(checkWebhookHost(new URL('https://hooks.slack.com/services/x'))).toBeNull();
+    expect(checkWebhookHost(new URL('https://notlocalhost.com/hook'))).toBeNull();
+  });
+});
+
+describe('checkWebhookUrl', () => {
+  test('refuses internal addresses without resolving them', async () => {
+    expect(await checkWebhookUrl('http://169.254.169.254/latest/meta-data')).not.toBeNull();
+    expect(await checkWebhookUrl('ftp://example.com/')).toBe('Webhook URL must use http or https');
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  function lookup(hostname: string, all: boolean): Promise<{ error: Error | null; address: unknown }> {
+    return new Promise(resolve => {
+      lookupPublicAddress(hostname, { all }, (error, address) => resolve({ error, address }));
+    });
+  }
+
+  // What a connection would use - a name that resolves inward fails instead of connecting
+  test('fails for names that resolve to a private address', async () => {
+    for (const all of [false, true]) {
+      const { error } = await lookup('localhost', all);
+      expect(error?.message).toBe('localhost resolves to a private, loopback or link-local address');
+    }
+  });
+
+  test('passes public addresses on', async () => {
+    expect(await lookup('8.8.8.8', false)).toEqual({ error: null, address: '8.8.8.8' });
+  });
+
+  test('keeps requests from connecting to private addresses', async () => {
+    const error = await new Promise<Error>(resolve => {
+      const request = http.request('http://localhost:9/', { method: 'POST', lookup: lookupPublicAddress });
+      request.on('error', resolve);
+      request.end();
+    });
+    expect(error.message).toBe('localhost resolves to a private, loopback or link-local address');
+  });
+});
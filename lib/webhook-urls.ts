@@ -0,0 +1,132 @@
+import { BlockList, isIP, type LookupFunction } from 'net'
+import dns from 'dns'
+
+/**
+ * Which URLs outbound webhooks may be sent to. Endpoint URLs come from users and their
+ * responses are shown back to them in the deliveries log, so an endpoint on a private,
+ * loopback or link-local address would let anyone read internal services (or the cloud
+ * metadata service). URLs are checked when an endpoint is saved and again before every
+ * attempt, and attempts connect with lookupPublicAddress, which checks the addresses a name
+ * resolves to as the connection is made - a public name can point somewhere else later, or
+ * between a check and the request.
+ *
+ * Set `ALLOW_PRIVATE_WEBHOOK_URLS=true` to send to local addresses during development,
+ * e.g. to `bun run test:chat-stub`.
+ */
+
+// Kept apart because a BlockList also matches IPv4 addresses against ::ffff:0:0/96
+const PRIVATE_IPV4_NETWORKS = new BlockList();
+const PRIVATE_IPV6_NETWORKS = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including cloud metadata services
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, including broadcast
+] as const) {
+  PRIVATE_IPV4_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['::ffff:0:0', 96], // IPv4-mapped - sent to the IPv4 address, so kept out whichever that is
+  ['::ffff:0:0:0', 96], // IPv4-translated
+  ['64:ff9b::', 96], // NAT64 - reaches IPv4 addresses through the gateway, private ones included
+  ['64:ff9b:1::', 48], // Local-use NAT64
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  PRIVATE_IPV6_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+// Names that only ever resolve inside a network
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+function allowsPrivateUrls(): boolean {
+  return process.env.ALLOW_PRIVATE_WEBHOOK_URLS === 'true';
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return PRIVATE_IPV4_NETWORKS.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    return PRIVATE_IPV6_NETWORKS.check(address, 'ipv6');
+  }
+  return false;
+}
+
+function getHostname(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
+
+/**
+ * Checks the host of a webhook URL without resolving it - for validating input.
+ * @returns An error message, or null if the host may be used
+ */
+export function checkWebhookHost(url: URL): string | null {
+  if (allowsPrivateUrls()) {
+    return null;
+  }
+
+  const hostname = getHostname(url);
+  if (hostname === 'localhost' || isPrivateAddress(hostname) || PRIVATE_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+    return 'Webhook URL must not point to a private, loopback or link-local address';
+  }
+  return null;
+}
+
+/**
+ * Checks a webhook URL right before sending. Host names are checked when connecting,
+ * by lookupPublicAddress.
+ * @returns An error message, or null if the URL may be sent to
+ */
+export async function checkWebhookUrl(rawUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return 'Invalid webhook URL format';
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Webhook URL must use http or https';
+  }
+
+  return checkWebhookHost(url);
+}
+
+/**
+ * Resolves like dns.lookup, but fails for names that point to a private address - pass it
+ * as the `lookup` of a request, so it connects to the address that was checked.
+ * IP addresses in URLs aren't resolved - checkWebhookHost keeps the private ones out.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (!allowsPrivateUrls() && addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error(`${hostname} resolves to a private, loopback or link-local address`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
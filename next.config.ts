@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loads its .wasm file from next to its own code, which bundling would break
+  serverExternalPackages: ["re2-wasm"],
 };
 
 export default nextConfig;
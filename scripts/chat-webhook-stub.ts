@@ -0,0 +1,85 @@
+#!/usr/bin/env bun
+
+import { createServer } from 'http';
+
+// Stands in for Slack and Discord webhooks locally. Add an endpoint pointing at
+// http://localhost:4010/slack or /discord, then use its Test button or send an email.
+// With --fail every request gets a 500, to watch deliveries being retried.
+const PORT = parseInt(process.env.CHAT_STUB_PORT || '4010');
+
+const fail = process.argv.includes('--fail');
+
+// What Slack and Discord read from an incoming webhook - all optional, since anything can be posted here
+interface SlackMessage {
+  text?: string;
+  blocks?: Array<{ text?: { text?: string } }>;
+}
+
+interface DiscordMessage {
+  embeds?: Array<{ title?: string; url?: string; description?: string }>;
+}
+
+function printMessage(path: string, body: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    console.log(`⚠️ ${path}: body is not JSON:`, body);
+    return;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    console.log(`⚠️ ${path}: body is not a JSON object:`, body);
+    return;
+  }
+  const message = parsed as SlackMessage & DiscordMessage;
+
+  if (path.startsWith('/slack')) {
+    console.log(`💬 Slack: ${message.text}`);
+    for (const block of message.blocks || []) {
+      console.log(`   ${(block.text?.text || '').split('\n').join('\n   ')}`);
+    }
+  } else if (path.startsWith('/discord')) {
+    for (const embed of message.embeds || []) {
+      console.log(`💬 Discord: ${embed.title}${embed.url ? ` (${embed.url})` : ''}`);
+      console.log(`   ${(embed.description || '').split('\n').join('\n   ')}`);
+    }
+  } else {
+    console.log(`📦 ${path}:`, JSON.stringify(message, null, 2));
+  }
+}
+
+const server = createServer((request, response) => {
+  let body = '';
+  request.on('data', chunk => { body += chunk; });
+  request.on('end', () => {
+    const path = request.url || '/';
+    console.log(`\n📥 ${request.method} ${path} (delivery ${request.headers['x-delivery-id'] || '-'}, attempt ${request.headers['x-delivery-attempt'] || '-'})`);
+    printMessage(path, body);
+
+    if (fail) {
+      response.writeHead(500, { 'Content-Type': 'text/plain' });
+      response.end('stub failure');
+      return;
+    }
+
+    // Slack answers "ok", Discord answers 204 without a body
+    if (path.startsWith('/discord')) {
+      response.writeHead(204);
+      response.end();
+    } else {
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end('ok');
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Chat webhook stub listening on http://localhost:${PORT} (/slack, /discord)${fail ? ' - failing every request' : ''}`);
+  console.log('   Press Ctrl+C to stop');
+});
+
+process.on('SIGINT', () => {
+  server.close();
+  process.exit(0);
+});
@@ -0,0 +1,76 @@
+#!/usr/bin/env bun
+
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { db } from '../lib/db';
+import { emailAgent, user } from '../lib/schema';
+import { isEncryptedSecret, rekeySecret } from '../lib/secrets';
+
+/**
+ * Encrypts Cursor API keys that are still stored as plaintext. Pass --rekey to also move keys
+ * encrypted with an older master key over to the active one (the first in ENCRYPTION_MASTER_KEYS).
+ * Runs after every `bun run db:migrate`, so keys written before encryption existed don't stay plaintext.
+ *
+ * Rotating the master key without downtime:
+ * 1. Prepend the new key to ENCRYPTION_MASTER_KEYS and deploy - both keys can decrypt
+ * 2. Run `bun run secrets:rekey`
+ * 3. Remove the old key and deploy again
+ */
+async function main() {
+  const rekey = process.argv.includes('--rekey');
+  let updated = 0;
+  let failed = 0;
+
+  // Only rewrite a value if nobody changed it in the meantime
+  const update = async (label: string, value: string, write: (newValue: string) => Promise<unknown[]>) => {
+    if (!rekey && isEncryptedSecret(value)) {
+      return;
+    }
+    try {
+      const newValue = rekeySecret(value);
+      if (newValue === value) {
+        return;
+      }
+      const rows = await write(newValue);
+      if (rows.length > 0) {
+        updated++;
+        console.log(`✅ ${label}`);
+      } else {
+        console.warn(`⚠️ ${label} changed while running, skipped`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${label}:`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  const users = await db
+    .select({ id: user.id, defaultCursorApiKey: user.defaultCursorApiKey })
+    .from(user)
+    .where(isNotNull(user.defaultCursorApiKey));
+
+  const agents = await db
+    .select({ id: emailAgent.id, name: emailAgent.name, cursorApiKey: emailAgent.cursorApiKey })
+    .from(emailAgent)
+    .where(isNotNull(emailAgent.cursorApiKey));
+
+  console.log(`🔐 ${rekey ? 'Re-keying' : 'Encrypting'} Cursor API keys for ${users.length} user(s) and ${agents.length} email agent(s)`);
+
+  for (const { id, defaultCursorApiKey } of users) {
+    await update(`user ${id}`, defaultCursorApiKey!, newValue => db.update(user)
+      .set({ defaultCursorApiKey: newValue })
+      .where(and(eq(user.id, id), eq(user.defaultCursorApiKey, defaultCursorApiKey!)))
+      .returning({ id: user.id }));
+  }
+
+  for (const { id, name, cursorApiKey } of agents) {
+    await update(`${name} (${id})`, cursorApiKey!, newValue => db.update(emailAgent)
+      .set({ cursorApiKey: newValue })
+      .where(and(eq(emailAgent.id, id), eq(emailAgent.cursorApiKey, cursorApiKey!)))
+      .returning({ id: emailAgent.id }));
+  }
+
+  console.log(`🏁 Done, ${updated} updated, ${failed} failure(s)`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,35 @@
+#!/usr/bin/env bun
+
+import { processInboundJobs } from '../lib/job-queue';
+
+// Polls the inbound job queue so retries run locally without a cron
+const POLL_INTERVAL_MS = parseInt(process.env.INBOUND_WORKER_POLL_MS || '5000');
+
+let running = true;
+
+process.on('SIGINT', () => {
+  console.log('\n👋 Stopping inbound worker after the current job...');
+  running = false;
+});
+
+async function main() {
+  console.log(`🚀 Inbound worker started, polling every ${POLL_INTERVAL_MS / 1000}s`);
+
+  while (running) {
+    try {
+      const processed = await processInboundJobs();
+      if (processed > 0) {
+        console.log(`📬 Processed ${processed} inbound job(s)`);
+        continue;
+      }
+    } catch (error) {
+      console.error('❌ Error processing inbound jobs:', error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  process.exit(0);
+}
+
+main();
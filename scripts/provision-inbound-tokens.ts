@@ -0,0 +1,87 @@
+#!/usr/bin/env bun
+
+import { eq, isNull } from 'drizzle-orm';
+import { db } from '../lib/db';
+import { emailAgent } from '../lib/schema';
+import { updateEmailAgentVerificationToken } from '../lib/inbound-email';
+import { generateInboundVerificationToken } from '../lib/inbound-verification';
+
+// Gives existing email agents a webhook verification token. Pass --rotate to replace every agent's token.
+async function main() {
+  const rotate = process.argv.includes('--rotate');
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BETTER_AUTH_URL;
+
+  if (!baseUrl) {
+    console.error('❌ NEXT_PUBLIC_BASE_URL or BETTER_AUTH_URL is required to rebuild webhook URLs');
+    process.exit(1);
+  }
+
+  const agents = await db
+    .select({
+      id: emailAgent.id,
+      name: emailAgent.name,
+      inboundEndpointId: emailAgent.inboundEndpointId,
+      inboundVerificationToken: emailAgent.inboundVerificationToken
+    })
+    .from(emailAgent)
+    .where(rotate ? undefined : isNull(emailAgent.inboundVerificationToken));
+
+  console.log(`🔑 ${rotate ? 'Rotating' : 'Provisioning'} verification tokens for ${agents.length} agent(s)`);
+
+  let failed = 0;
+  for (const agent of agents) {
+    if (!agent.inboundEndpointId) {
+      console.warn(`⚠️ Skipping ${agent.name} (${agent.id}): no Inbound endpoint`);
+      continue;
+    }
+
+    const token = generateInboundVerificationToken();
+    try {
+      // Store the new token first and keep accepting the old one, so deliveries keep
+      // verifying whichever token Inbound sends while it's being updated
+      await db.update(emailAgent)
+        .set({
+          inboundVerificationToken: token,
+          inboundPreviousVerificationToken: agent.inboundVerificationToken,
+          updatedAt: new Date()
+        })
+        .where(eq(emailAgent.id, agent.id));
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${agent.name} (${agent.id}):`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    try {
+      await updateEmailAgentVerificationToken(
+        agent.inboundEndpointId,
+        `${baseUrl}/api/inbound/receive/${agent.id}`,
+        token
+      );
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${agent.name} (${agent.id}):`, error instanceof Error ? error.message : error);
+
+      // Inbound still sends the old token - go back to it
+      await db.update(emailAgent)
+        .set({
+          inboundVerificationToken: agent.inboundVerificationToken,
+          inboundPreviousVerificationToken: null,
+          updatedAt: new Date()
+        })
+        .where(eq(emailAgent.id, agent.id));
+      continue;
+    }
+
+    // Inbound sends the new token from now on - stop accepting the old one
+    await db.update(emailAgent)
+      .set({ inboundPreviousVerificationToken: null, updatedAt: new Date() })
+      .where(eq(emailAgent.id, agent.id));
+    console.log(`✅ ${agent.name} (${agent.id})`);
+  }
+
+  console.log(`🏁 Done, ${failed} failure(s)`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,40 @@
+#!/usr/bin/env bun
+
+import { reconcileAgentRuns } from '../lib/reconciler';
+
+// Syncs running agents with Cursor once - run it from cron, or with --watch to keep polling
+const POLL_INTERVAL_MS = parseInt(process.env.RECONCILE_INTERVAL_MS || '60000');
+
+let running = true;
+
+process.on('SIGINT', () => {
+  console.log('\n👋 Stopping reconciler after the current pass...');
+  running = false;
+});
+
+async function main() {
+  const watch = process.argv.includes('--watch');
+
+  do {
+    try {
+      const summary = await reconcileAgentRuns();
+      if (summary.failedKeys > 0 && !watch) {
+        console.error(`❌ ${summary.failedKeys} API key(s) could not be reconciled`);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Error reconciling agent runs:', error);
+      if (!watch) {
+        process.exit(1);
+      }
+    }
+
+    if (watch && running) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } while (watch && running);
+
+  process.exit(0);
+}
+
+main();